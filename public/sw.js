@@ -1,4 +1,6 @@
 // public/sw.js
+importScripts("/timer-notifications-sw.js");
+
 const CACHE_NAME = "parking-app-v1-clean";
 const STATIC_CACHE = "parking-app-static-v1";
 const urlsToCache = [
@@ -208,14 +210,14 @@ self.addEventListener("activate", (event) => {
   );
 });
 
-console.log("✅ SW: Service Worker limpio cargado (versión sin notificaciones)");
+console.log("✅ SW: Service Worker limpio cargado");
 console.log("📦 SW: Cache configurado:", CACHE_NAME);
 console.log("🎯 SW: Funcionalidades:");
 console.log("  ✅ Cache de recursos estáticos");
 console.log("  ✅ Navegación sin conexión");
 console.log("  ✅ Gestión de versiones");
 console.log("  ✅ Limpieza automática de cache");
-console.log("  ❌ Sistema de notificaciones (eliminado)");
+console.log("  ✅ Botones de las notificaciones del temporizador");
 
 // Funciones de utilidad para debugging (disponibles en DevTools)
 self.getCacheInfo = getCacheStatus;
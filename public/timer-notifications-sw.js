@@ -0,0 +1,161 @@
+// public/timer-notifications-sw.js
+// Se carga con importScripts desde el service worker de Workbox y desde public/sw.js.
+// Gestiona los botones de las notificaciones del temporizador (ver src/utils/timerNotifications.ts)
+// y entrega los avisos que la app copia en IndexedDB cuando está cerrada (ver src/utils/timerDelivery.ts).
+
+const TIMER_NOTIFICATION_SOURCE = "aparky-timer";
+const NOTIFICATION_ACTION_MESSAGE = "NOTIFICATION_ACTION";
+const TIMER_DB_NAME = "aparky-timer-schedules";
+const TIMER_DB_VERSION = 1;
+const TIMER_SCHEDULES_STORE = "schedules";
+const SYNC_TIMER_SCHEDULES_MESSAGE = "SYNC_TIMER_SCHEDULES";
+const TIMER_PERIODIC_SYNC_TAG = "aparky-timers";
+
+self.addEventListener("notificationclick", (event) => {
+  const data = event.notification.data;
+  if (!data || data.source !== TIMER_NOTIFICATION_SOURCE) return;
+
+  event.notification.close();
+
+  const target = (data.urls && (data.urls[event.action] || data.urls.default)) || "/";
+  const url = new URL(target, self.location.origin).href;
+
+  console.log("🔔 SW: Acción de notificación:", event.action || "abrir", url);
+  event.waitUntil(openActionUrl(url));
+});
+
+// Si la app está abierta se le reenvía la acción; si no, se abre con la acción en la URL
+async function openActionUrl(url) {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const client = windows.find((windowClient) => new URL(windowClient.url).origin === self.location.origin);
+
+  if (client) {
+    try {
+      await client.focus();
+    } catch (error) {
+      console.warn("⚠️ SW: No se pudo enfocar la app:", error);
+    }
+    client.postMessage({ type: NOTIFICATION_ACTION_MESSAGE, url });
+    return;
+  }
+
+  await self.clients.openWindow(url);
+}
+
+function openTimerDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(TIMER_DB_NAME, TIMER_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(TIMER_SCHEDULES_STORE)) {
+        request.result.createObjectStore(TIMER_SCHEDULES_STORE, { keyPath: "id" });
+      }
+    };
+  });
+}
+
+function readTimerSchedules(db) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([TIMER_SCHEDULES_STORE], "readonly").objectStore(TIMER_SCHEDULES_STORE).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function updateTimerSchedules(db, entries, remove) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([TIMER_SCHEDULES_STORE], "readwrite");
+    const store = transaction.objectStore(TIMER_SCHEDULES_STORE);
+
+    entries.forEach((entry) => (remove ? store.delete(entry.id) : store.put(entry)));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Con la app abierta sus propios temporizadores se encargan de avisar
+async function deliverDueTimers() {
+  try {
+    const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    if (windows.length > 0) return;
+
+    const db = await openTimerDb();
+    const now = Date.now();
+    const due = (await readTimerSchedules(db)).filter((entry) => entry.fireAt <= now);
+    if (due.length === 0) return;
+
+    // Los programados con Notification Triggers ya los ha mostrado el sistema
+    await Promise.all(
+      due
+        .filter((entry) => !entry.triggerScheduled)
+        .map((entry) => self.registration.showNotification(entry.notification.title, entry.notification.options))
+    );
+    await updateTimerSchedules(db, due, true);
+
+    console.log(`⏰ SW: ${due.length} avisos de temporizador entregados`);
+  } catch (error) {
+    console.error("❌ SW: Error entregando avisos de temporizador:", error);
+  }
+}
+
+// Sustituye las notificaciones programadas por las que hay ahora en IndexedDB
+async function scheduleTimerTriggers() {
+  if (!("TimestampTrigger" in self)) return;
+
+  try {
+    const now = Date.now();
+    const scheduled = await self.registration.getNotifications({ includeTriggered: true });
+    scheduled
+      .filter(
+        (notification) =>
+          notification.data &&
+          notification.data.source === TIMER_NOTIFICATION_SOURCE &&
+          notification.showTrigger &&
+          notification.showTrigger.timestamp > now
+      )
+      .forEach((notification) => notification.close());
+
+    const db = await openTimerDb();
+    const upcoming = (await readTimerSchedules(db)).filter((entry) => entry.fireAt > now);
+
+    await Promise.all(
+      upcoming.map((entry) =>
+        self.registration.showNotification(entry.notification.title, {
+          ...entry.notification.options,
+          showTrigger: new self.TimestampTrigger(entry.fireAt),
+        })
+      )
+    );
+    await updateTimerSchedules(
+      db,
+      upcoming.map((entry) => ({ ...entry, triggerScheduled: true })),
+      false
+    );
+
+    console.log(`⏰ SW: ${upcoming.length} avisos programados en el sistema`);
+  } catch (error) {
+    console.error("❌ SW: Error programando avisos de temporizador:", error);
+  }
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === SYNC_TIMER_SCHEDULES_MESSAGE) {
+    event.waitUntil(scheduleTimerTriggers());
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === TIMER_PERIODIC_SYNC_TAG) {
+    event.waitUntil(deliverDueTimers());
+  }
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(deliverDueTimers());
+});
+
+// El navegador arranca el worker por cualquier evento: se aprovecha para ponerse al día
+deliverDueTimers();
@@ -7,6 +7,8 @@ import { AlertTriangle, X } from "lucide-react";
 import { useUIState } from "@/hooks/useUIState";
 import { useAppData } from "@/hooks/useAppData";
 import { ErrorBoundary } from "@/shared/components/ErrorBoundary";
+import { LockScreen } from "@/shared/components/LockScreen";
+import { PinLockScreen } from "@/shared/components/PinLockScreen";
 import { MainLayout } from "@/shared/components/Layout";
 import { useAddressSync } from "@/hooks/useAddressSync";
 import { AddressSyncIndicator } from "@/features/location/components/AddressSyncIndicator";
@@ -24,19 +26,30 @@ import { UnifiedMap } from "./features/location/components/UnifiedMap";
 import SavedLocations from "./features/location/components/SavedLocations";
 import ProximitySearch from "./features/location/components/ProximitySearch";
 import Settings from "./shared/components/Settings";
+import { SharedLocationDialog } from "./shared/components/SharedLocationDialog";
 import Stats from "./shared/components/Stats";
 import Navigation from "./features/navigation/components/Navigation";
 import LocationPermissions from "./features/navigation/components/LocationPermissions";
 
 // Contexto y hooks
-import { AppProvider } from "./contexts/AppContext";
+import { AppProvider, useTimers } from "./contexts/AppContext";
 import { useGeolocation } from "./features/location/hooks/useGeolocation";
 
 // Tipos y utilidades
 import type { CarLocation } from "./types/location";
 import { initializeTheme } from "./utils/preferences";
 import { timerManager } from "./utils/timerManager";
+import { backupScheduler } from "./utils/backupScheduler";
 import { useSmartLocation } from "./utils/locationDefaults";
+import { locationRepository } from "./utils/storage";
+import { dispatchUrlAction, type UrlAction, type UrlActionSource } from "./utils/urlActions";
+import { showTimerNotification } from "./utils/timerNotifications";
+import { decodeShareLink } from "./utils/shareLink";
+import { useUrlActions } from "./hooks/useUrlActions";
+import { useEncryptionLock } from "./hooks/useEncryptionLock";
+import { useAppLock } from "./hooks/useAppLock";
+import { cn } from "@/lib/utils";
+import { encryptionVault } from "./utils/encryption";
 import { toast } from "sonner";
 
 declare global {
@@ -46,18 +59,41 @@ declare global {
   }
 }
 
+let timerCallbacksReady = false;
+
+// Con Notification Triggers el sistema ya muestra el aviso a su hora
+const systemSchedulesNotifications = () => timerManager.getDeliveryMode() === "triggers";
+
+/**
+ * Se registra en App, fuera del bloqueo: con los datos cifrados y bloqueados
+ * los avisos también salen, con el texto genérico que pone timerManager
+ */
 const setupTimerCallbacks = () => {
-  timerManager.onTimerExpiration((locationId: string, locationNote: string) => {
+  if (timerCallbacksReady) return;
+  timerCallbacksReady = true;
+
+  timerManager.onTimerExpiration((locationId, locationNote, { whileClosed }) => {
     console.log(`🚨 Timer expirado - ejecutando callback UI: ${locationNote}`);
 
-    toast.error(`🚨 Parking expirado: ${locationNote}`, {
+    const message = whileClosed
+      ? `🚨 Parking expirado mientras la app estaba cerrada: ${locationNote}`
+      : `🚨 Parking expirado: ${locationNote}`;
+
+    if (!systemSchedulesNotifications()) {
+      showTimerNotification("expiry", locationId, "🚨 Parking expirado", locationNote);
+    }
+
+    // Los botones hacen lo mismo que los de la notificación del sistema
+    toast.error(message, {
       duration: 15000,
       position: "top-center",
       action: {
         label: "Ver ubicación",
-        onClick: () => {
-          console.log("Navegando a ubicación expirada:", locationId);
-        },
+        onClick: () => dispatchUrlAction({ type: "show", id: locationId }),
+      },
+      cancel: {
+        label: "+15 min",
+        onClick: () => dispatchUrlAction({ type: "extend", id: locationId, minutes: 15 }),
       },
       style: {
         background: "#fef2f2",
@@ -67,17 +103,28 @@ const setupTimerCallbacks = () => {
     });
   });
 
-  timerManager.onTimerReminder((locationId: string, locationNote: string, minutesLeft: number) => {
+  timerManager.onTimerReminder((locationId, locationNote, minutesLeft, { whileClosed, minutesBefore }) => {
     console.log(`⏰ Recordatorio - ejecutando callback UI: ${locationNote}, ${minutesLeft} minutos`);
 
-    toast.warning(`⏰ Recordatorio: ${locationNote} expira en ${minutesLeft} minutos`, {
+    const message = whileClosed
+      ? `⏰ Recordatorio pendiente: ${locationNote} expira en ${minutesLeft} minutos`
+      : `⏰ Recordatorio: ${locationNote} expira en ${minutesLeft} minutos`;
+
+    if (!systemSchedulesNotifications()) {
+      const body = `${locationNote} expira en ${minutesLeft} minutos`;
+      showTimerNotification("reminder", locationId, "⏰ Recordatorio", body, minutesBefore);
+    }
+
+    toast.warning(message, {
       duration: 10000,
       position: "top-center",
       action: {
-        label: "Extender",
-        onClick: () => {
-          console.log("Extendiendo timer:", locationId);
-        },
+        label: "+15 min",
+        onClick: () => dispatchUrlAction({ type: "extend", id: locationId, minutes: 15 }),
+      },
+      cancel: {
+        label: "Ver ubicación",
+        onClick: () => dispatchUrlAction({ type: "show", id: locationId }),
       },
       style: {
         background: "#fefce8",
@@ -122,11 +169,21 @@ function AppContent() {
     handleGlobalErrorDismiss,
   } = useUIState();
 
+  const { isLocked: isPinLocked, isContentHidden } = useAppLock();
+  // Difumina el mapa y la lista con el PIN activo o en el selector de apps
+  const sensitiveClassName = cn(isContentHidden && "blur-xl pointer-events-none select-none");
+
   const [isInitialized, setIsInitialized] = useState(false);
   const [initError, setInitError] = useState<string | null>(null);
 
   const [currentLocation, setCurrentLocation] = useState<{ latitude: number; longitude: number } | null>(null);
 
+  // Peticiones recibidas por URL para LocationSaver y ProximitySearch
+  const [saveRequestId, setSaveRequestId] = useState(0);
+  const [searchRequestId, setSearchRequestId] = useState(0);
+  const [pendingNavigationTarget, setPendingNavigationTarget] = useState<CarLocation | null>(null);
+  const [sharedLocation, setSharedLocation] = useState<CarLocation | null>(null);
+
   const { isOffline, hasUpdate, updateApp, dismissUpdate } = usePWA();
 
   const { initialLocation, isLoading: locationLoading, updateLastKnownLocation } = useSmartLocation();
@@ -142,6 +199,7 @@ function AppContent() {
     mapZoom,
     handleLocationSaved,
     handleLocationUpdate,
+    handleAddressResolved,
     handleLocationDeleted,
     handleLocationSelected,
     handleTimerExtend,
@@ -151,8 +209,11 @@ function AppContent() {
     handlePreferencesChange,
     updateSortPreference,
     updateShowAllPreference,
+    reloadLocations,
   } = useAppData(currentLocation, updateLastKnownLocation);
 
+  const { extendTimer } = useTimers();
+
   const geoCurrentLocation = useMemo(() => {
     if (latitude !== null && longitude !== null) {
       return { latitude, longitude };
@@ -181,7 +242,7 @@ function AppContent() {
 
   const { syncMissingAddresses } = useAddressSync(
     locations,
-    handleLocationUpdate,
+    handleAddressResolved,
     !isOffline // isOnline
   );
 
@@ -296,6 +357,99 @@ function AppContent() {
     [currentLocation, getCurrentLocation, startNavigation, setGlobalError]
   );
 
+  // La navegación abierta desde un enlace espera a tener la ubicación actual
+  useEffect(() => {
+    if (pendingNavigationTarget && currentLocation) {
+      startNavigation(pendingNavigationTarget);
+      setPendingNavigationTarget(null);
+    }
+  }, [pendingNavigationTarget, currentLocation, startNavigation]);
+
+  const navigateWhenLocated = useCallback(
+    (location: CarLocation) => {
+      if (currentLocation) {
+        startNavigation(location);
+      } else {
+        setPendingNavigationTarget(location);
+        getCurrentLocation?.();
+      }
+    },
+    [currentLocation, startNavigation, getCurrentLocation]
+  );
+
+  const handleUrlAction = useCallback(
+    async (action: UrlAction, source: UrlActionSource) => {
+      switch (action.type) {
+        case "save":
+          setSaveRequestId((id) => id + 1);
+          break;
+
+        case "search":
+          setCurrentView("proximity");
+          setSearchRequestId((id) => id + 1);
+          break;
+
+        case "navigate":
+        case "show": {
+          const location = await locationRepository.getById(action.id);
+          if (!location) {
+            toast.error("No se encontró la ubicación del enlace");
+            return;
+          }
+
+          if (action.type === "navigate") {
+            navigateWhenLocated(location);
+          } else {
+            setCurrentView("map");
+            handleLocationSelected(location);
+            requestAnimationFrame(() => mapSectionRef.current?.scrollIntoView({ behavior: "smooth" }));
+          }
+          break;
+        }
+
+        case "extend": {
+          const extend = async () => {
+            await extendTimer(action.id, action.minutes);
+            await reloadLocations();
+          };
+
+          if (source === "app") {
+            await extend();
+            break;
+          }
+
+          // Prorrogar suma coste: si llega en un enlace, lo confirma el usuario
+          const location = await locationRepository.getById(action.id);
+          if (!location?.expiryTime) {
+            toast.error("No se encontró el temporizador del enlace");
+            return;
+          }
+
+          toast(`¿Añadir ${action.minutes} minutos al temporizador?`, {
+            description: location.note || undefined,
+            duration: 15000,
+            position: "top-center",
+            action: { label: "Prorrogar", onClick: () => void extend() },
+            cancel: { label: "Cancelar", onClick: () => undefined },
+          });
+          break;
+        }
+
+        case "shared":
+          try {
+            setSharedLocation(decodeShareLink(action.payload));
+          } catch (error) {
+            console.error("Error reading shared location:", error);
+            toast.error(error instanceof Error ? error.message : "No se pudo abrir el enlace compartido");
+          }
+          break;
+      }
+    },
+    [navigateWhenLocated, setCurrentView, handleLocationSelected, extendTimer, reloadLocations]
+  );
+
+  useUrlActions(handleUrlAction);
+
   const handlePermissionDeniedWithToast = useCallback(() => {
     handlePermissionDenied();
     toast.error("Se necesitan permisos de ubicación para la navegación");
@@ -333,8 +487,21 @@ function AppContent() {
       isLoading: isGeoLoading,
       autoSave: preferences.autoSave || false,
       saveMapType: preferences.saveMapType || "osm",
+      defaultReminderOffsets: preferences.defaultReminderOffsets,
+      tariffProfiles: preferences.tariffProfiles,
+      saveRequestId,
     }),
-    [handleLocationSaved, currentLocation, mapCenter, isGeoLoading, preferences.autoSave, preferences.saveMapType]
+    [
+      handleLocationSaved,
+      currentLocation,
+      mapCenter,
+      isGeoLoading,
+      preferences.autoSave,
+      preferences.saveMapType,
+      preferences.defaultReminderOffsets,
+      preferences.tariffProfiles,
+      saveRequestId,
+    ]
   );
 
   const timerDashboardProps = useMemo(
@@ -366,6 +533,7 @@ function AppContent() {
       },
       onTimerExtend: handleTimerExtend,
       onTimerCancel: handleTimerCancel,
+      onLocationRestored: reloadLocations,
     }),
     [
       locations,
@@ -380,6 +548,7 @@ function AppContent() {
       updateShowAllPreference,
       handleTimerExtend,
       handleTimerCancel,
+      reloadLocations,
     ]
   );
 
@@ -411,7 +580,7 @@ function AppContent() {
       <>
         {currentView === "map" ? (
           <div className="space-y-6">
-            <div ref={mapSectionRef} className="rounded-lg overflow-hidden border">
+            <div ref={mapSectionRef} className={cn("rounded-lg overflow-hidden border", sensitiveClassName)}>
               <div className="space-y-4">
                 <h2 className="font-bold flex items-center gap-2">🗺️ Mapa de ubicaciones</h2>
               </div>
@@ -439,13 +608,17 @@ function AppContent() {
             currentView={currentView}
             onViewChange={setCurrentView}
             currentUserLocation={geoCurrentLocation}
+            searchRequestId={searchRequestId}
           />
         )}
-        <SavedLocations {...savedLocationsProps} />
+        <div className={sensitiveClassName}>
+          <SavedLocations {...savedLocationsProps} />
+        </div>
       </>
     ),
     [
       currentView,
+      sensitiveClassName,
       mapCenter,
       mapZoom,
       preferences.mapType,
@@ -457,6 +630,7 @@ function AppContent() {
       handleLocationSelected,
       handleShowOnMapWithRef,
       savedLocationsProps,
+      searchRequestId,
     ]
   );
 
@@ -481,12 +655,6 @@ function AppContent() {
         } catch (themeError) {
           console.error("❌ Error inicializando tema:", themeError);
         }
-        try {
-          setupTimerCallbacks();
-          console.log("✅ Callbacks de timer configurados");
-        } catch (callbackError) {
-          console.error("❌ Error configurando callbacks:", callbackError);
-        }
         try {
           if (locations.length > 0) {
             console.log("⏰ Sincronizando timers...");
@@ -522,6 +690,12 @@ function AppContent() {
         } catch (geoError) {
           console.error("❌ Error con geolocalización:", geoError);
         }
+        try {
+          backupScheduler.start();
+          console.log("💾 Copias automáticas programadas");
+        } catch (backupError) {
+          console.error("❌ Error programando copias automáticas:", backupError);
+        }
         try {
           setupMobileEventListeners();
           console.log("📱 Event listeners configurados");
@@ -573,7 +747,9 @@ function AppContent() {
 
     const cleanup = () => {
       try {
-        timerManager.cleanup();
+        // Al bloquear, los temporizadores siguen activos con sus datos mínimos
+        if (!encryptionVault.isLocked()) timerManager.cleanup();
+        backupScheduler.stop();
         console.log("🧹 TimerManager limpiado");
       } catch (error) {
         console.error("❌ Error en cleanup:", error);
@@ -673,6 +849,8 @@ function AppContent() {
 
       <InstallBanner />
 
+      {isPinLocked && <PinLockScreen />}
+
       {showLocationPermissions && navigationTarget && (
         <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center backdrop-blur-sm p-4">
           <ErrorBoundary>
@@ -685,7 +863,22 @@ function AppContent() {
       )}
 
       <ErrorBoundary>
-        <Settings isOpen={showSettings} onClose={hideSettingsHandler} onPreferencesChange={handlePreferencesChange} />
+        <Settings
+          isOpen={showSettings}
+          onClose={hideSettingsHandler}
+          onPreferencesChange={handlePreferencesChange}
+          onLocationsChanged={reloadLocations}
+        />
+      </ErrorBoundary>
+
+      <ErrorBoundary>
+        <SharedLocationDialog
+          location={sharedLocation}
+          alreadySaved={!!sharedLocation && locations.some((location) => location.id === sharedLocation.id)}
+          onClose={() => setSharedLocation(null)}
+          onSave={handleLocationSaved}
+          onNavigate={navigateWhenLocated}
+        />
       </ErrorBoundary>
 
       <ErrorBoundary>
@@ -723,15 +916,34 @@ function AppContent() {
 }
 
 function App() {
+  const { isLocked } = useEncryptionLock();
+
+  // Después de montar el Toaster, para que se vean los avisos pendientes
+  useEffect(() => {
+    try {
+      setupTimerCallbacks();
+    } catch (callbackError) {
+      console.error("❌ Error configurando callbacks:", callbackError);
+    }
+  }, []);
+
   const handleGlobalError = useCallback((error: Error, errorInfo: any) => {
     console.error("Error global capturado:", error, errorInfo);
   }, []);
 
+  // Bloqueada no se monta nada que lea las ubicaciones
   return (
     <ErrorBoundary onError={handleGlobalError}>
-      <AppProvider>
-        <AppContent />
-      </AppProvider>
+      {isLocked ? (
+        <>
+          <LockScreen />
+          <Toaster position="top-center" />
+        </>
+      ) : (
+        <AppProvider>
+          <AppContent />
+        </AppProvider>
+      )}
     </ErrorBoundary>
   );
 }
@@ -0,0 +1,243 @@
+// src/components/AppLockManager.tsx
+import React, { useState } from "react";
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Switch,
+} from "@/shared/ui";
+import { EyeOff, LockKeyhole } from "lucide-react";
+import { toast } from "sonner";
+import { useAppLock } from "@/hooks/useAppLock";
+import { appLock, isValidPin, type AppLockSettings, type PinCheckResult } from "@/utils/appLock";
+
+type PinDialogMode = "set" | "change" | "remove";
+
+const LOCK_AFTER_OPTIONS = [
+  { value: 0, label: "Al salir" },
+  { value: 1, label: "1 minuto" },
+  { value: 5, label: "5 minutos" },
+  { value: 15, label: "15 minutos" },
+  { value: 60, label: "1 hora" },
+];
+
+const PIN_DIALOG_TITLES: Record<PinDialogMode, string> = {
+  set: "Configurar PIN",
+  change: "Cambiar PIN",
+  remove: "Quitar PIN",
+};
+
+const describeFailure = (result: PinCheckResult): string =>
+  result.retryInMs > 0
+    ? `Demasiados intentos. Espera ${Math.ceil(result.retryInMs / 1000)} segundos.`
+    : "El PIN actual no es correcto";
+
+const PinInput: React.FC<{ id: string; value: string; onChange: (value: string) => void; autoFocus?: boolean }> = ({
+  id,
+  value,
+  onChange,
+  autoFocus,
+}) => (
+  <Input
+    id={id}
+    type="password"
+    inputMode="numeric"
+    autoComplete="off"
+    maxLength={8}
+    value={value}
+    onChange={(event) => onChange(event.target.value.replace(/\D/g, ""))}
+    autoFocus={autoFocus}
+  />
+);
+
+const PinDialog: React.FC<{ mode: PinDialogMode | null; onClose: () => void }> = ({ mode, onClose }) => {
+  const [currentPin, setCurrentPin] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = () => {
+    setCurrentPin("");
+    setPin("");
+    setConfirmation("");
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (isSaving) return;
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (mode !== "remove") {
+      if (!isValidPin(pin)) {
+        setError("El PIN debe tener entre 4 y 8 números");
+        return;
+      }
+      if (pin !== confirmation) {
+        setError("Los PIN no coinciden");
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = mode === "remove" ? await appLock.removePin(currentPin) : await appLock.setPin(pin, currentPin);
+      if (!result.ok) {
+        setCurrentPin("");
+        setError(describeFailure(result));
+        return;
+      }
+
+      toast.success(mode === "remove" ? "PIN eliminado" : "PIN guardado");
+      reset();
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "No se pudo guardar el PIN");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LockKeyhole className="w-5 h-5" />
+              {mode && PIN_DIALOG_TITLES[mode]}
+            </DialogTitle>
+            <DialogDescription>
+              {mode === "remove" ? "Introduce el PIN actual para quitarlo." : "Entre 4 y 8 números."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {mode !== "set" && (
+            <div className="space-y-2">
+              <Label htmlFor="current-pin">PIN actual</Label>
+              <PinInput id="current-pin" value={currentPin} onChange={setCurrentPin} autoFocus />
+            </div>
+          )}
+
+          {mode !== "remove" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="new-pin">Nuevo PIN</Label>
+                <PinInput id="new-pin" value={pin} onChange={setPin} autoFocus={mode === "set"} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-pin">Repite el PIN</Label>
+                <PinInput id="confirm-pin" value={confirmation} onChange={setConfirmation} />
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant={mode === "remove" ? "destructive" : "default"} disabled={isSaving}>
+              {isSaving ? "Guardando..." : mode === "remove" ? "Quitar PIN" : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const AppLockManager: React.FC = () => {
+  const { isEnabled } = useAppLock();
+  const [dialog, setDialog] = useState<PinDialogMode | null>(null);
+  const [settings, setSettings] = useState(appLock.getSettings());
+
+  const handleSettingChange = <K extends keyof AppLockSettings>(key: K, value: AppLockSettings[K]) => {
+    appLock.updateSettings({ [key]: value });
+    setSettings(appLock.getSettings());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Bloqueo con PIN</Label>
+          <p className="text-xs text-muted-foreground">Al abrir la app y al volver de segundo plano</p>
+        </div>
+        <Badge variant={isEnabled ? "default" : "secondary"}>{isEnabled ? "Activado" : "Desactivado"}</Badge>
+      </div>
+
+      {isEnabled ? (
+        <>
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Pedir PIN</Label>
+            <Select
+              value={String(settings.lockAfterMinutes)}
+              onValueChange={(value) => handleSettingChange("lockAfterMinutes", Number(value))}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[9999]">
+                {LOCK_AFTER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <EyeOff className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="hideContent" className="text-sm">
+                Ocultar contenido en el selector de apps
+              </Label>
+            </div>
+            <Switch
+              id="hideContent"
+              checked={settings.hideContent}
+              onCheckedChange={(checked) => handleSettingChange("hideContent", checked)}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setDialog("change")}>
+              Cambiar PIN
+            </Button>
+            <Button variant="ghost" className="flex-1" onClick={() => setDialog("remove")}>
+              Quitar PIN
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button variant="outline" className="w-full justify-start" onClick={() => setDialog("set")}>
+          <LockKeyhole className="h-4 w-4 mr-2" />
+          Configurar PIN
+        </Button>
+      )}
+
+      <PinDialog mode={dialog} onClose={() => setDialog(null)} />
+    </div>
+  );
+};
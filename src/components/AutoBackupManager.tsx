@@ -0,0 +1,186 @@
+// src/components/AutoBackupManager.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button, Label, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui";
+import { ArchiveRestore, FolderOpen, HardDrive, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { UserPreferences } from "@/types/location";
+import { BACKUP_REASONS, backupScheduler, type BackupSnapshot } from "@/utils/backupScheduler";
+import { Formatters } from "@/utils/formatters";
+
+interface AutoBackupManagerProps {
+  frequency: UserPreferences["backupFrequency"];
+  keepCount: number;
+  onFrequencyChange: (frequency: UserPreferences["backupFrequency"]) => void;
+  onKeepCountChange: (keepCount: number) => void;
+  onRestore: (backup: Blob) => void;
+}
+
+export const AutoBackupManager: React.FC<AutoBackupManagerProps> = ({
+  frequency,
+  keepCount,
+  onFrequencyChange,
+  onKeepCountChange,
+  onRestore,
+}) => {
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [directoryName, setDirectoryName] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const [list, directory] = await Promise.all([backupScheduler.getSnapshots(), backupScheduler.getDirectoryName()]);
+      setSnapshots(list);
+      setDirectoryName(directory);
+    } catch (error) {
+      console.error("Error loading backups:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await backupScheduler.createSnapshot("manual");
+      await loadSnapshots();
+      toast.success("Copia de seguridad creada");
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      toast.error(error instanceof Error ? error.message : "Error al crear la copia");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: BackupSnapshot) => {
+    try {
+      onRestore(await backupScheduler.getSnapshotBlob(snapshot.id));
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      toast.error(error instanceof Error ? error.message : "No se pudo leer la copia");
+    }
+  };
+
+  const handleDelete = async (snapshot: BackupSnapshot) => {
+    try {
+      await backupScheduler.deleteSnapshot(snapshot.id);
+      await loadSnapshots();
+    } catch (error) {
+      console.error("Error deleting backup:", error);
+      toast.error("No se pudo eliminar la copia");
+    }
+  };
+
+  const handleChooseDirectory = async () => {
+    try {
+      const name = await backupScheduler.chooseDirectory();
+      if (name) {
+        setDirectoryName(name);
+        toast.success(`Las próximas copias se guardarán en "${name}"`);
+      }
+    } catch (error) {
+      console.error("Error choosing backup directory:", error);
+      toast.error("No se pudo usar esa carpeta");
+    }
+  };
+
+  const handleUseBrowser = async () => {
+    await backupScheduler.clearDirectory();
+    setDirectoryName(null);
+  };
+
+  const last = snapshots[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Copia automática</Label>
+        <Select
+          value={frequency}
+          onValueChange={(value: UserPreferences["backupFrequency"]) => onFrequencyChange(value)}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[9999]">
+            <SelectItem value="off">Desactivada</SelectItem>
+            <SelectItem value="daily">Diaria</SelectItem>
+            <SelectItem value="weekly">Semanal</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Copias que se conservan</Label>
+        <Select value={String(keepCount)} onValueChange={(value) => onKeepCountChange(Number(value))}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[9999]">
+            <SelectItem value="3">3</SelectItem>
+            <SelectItem value="5">5</SelectItem>
+            <SelectItem value="10">10</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="p-3 bg-muted rounded-lg space-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          {directoryName ? <FolderOpen className="h-4 w-4" /> : <HardDrive className="h-4 w-4" />}
+          <span className="truncate">{directoryName ? `Carpeta "${directoryName}"` : "Guardadas en el navegador"}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {last
+            ? `Última copia: ${Formatters.formatDateTime(last.createdAt).full} · ${Formatters.formatFileSize(
+                last.size
+              )}`
+            : "Todavía no hay copias"}
+        </p>
+        {backupScheduler.isDirectorySupported() && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleChooseDirectory}>
+              <FolderOpen className="h-4 w-4 mr-1" />
+              Elegir carpeta
+            </Button>
+            {directoryName && (
+              <Button variant="ghost" size="sm" onClick={handleUseBrowser}>
+                Usar el navegador
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Button variant="outline" className="w-full justify-start" onClick={handleCreate} disabled={isCreating}>
+        <Save className="h-4 w-4 mr-2" />
+        {isCreating ? "Creando copia..." : "Crear copia ahora"}
+      </Button>
+
+      {snapshots.length > 0 && (
+        <div className="space-y-2">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{Formatters.formatDateTime(snapshot.createdAt).full}</p>
+                <p className="text-xs text-muted-foreground">
+                  {BACKUP_REASONS[snapshot.reason]} · {Formatters.formatFileSize(snapshot.size)}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => handleRestore(snapshot)}>
+                  <ArchiveRestore className="h-4 w-4 mr-1" />
+                  Restaurar
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(snapshot)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
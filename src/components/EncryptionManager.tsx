@@ -0,0 +1,121 @@
+// src/components/EncryptionManager.tsx
+import React, { useState } from "react";
+import { Badge, Button, Label, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui";
+import { Lock, LockOpen, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { PassphraseDialog } from "@/shared/components/PassphraseDialog";
+import { useEncryptionLock } from "@/hooks/useEncryptionLock";
+import { encryptionVault, isEncryptionSupported } from "@/utils/encryption";
+import { disableEncryption, enableEncryption } from "@/utils/dataEncryption";
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: "Nunca" },
+  { value: 1, label: "1 minuto" },
+  { value: 5, label: "5 minutos" },
+  { value: 15, label: "15 minutos" },
+  { value: 30, label: "30 minutos" },
+];
+
+export const EncryptionManager: React.FC = () => {
+  const { isEnabled } = useEncryptionLock();
+  const [dialog, setDialog] = useState<"enable" | "disable" | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(encryptionVault.getAutoLockMinutes());
+
+  const handleEnable = async (passphrase: string) => {
+    await enableEncryption(passphrase);
+    setAutoLockMinutes(encryptionVault.getAutoLockMinutes());
+    setDialog(null);
+    toast.success("Cifrado activado", {
+      description: "Se pedirá la contraseña al abrir la app",
+    });
+  };
+
+  const handleDisable = async (passphrase: string) => {
+    await disableEncryption(passphrase);
+    setDialog(null);
+    toast.success("Cifrado desactivado");
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = Number(value);
+    encryptionVault.setAutoLockMinutes(minutes);
+    setAutoLockMinutes(minutes);
+  };
+
+  if (!isEncryptionSupported()) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        El cifrado necesita una conexión segura (HTTPS) y un navegador compatible.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Cifrar datos guardados</Label>
+          <p className="text-xs text-muted-foreground">Ubicaciones, fotos y ubicación preferida</p>
+        </div>
+        <Badge variant={isEnabled ? "default" : "secondary"}>{isEnabled ? "Activado" : "Desactivado"}</Badge>
+      </div>
+
+      {isEnabled ? (
+        <>
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Bloquear tras inactividad</Label>
+            <Select value={String(autoLockMinutes)} onValueChange={handleAutoLockChange}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[9999]">
+                {AUTO_LOCK_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => encryptionVault.lock()}>
+              <Lock className="h-4 w-4 mr-2" />
+              Bloquear ahora
+            </Button>
+            <Button variant="ghost" className="flex-1" onClick={() => setDialog("disable")}>
+              <LockOpen className="h-4 w-4 mr-2" />
+              Desactivar
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button variant="outline" className="w-full justify-start" onClick={() => setDialog("enable")}>
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Activar cifrado
+        </Button>
+      )}
+
+      <PassphraseDialog
+        isOpen={dialog === "enable"}
+        mode="create"
+        title="Activar cifrado"
+        description="Tus datos se guardarán cifrados con esta contraseña."
+        confirmLabel="Activar"
+        warning="Si olvidas la contraseña no podrás recuperar tus datos. Guárdala en un lugar seguro."
+        onClose={() => setDialog(null)}
+        onSubmit={handleEnable}
+      />
+
+      <PassphraseDialog
+        isOpen={dialog === "disable"}
+        mode="enter"
+        title="Desactivar cifrado"
+        description="Tus datos se volverán a guardar sin cifrar en este dispositivo."
+        confirmLabel="Desactivar"
+        onClose={() => setDialog(null)}
+        onSubmit={handleDisable}
+      />
+    </div>
+  );
+};
@@ -24,12 +24,13 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/shared/ui";
-import { Download, Trash2, Map, Globe, MapPin, HardDrive, AlertTriangle, X, Check } from "lucide-react";
+import { Download, Trash2, Map, Globe, MapPin, HardDrive, AlertTriangle, X, Check, ArchiveRestore } from "lucide-react";
 import { offlineMapManager, PREDEFINED_AREAS, type MapArea } from "@/utils/offlineMaps";
 import { toast } from "sonner";
 
 export const OfflineMapManager: React.FC = () => {
   const [downloadedAreas, setDownloadedAreas] = useState<MapArea[]>([]);
+  const [pendingAreas, setPendingAreas] = useState<MapArea[]>([]);
   const [downloading, setDownloading] = useState(false);
   const [currentDownload, setCurrentDownload] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
@@ -52,6 +53,7 @@ export const OfflineMapManager: React.FC = () => {
   const loadAreas = async () => {
     const areas = await offlineMapManager.getDownloadedAreas();
     setDownloadedAreas(areas);
+    setPendingAreas(offlineMapManager.getPendingAreas());
   };
 
   const loadStorage = async () => {
@@ -59,20 +61,13 @@ export const OfflineMapManager: React.FC = () => {
     setStorage(usage);
   };
 
-  const handleDownload = async (area: MapArea) => {
+  const downloadArea = async (areaToDownload: MapArea): Promise<boolean> => {
     setDownloading(true);
-    setCurrentDownload(area.id);
+    setCurrentDownload(areaToDownload.id);
     setProgress(0);
     setCurrentTile(0);
     setTotalTiles(0);
 
-    // Crear copia del área con el proveedor seleccionado
-    const areaToDownload: MapArea = {
-      ...area,
-      provider,
-      id: `${area.id}-${provider}`, // ID único por proveedor
-    };
-
     try {
       await offlineMapManager.downloadArea(areaToDownload, (prog, current, total) => {
         setProgress(prog);
@@ -80,10 +75,12 @@ export const OfflineMapManager: React.FC = () => {
         setTotalTiles(total);
       });
       await loadData();
+      return true;
     } catch (error) {
       if (error instanceof Error && error.message !== "Download cancelled") {
         toast.error("Error al descargar el mapa");
       }
+      return false;
     } finally {
       setDownloading(false);
       setCurrentDownload(null);
@@ -91,6 +88,28 @@ export const OfflineMapManager: React.FC = () => {
     }
   };
 
+  const handleDownload = async (area: MapArea) => {
+    // Crear copia del área con el proveedor seleccionado
+    await downloadArea({
+      ...area,
+      provider,
+      id: `${area.id}-${provider}`, // ID único por proveedor
+    });
+  };
+
+  // Las áreas de una copia restaurada ya llevan su proveedor e id
+  const handlePendingDownload = async (area: MapArea) => {
+    if (await downloadArea(area)) {
+      offlineMapManager.removePendingArea(area.id);
+      setPendingAreas(offlineMapManager.getPendingAreas());
+    }
+  };
+
+  const handleDismissPending = (areaId: string) => {
+    offlineMapManager.removePendingArea(areaId);
+    setPendingAreas(offlineMapManager.getPendingAreas());
+  };
+
   const handleCancelDownload = () => {
     offlineMapManager.cancelDownload();
     setDownloading(false);
@@ -224,6 +243,38 @@ export const OfflineMapManager: React.FC = () => {
           </Alert>
         )}
 
+        {/* Áreas pendientes de una copia de seguridad restaurada */}
+        {pendingAreas.length > 0 && (
+          <div className="p-4 border rounded-lg space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <ArchiveRestore className="h-4 w-4" />
+              Mapas de la copia restaurada
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Los mapas no se incluyen en la copia. Vuelve a descargarlos cuando tengas conexión.
+            </p>
+            {pendingAreas.map((area) => (
+              <div key={area.id} className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="text-sm truncate">{area.name}</p>
+                  <Badge variant="secondary" className="text-xs">
+                    {getProviderName(area.provider)}
+                  </Badge>
+                </div>
+                <div className="flex shrink-0">
+                  <Button size="sm" onClick={() => handlePendingDownload(area)} disabled={downloading}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Descargar
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDismissPending(area.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Tabs de descargar/descargados */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <TabsList className="grid w-full grid-cols-2">
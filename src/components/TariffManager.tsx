@@ -0,0 +1,255 @@
+// src/components/TariffManager.tsx
+import React, { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  ToggleGroup,
+  ToggleGroupItem,
+} from "@/shared/ui";
+import { Euro, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import type { TariffFreeWindow, TariffProfile } from "@/types/location";
+import { WEEKDAY_LABELS, WEEKDAY_ORDER, createTariffProfile, describeTariff } from "@/utils/tariffs";
+
+type NumericField = "pricePerSlice" | "sliceMinutes" | "minimumCharge" | "maxStayMinutes" | "dailyCap";
+
+const NUMERIC_FIELDS: Array<{ key: NumericField; label: string; step: string }> = [
+  { key: "pricePerSlice", label: "Precio por tramo (€)", step: "0.05" },
+  { key: "sliceMinutes", label: "Minutos por tramo", step: "1" },
+  { key: "minimumCharge", label: "Importe mínimo (€)", step: "0.05" },
+  { key: "maxStayMinutes", label: "Estancia máxima (min)", step: "1" },
+  { key: "dailyCap", label: "Tope diario (€)", step: "0.05" },
+];
+
+const NEW_FREE_WINDOW: TariffFreeWindow = { days: [1, 2, 3, 4, 5], from: "20:00", to: "09:00" };
+
+// Los números se editan como texto para no pelearse con lo que escribe el usuario
+const toNumericDraft = (tariff: TariffProfile): Record<NumericField, string> => ({
+  pricePerSlice: String(tariff.pricePerSlice),
+  sliceMinutes: String(tariff.sliceMinutes),
+  minimumCharge: String(tariff.minimumCharge),
+  maxStayMinutes: String(tariff.maxStayMinutes),
+  dailyCap: String(tariff.dailyCap),
+});
+
+const TariffDialog: React.FC<{
+  tariff: TariffProfile;
+  onSave: (tariff: TariffProfile) => void;
+  onClose: () => void;
+}> = ({ tariff, onSave, onClose }) => {
+  const [draft, setDraft] = useState(tariff);
+  const [numbers, setNumbers] = useState(() => toNumericDraft(tariff));
+  const [error, setError] = useState<string | null>(null);
+
+  const removeWindow = (index: number) => {
+    setDraft({ ...draft, freeWindows: draft.freeWindows.filter((_, i) => i !== index) });
+  };
+
+  const updateWindow = (index: number, changes: Partial<TariffFreeWindow>) => {
+    setDraft({
+      ...draft,
+      freeWindows: draft.freeWindows.map((freeWindow, i) => (i === index ? { ...freeWindow, ...changes } : freeWindow)),
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const values = Object.fromEntries(
+      NUMERIC_FIELDS.map(({ key }) => [key, numbers[key].trim() === "" ? 0 : Number(numbers[key])])
+    ) as Record<NumericField, number>;
+
+    if (!draft.name.trim()) {
+      setError("Ponle un nombre a la tarifa");
+      return;
+    }
+    if (Object.values(values).some((value) => !isFinite(value) || value < 0)) {
+      setError("Los importes y los minutos no pueden ser negativos");
+      return;
+    }
+    if (values.sliceMinutes < 1) {
+      setError("Los tramos tienen que durar al menos 1 minuto");
+      return;
+    }
+    if (draft.freeWindows.some((freeWindow) => freeWindow.days.length === 0 || !freeWindow.from || !freeWindow.to)) {
+      setError("Cada horario gratuito necesita días y horas");
+      return;
+    }
+
+    onSave({
+      ...draft,
+      ...values,
+      name: draft.name.trim(),
+      sliceMinutes: Math.round(values.sliceMinutes),
+      maxStayMinutes: Math.round(values.maxStayMinutes),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Euro className="w-5 h-5" />
+              Tarifa de zona
+            </DialogTitle>
+            <DialogDescription>
+              Los tramos empezados se cobran enteros. Con 0 no hay estancia máxima ni tope diario.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="tariff-name">Nombre</Label>
+            <Input
+              id="tariff-name"
+              value={draft.name}
+              onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+              placeholder="Ej: Zona azul centro"
+              maxLength={40}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {NUMERIC_FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`tariff-${key}`} className="text-xs">
+                  {label}
+                </Label>
+                <Input
+                  id={`tariff-${key}`}
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={numbers[key]}
+                  onChange={(event) => setNumbers({ ...numbers, [key]: event.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Horario gratuito</Label>
+            {draft.freeWindows.map((freeWindow, index) => (
+              <div key={index} className="p-2 border rounded-lg space-y-2">
+                <ToggleGroup
+                  type="multiple"
+                  value={freeWindow.days.map(String)}
+                  onValueChange={(days) => updateWindow(index, { days: days.map(Number) })}
+                  className="justify-start flex-wrap h-auto"
+                >
+                  {WEEKDAY_ORDER.map((day) => (
+                    <ToggleGroupItem key={day} value={String(day)} size="sm">
+                      {WEEKDAY_LABELS[day]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={freeWindow.from}
+                    onChange={(event) => updateWindow(index, { from: event.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">a</span>
+                  <Input
+                    type="time"
+                    value={freeWindow.to}
+                    onChange={(event) => updateWindow(index, { to: event.target.value })}
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeWindow(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Si la hora final es anterior a la inicial, el horario acaba al día siguiente.
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, freeWindows: [...draft.freeWindows, NEW_FREE_WINDOW] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Añadir horario
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit">Guardar</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface TariffManagerProps {
+  tariffs: TariffProfile[];
+  onChange: (tariffs: TariffProfile[]) => void;
+}
+
+export const TariffManager: React.FC<TariffManagerProps> = ({ tariffs, onChange }) => {
+  const [editing, setEditing] = useState<TariffProfile | null>(null);
+
+  const handleSave = (tariff: TariffProfile) => {
+    const exists = tariffs.some((profile) => profile.id === tariff.id);
+    onChange(exists ? tariffs.map((profile) => (profile.id === tariff.id ? tariff : profile)) : [...tariffs, tariff]);
+    toast.success(exists ? "Tarifa actualizada" : "Tarifa creada");
+    setEditing(null);
+  };
+
+  // Las ubicaciones que la usaban conservan el coste ya calculado
+  const handleDelete = (tariff: TariffProfile) => {
+    onChange(tariffs.filter((profile) => profile.id !== tariff.id));
+    toast.success(`Tarifa "${tariff.name}" eliminada`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Al elegir una tarifa al aparcar, el coste y la hora límite se calculan con el temporizador.
+      </p>
+
+      {tariffs.map((tariff) => (
+        <div key={tariff.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{tariff.name}</p>
+            <p className="text-xs text-muted-foreground">{describeTariff(tariff)}</p>
+          </div>
+          <div className="flex shrink-0">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(tariff)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(tariff)}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" className="w-full justify-start" onClick={() => setEditing(createTariffProfile())}>
+        <Plus className="h-4 w-4 mr-2" />
+        Añadir tarifa
+      </Button>
+
+      {editing && (
+        <TariffDialog key={editing.id} tariff={editing} onSave={handleSave} onClose={() => setEditing(null)} />
+      )}
+    </div>
+  );
+};
@@ -2,11 +2,15 @@
 import React, { useState } from "react";
 import { cn } from "@/lib/utils";
 import { useIntersectionObserver } from "@/hooks/useIntersectionObserver";
+import { usePhotoUrl } from "@/hooks/usePhotoUrl";
+import type { PhotoVariant } from "@/utils/photoStore";
 
 interface LazyImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
   src: string;
   alt: string;
   placeholder?: string;
+  /** Variante a mostrar cuando `src` es una foto del almacén */
+  variant?: PhotoVariant;
   className?: string;
   onLoad?: () => void;
   onError?: () => void;
@@ -16,6 +20,7 @@ export const LazyImage: React.FC<LazyImageProps> = ({
   src,
   alt,
   placeholder = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIwIiBoZWlnaHQ9IjI0MCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZGRkIi8+PC9zdmc+",
+  variant = "full",
   className,
   onLoad,
   onError,
@@ -27,6 +32,7 @@ export const LazyImage: React.FC<LazyImageProps> = ({
     threshold: 0.1,
     triggerOnce: true,
   });
+  const resolvedSrc = usePhotoUrl(isIntersecting ? src : undefined, variant);
 
   const handleLoad = () => {
     setIsLoaded(true);
@@ -44,9 +50,9 @@ export const LazyImage: React.FC<LazyImageProps> = ({
         <img src={placeholder} alt="" className="w-full h-full object-cover opacity-50" />
       ) : (
         <>
-          {!hasError && (
+          {!hasError && resolvedSrc && (
             <img
-              src={src}
+              src={resolvedSrc}
               alt={alt}
               onLoad={handleLoad}
               onError={handleError}
@@ -2,9 +2,16 @@
 import React, { createContext, useContext, useReducer, useEffect } from "react";
 import type { ReactNode } from "react";
 import type { CarLocation, UserPreferences } from "@/types/location";
-import { getCarLocations, saveCarLocation, deleteCarLocation, updateCarLocation } from "@/utils/storage";
+import {
+  getCarLocations,
+  saveCarLocation,
+  deleteCarLocation,
+  updateCarLocation,
+  locationRepository,
+} from "@/utils/storage";
 import { getUserPreferences, saveUserPreferences } from "@/utils/preferences";
 import { timerManager } from "@/utils/timerManager";
+import { extendLocationTimer } from "@/utils/tariffs";
 import { toast } from "sonner";
 
 interface AppState {
@@ -149,7 +156,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       try {
         dispatch({ type: "SET_LOADING", payload: true });
 
-        const locations = getCarLocations();
+        const locations = await getCarLocations();
         const preferences = getUserPreferences();
 
         locations.forEach((location) => {
@@ -170,7 +177,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 
   const saveLocation = async (location: CarLocation) => {
     try {
-      saveCarLocation(location);
+      await saveCarLocation(location);
       dispatch({ type: "ADD_LOCATION", payload: location });
 
       if (location.expiryTime && location.expiryTime > Date.now()) {
@@ -187,7 +194,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 
   const updateLocationAction = async (id: string, updates: Partial<CarLocation>) => {
     try {
-      updateCarLocation(id, updates);
+      await updateCarLocation(id, updates);
       dispatch({ type: "UPDATE_LOCATION", payload: { id, updates } });
 
       const updatedLocation = state.locations.find((loc) => loc.id === id);
@@ -206,7 +213,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 
   const deleteLocationAction = async (id: string) => {
     try {
-      deleteCarLocation(id);
+      await deleteCarLocation(id);
       dispatch({ type: "DELETE_LOCATION", payload: id });
       timerManager.cancelTimer(id);
       toast.success("Ubicación eliminada");
@@ -251,24 +258,29 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     dispatch({ type: "SET_ERROR", payload: error });
   };
 
+  /**
+   * También se llama desde las notificaciones, así que la ubicación se lee del
+   * almacenamiento por si aún no está en el estado. Si ya ha expirado, el
+   * tiempo se añade desde ahora.
+   */
   const extendTimer = async (locationId: string, minutes: number) => {
     try {
-      const location = state.locations.find((loc) => loc.id === locationId);
-      if (!location || !location.expiryTime) return;
-
-      const newExpiryTime = location.expiryTime + minutes * 60 * 1000;
-      const newExtensionCount = (location.extensionCount || 0) + 1;
-      const updates = { expiryTime: newExpiryTime, extensionCount: newExtensionCount };
+      const location = await locationRepository.getById(locationId);
+      if (!location?.expiryTime) {
+        toast.error("Esta ubicación ya no tiene temporizador");
+        return;
+      }
 
-      await updateLocationAction(locationId, updates);
+      const updates = extendLocationTimer(location, minutes);
 
-      const updatedLocation = { ...location, ...updates };
-      timerManager.scheduleTimer(updatedLocation);
+      await updateCarLocation(locationId, updates);
+      dispatch({ type: "UPDATE_LOCATION", payload: { id: locationId, updates } });
+      await timerManager.scheduleTimer({ ...location, ...updates });
 
       toast.success(`Temporizador extendido ${minutes} minutos`);
     } catch (error) {
       console.error("Error extending timer:", error);
-      toast.error("Error al extender el Temporizador");
+      toast.error(error instanceof Error ? error.message : "Error al extender el Temporizador");
     }
   };
 
@@ -276,7 +288,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     try {
       const updates = {
         expiryTime: undefined,
-        reminderMinutes: undefined,
+        reminderOffsets: undefined,
         extensionCount: undefined,
       };
 
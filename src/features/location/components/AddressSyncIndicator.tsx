@@ -5,6 +5,7 @@ import { Badge } from "@/shared/ui/badge";
 import { RefreshCw, MapPin, Wifi } from "lucide-react";
 import { toast } from "sonner";
 import type { CarLocation } from "@/types/location";
+import { AddressUtils } from "@/utils/addressUtils";
 
 interface AddressSyncIndicatorProps {
   locations: CarLocation[];
@@ -18,12 +19,7 @@ export const AddressSyncIndicator: React.FC<AddressSyncIndicatorProps> = ({ loca
 
   // Verificar si hay ubicaciones que necesitan sincronización
   useEffect(() => {
-    const locationsWithoutAddress = locations.filter((location) => {
-      const addressIsCoords = location.address && /^-?\d+\.\d+,\s*-?\d+\.\d+$/.test(location.address);
-      return !location.address || addressIsCoords;
-    });
-
-    setNeedsSync(locationsWithoutAddress.length > 0);
+    setNeedsSync(AddressUtils.countPendingAddresses(locations) > 0);
   }, [locations]);
 
   const handleManualSync = async () => {
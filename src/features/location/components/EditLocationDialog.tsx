@@ -1,5 +1,5 @@
 // src/features/location/components/EditLocationDialog.tsx
-import React, { useState, useCallback, useRef } from "react";
+import React, { useState, useCallback, useMemo, useRef } from "react";
 import {
   Dialog,
   DialogContent,
@@ -22,7 +22,7 @@ import {
 import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import { PhotoCapture } from "@/features/photo";
-import { ParkingTimer } from "@/features/parking";
+import { ParkingTimer, TariffSelect } from "@/features/parking";
 import { toast } from "sonner";
 import {
   Edit,
@@ -47,9 +47,15 @@ import {
   House,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { CarLocation } from "@/types/location";
+import type { CarLocation, GeocodeStatus, StructuredAddress } from "@/types/location";
+import { AddressUtils } from "@/utils/addressUtils";
 import "leaflet/dist/leaflet.css";
 import { LocationUtils } from "@/utils";
+import { geocodeCache } from "@/utils/geocodeCache";
+import type { GeocodingResult } from "@/utils/geocoding";
+import { AddressSearch } from "@/shared/components/AddressSearch";
+import { getUserPreferences } from "@/utils/preferences";
+import { calculateParkingCost } from "@/utils/tariffs";
 
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -118,14 +124,17 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
   const [note, setNote] = useState(location.note || "");
   const [parkingType, setParkingType] = useState(location.parkingType || "Calle");
   const [cost, setCost] = useState(location.cost?.toString() || "");
+  const [tariffId, setTariffId] = useState(location.tariffId);
   const [photos, setPhotos] = useState(location.photos || []);
   const [expiryTime, setExpiryTime] = useState(location.expiryTime);
-  const [reminderMinutes, setReminderMinutes] = useState(location.reminderMinutes);
+  const [reminderOffsets, setReminderOffsets] = useState(location.reminderOffsets ?? []);
   const [isSaving, setIsSaving] = useState(false);
 
   const [newLatitude, setNewLatitude] = useState(location.latitude);
   const [newLongitude, setNewLongitude] = useState(location.longitude);
-  const [newAddress, setNewAddress] = useState<string | undefined>(location.address);
+  const [newAddress, setNewAddress] = useState<string | undefined>(AddressUtils.getDisplayAddress(location));
+  const [newAddressDetails, setNewAddressDetails] = useState<StructuredAddress | null>(null);
+  const [newGeocodeStatus, setNewGeocodeStatus] = useState<GeocodeStatus>("pending");
   const [isEditingLocation, setIsEditingLocation] = useState(false);
   const [isGettingAddress, setIsGettingAddress] = useState(false);
   const [mapCenter, setMapCenter] = useState<[number, number]>([location.latitude, location.longitude]);
@@ -133,30 +142,46 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
 
   const mapRef = useRef<L.Map | null>(null);
 
+  const tariffProfiles = useMemo(() => (isOpen ? getUserPreferences().tariffProfiles : []), [isOpen]);
+  const selectedTariff = tariffProfiles.find((profile) => profile.id === tariffId);
+
   React.useEffect(() => {
     if (location) {
       setNote(location.note || "");
       setParkingType(location.parkingType || "Calle");
       setCost(location.cost?.toString() || "");
+      setTariffId(location.tariffId);
       setPhotos(location.photos || []);
       setExpiryTime(location.expiryTime);
-      setReminderMinutes(location.reminderMinutes);
+      setReminderOffsets(location.reminderOffsets ?? []);
       setNewLatitude(location.latitude);
       setNewLongitude(location.longitude);
-      setNewAddress(location.address);
+      setNewAddress(AddressUtils.getDisplayAddress(location));
+      setNewAddressDetails(null);
       setMapCenter([location.latitude, location.longitude]);
       setIsEditingLocation(false);
     }
   }, [location]);
 
   const getAddressFromCoordinates = useCallback(async (lat: number, lng: number) => {
+    const cachedAddress = await geocodeCache.get(lat, lng);
+    if (cachedAddress) {
+      setNewAddressDetails(cachedAddress);
+      setNewAddress(AddressUtils.formatAddress(cachedAddress));
+      return;
+    }
+
     setIsGettingAddress(true);
     try {
       await new Promise((resolve) => setTimeout(resolve, 500)); // Rate limiting
-      const address = await LocationUtils.reverseGeocode(lat, lng);
-      setNewAddress(address || "Dirección no disponible");
+      const details = await LocationUtils.reverseGeocode(lat, lng);
+      setNewAddressDetails(details);
+      setNewGeocodeStatus(details ? "resolved" : "failed");
+      setNewAddress(details ? AddressUtils.formatAddress(details) : "Dirección no disponible");
     } catch (error) {
       console.error("Error getting address:", error);
+      setNewAddressDetails(null);
+      setNewGeocodeStatus("pending");
       setNewAddress("Error al obtener dirección");
     } finally {
       setIsGettingAddress(false);
@@ -174,6 +199,18 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
     [getAddressFromCoordinates]
   );
 
+  const handleAddressSelected = useCallback(async (result: GeocodingResult) => {
+    await geocodeCache.set(result.latitude, result.longitude, result.details);
+
+    setNewLatitude(result.latitude);
+    setNewLongitude(result.longitude);
+    setNewAddressDetails(result.details);
+    setNewAddress(result.address);
+    setMapCenter([result.latitude, result.longitude]);
+    mapRef.current?.setView([result.latitude, result.longitude], 17);
+    toast.success("Nueva ubicación marcada", { description: result.address });
+  }, []);
+
   const getCurrentLocation = useCallback(() => {
     if ("geolocation" in navigator) {
       navigator.geolocation.getCurrentPosition(
@@ -203,7 +240,8 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
   const resetLocation = useCallback(() => {
     setNewLatitude(location.latitude);
     setNewLongitude(location.longitude);
-    setNewAddress(location.address);
+    setNewAddress(AddressUtils.getDisplayAddress(location));
+    setNewAddressDetails(null);
     setMapCenter([location.latitude, location.longitude]);
     setIsEditingLocation(false);
     toast.info("Ubicación restablecida a la original");
@@ -213,13 +251,18 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
     setIsSaving(true);
 
     try {
+      // Con tarifa el coste sale del temporizador, desde la hora en que se aparcó
+      const tariffCost =
+        selectedTariff && expiryTime ? calculateParkingCost(selectedTariff, location.timestamp, expiryTime) : undefined;
+
       const updates: Partial<CarLocation> = {
         note: note.trim() || undefined,
         parkingType: parkingType as any,
-        cost: cost ? parseFloat(cost) : undefined,
+        cost: selectedTariff ? tariffCost : cost ? parseFloat(cost) : undefined,
+        tariffId: selectedTariff?.id,
         photos: photos.length > 0 ? photos : undefined,
         expiryTime,
-        reminderMinutes,
+        reminderOffsets: reminderOffsets.length > 0 ? reminderOffsets : undefined,
       };
 
       const locationChanged = newLatitude !== location.latitude || newLongitude !== location.longitude;
@@ -227,7 +270,12 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
       if (locationChanged) {
         updates.latitude = newLatitude;
         updates.longitude = newLongitude;
-        updates.address = newAddress;
+        Object.assign(
+          updates,
+          newAddressDetails
+            ? AddressUtils.toLocationFields(newAddressDetails)
+            : { address: undefined, addressDetails: undefined, geocodeStatus: newGeocodeStatus }
+        );
         updates.isManualPlacement = true;
       }
 
@@ -446,24 +494,33 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
               </div>
 
               {/* Coste */}
-              <div className="space-y-2">
-                <Label htmlFor="edit-cost" className="text-sm font-medium">
-                  Coste (opcional)
-                </Label>
-                <div className="relative">
-                  <Input
-                    id="edit-cost"
-                    type="number"
-                    value={cost}
-                    onChange={(e) => setCost(e.target.value)}
-                    placeholder="0.00"
-                    min="0"
-                    step="0.01"
-                    className="pr-8"
-                  />
-                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">€</span>
+              <TariffSelect
+                tariffs={tariffProfiles}
+                value={tariffId}
+                onChange={setTariffId}
+                startTime={location.timestamp}
+                expiryTime={expiryTime}
+              />
+              {!selectedTariff && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-cost" className="text-sm font-medium">
+                    Coste (opcional)
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="edit-cost"
+                      type="number"
+                      value={cost}
+                      onChange={(e) => setCost(e.target.value)}
+                      placeholder="0.00"
+                      min="0"
+                      step="0.01"
+                      className="pr-8"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">€</span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             <Separator />
@@ -487,9 +544,11 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
               </div>
               <ParkingTimer
                 expiryTime={expiryTime}
-                reminderMinutes={reminderMinutes}
+                reminderOffsets={reminderOffsets}
                 onExpiryTimeChange={setExpiryTime}
-                onReminderChange={setReminderMinutes}
+                onReminderOffsetsChange={setReminderOffsets}
+                maxStayMinutes={selectedTariff?.maxStayMinutes}
+                stayStartTime={location.timestamp}
               />
             </div>
           </TabsContent>
@@ -528,6 +587,12 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
                 </Button>
               </div>
 
+              <AddressSearch
+                onSelect={handleAddressSelected}
+                near={[newLatitude, newLongitude]}
+                placeholder="Buscar la nueva dirección..."
+              />
+
               {/* Estado de edición */}
               {isEditingLocation && (
                 <Alert>
@@ -625,9 +690,10 @@ export const EditLocationDialog: React.FC<EditLocationDialogProps> = ({
         {(note !== (location.note || "") ||
           parkingType !== (location.parkingType || "Calle") ||
           cost !== (location.cost?.toString() || "") ||
+          tariffId !== location.tariffId ||
           photos !== location.photos ||
           expiryTime !== location.expiryTime ||
-          reminderMinutes !== location.reminderMinutes ||
+          reminderOffsets.join() !== (location.reminderOffsets ?? []).join() ||
           locationChanged) && (
           <Alert>
             <Info className="h-4 w-4" />
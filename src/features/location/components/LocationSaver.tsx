@@ -1,5 +1,5 @@
 //src/features/location/components/LocationSaver.tsx
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Button, Card, CardContent, CardHeader, CardTitle, Alert, AlertDescription } from "@/shared/ui";
 import { toast } from "sonner";
 import {
@@ -27,33 +27,42 @@ import {
 } from "lucide-react";
 import { useGeolocation } from "../hooks/useGeolocation";
 import { PhotoCapture } from "../../photo";
-import { ParkingTimer } from "../../parking";
+import { ParkingTimer, TariffSelect } from "../../parking";
 import { UnifiedMap } from "./UnifiedMap";
-import type { CarLocation } from "../../../types/location";
+import type { CarLocation, GeocodeStatus, StructuredAddress, TariffProfile } from "../../../types/location";
 import { LocationUtils } from "@/utils";
-import { IconButton, StatusBadge } from "@/shared/components";
+import { AddressSearch, IconButton, StatusBadge } from "@/shared/components";
 import { AddressUtils } from "@/utils/addressUtils";
+import { geocodeCache } from "@/utils/geocodeCache";
+import { defaultPreferences } from "@/utils/preferences";
+import type { GeocodingResult } from "@/utils/geocoding";
+import { calculateParkingCost } from "@/utils/tariffs";
 
 interface LocationSaverProps {
   onLocationSaved: (location: CarLocation) => void;
   autoSave: boolean;
-  defaultReminderMinutes?: number;
+  defaultReminderOffsets?: number[];
+  tariffProfiles?: TariffProfile[];
   maxPhotos?: number;
   photoQuality?: "low" | "medium" | "high";
   saveMapType?: string;
   initialCenter?: [number, number];
   initialZoom?: number;
+  /** Cambia cada vez que se pide guardar con GPS (p. ej. desde el acceso directo) */
+  saveRequestId?: number;
 }
 
 const LocationSaver: React.FC<LocationSaverProps> = ({
   onLocationSaved,
   autoSave,
-  defaultReminderMinutes = 15,
+  defaultReminderOffsets = defaultPreferences.defaultReminderOffsets,
+  tariffProfiles = defaultPreferences.tariffProfiles,
   maxPhotos = 3,
   photoQuality = "medium",
   saveMapType = "osm",
   initialCenter = [40.4168, -3.7038],
   initialZoom = 13,
+  saveRequestId = 0,
 }) => {
   const { latitude, longitude, accuracy, error, loading, getCurrentPosition } = useGeolocation();
 
@@ -83,15 +92,19 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
   const [photos, setPhotos] = useState<string[]>([]);
   const [parkingType, setParkingType] = useState<"Calle" | "Garaje" | "Parking" | "Otro">("Calle");
   const [cost, setCost] = useState<string>("");
+  const [tariffId, setTariffId] = useState<string | undefined>();
   const [expiryTime, setExpiryTime] = useState<number | undefined>();
-  const [reminderMinutes, setReminderMinutes] = useState<number | undefined>(defaultReminderMinutes);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(defaultReminderOffsets);
 
   const [manualLocation, setManualLocation] = useState<[number, number] | null>(null);
   const [showManualMode, setShowManualMode] = useState(false);
   const [address, setAddress] = useState<string>("");
+  const [addressDetails, setAddressDetails] = useState<StructuredAddress | null>(null);
+  const [geocodeStatus, setGeocodeStatus] = useState<GeocodeStatus>("pending");
   const [isGettingAddress, setIsGettingAddress] = useState(false);
 
   const [justSaved, setJustSaved] = useState(false);
+  const selectedTariff = tariffProfiles.find((profile) => profile.id === tariffId);
   const [saveProgress, setSaveProgress] = useState(0);
 
   // Función para resetear el formulario completamente
@@ -100,12 +113,13 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
     setPhotos([]);
     setParkingType("Calle");
     setCost("");
+    setTariffId(undefined);
     setExpiryTime(undefined);
-    setReminderMinutes(defaultReminderMinutes);
+    setReminderOffsets(defaultReminderOffsets);
     setManualLocation(null);
     setShowManualMode(false);
     console.log("✅ Formulario reseteado completamente");
-  }, [defaultReminderMinutes]);
+  }, [defaultReminderOffsets]);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -184,8 +198,19 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
 
   // 🔥 MODIFICADA: Función para manejar direcciones sin conexión
   const getAddressFromCoordinates = async (lat: number, lng: number) => {
+    // Las direcciones ya conocidas se resuelven al instante, también sin conexión
+    const cachedAddress = await geocodeCache.get(lat, lng);
+    if (cachedAddress) {
+      setAddressDetails(cachedAddress);
+      setAddress(AddressUtils.formatAddress(cachedAddress));
+      return;
+    }
+
+    setAddressDetails(null);
+
     if (!isOnline) {
       // Sin conexión, marcar claramente que son coordenadas temporales
+      setGeocodeStatus("pending");
       setAddress(AddressUtils.formatCoordinatesAsAddress(lat, lng));
       return;
     }
@@ -193,10 +218,13 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
     setIsGettingAddress(true);
     try {
       await new Promise((resolve) => setTimeout(resolve, 300));
-      const address = await LocationUtils.reverseGeocode(lat, lng);
-      setAddress(address || AddressUtils.formatCoordinatesAsAddress(lat, lng));
+      const details = await LocationUtils.reverseGeocode(lat, lng);
+      setAddressDetails(details);
+      setGeocodeStatus(details ? "resolved" : "failed");
+      setAddress(details ? AddressUtils.formatAddress(details) : AddressUtils.formatCoordinatesAsAddress(lat, lng));
     } catch (error) {
       console.error("Error getting address:", error);
+      setGeocodeStatus("pending");
       setAddress(AddressUtils.formatCoordinatesAsAddress(lat, lng));
     } finally {
       setIsGettingAddress(false);
@@ -230,18 +258,23 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
         setSaveProgress((prev) => Math.min(prev + 20, 90));
       }, 100);
 
+      const tariffCost =
+        selectedTariff && expiryTime ? calculateParkingCost(selectedTariff, Date.now(), expiryTime) : undefined;
+
       const newLocation: CarLocation = {
         id: LocationUtils.generateLocationId(),
         latitude: finalLat,
         longitude: finalLng,
-        address: address || undefined,
+        ...(addressDetails ? AddressUtils.toLocationFields(addressDetails) : { geocodeStatus }),
         timestamp: Date.now(),
         note: note.trim() || undefined,
         photos: photos.length > 0 ? photos : undefined,
         parkingType,
         expiryTime,
-        cost: cost ? parseFloat(cost) : undefined,
-        reminderMinutes: expiryTime ? reminderMinutes : undefined,
+        // Con tarifa el coste sale del temporizador
+        cost: selectedTariff ? tariffCost : cost ? parseFloat(cost) : undefined,
+        tariffId: selectedTariff?.id,
+        reminderOffsets: expiryTime && reminderOffsets.length > 0 ? reminderOffsets : undefined,
         isManualPlacement: !!manualLocation,
         accuracy: accuracy || undefined,
       };
@@ -283,7 +316,7 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
         : "Ubicación GPS guardada";
 
       toast.success(message, {
-        description: address ? `${address.split(",")[0]}` : undefined,
+        description: addressDetails ? AddressUtils.formatAddress(addressDetails) : undefined,
         duration: 4000,
         action: !isOnline
           ? {
@@ -309,6 +342,38 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
     }
   };
 
+  // Guardado rápido pedido desde fuera: esperar al GPS y a la dirección antes de guardar
+  const [pendingQuickSave, setPendingQuickSave] = useState(false);
+  const handleSaveLocationRef = useRef(handleSaveLocation);
+
+  useEffect(() => {
+    handleSaveLocationRef.current = handleSaveLocation;
+  });
+
+  useEffect(() => {
+    if (saveRequestId === 0) return;
+
+    setShowManualMode(false);
+    setManualLocation(null);
+    setPendingQuickSave(true);
+    getCurrentPosition();
+    toast.info("Obteniendo tu ubicación para guardar el aparcamiento...");
+  }, [saveRequestId, getCurrentPosition]);
+
+  useEffect(() => {
+    if (!pendingQuickSave || loading || isGettingAddress) return;
+
+    if (error) {
+      setPendingQuickSave(false);
+      return;
+    }
+
+    if (latitude && longitude) {
+      setPendingQuickSave(false);
+      handleSaveLocationRef.current();
+    }
+  }, [pendingQuickSave, loading, isGettingAddress, error, latitude, longitude]);
+
   const toggleManualMode = () => {
     setShowManualMode(!showManualMode);
     setManualLocation(null);
@@ -324,6 +389,17 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
     toast.success("Ubicación marcada correctamente");
   };
 
+  const handleAddressSelected = async (result: GeocodingResult) => {
+    // Guardar la dirección elegida en la caché para que no se sustituya por la del geocoding inverso
+    await geocodeCache.set(result.latitude, result.longitude, result.details);
+
+    setShowManualMode(true);
+    setManualLocation([result.latitude, result.longitude]);
+    setAddressDetails(result.details);
+    setAddress(result.address);
+    toast.success("Ubicación marcada en el mapa", { description: result.address });
+  };
+
   const toggleFormMode = () => {
     setSmartFormMode(smartFormMode === "simple" ? "detailed" : "simple");
   };
@@ -507,6 +583,12 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
             </div>
           </div>
 
+          <AddressSearch
+            onSelect={handleAddressSelected}
+            near={manualLocation || (latitude && longitude ? [latitude, longitude] : initialCenter)}
+            placeholder="Buscar dirección para marcar el coche..."
+          />
+
           {/* Mapa con altura adaptativa */}
           <div className="border rounded-lg overflow-hidden transition-all duration-300">
             <UnifiedMap
@@ -646,29 +728,40 @@ const LocationSaver: React.FC<LocationSaverProps> = ({
             {/* Componentes avanzados */}
             <PhotoCapture photos={photos} onPhotosChange={setPhotos} maxPhotos={maxPhotos} quality={photoQuality} />
 
+            <TariffSelect
+              tariffs={tariffProfiles}
+              value={tariffId}
+              onChange={setTariffId}
+              startTime={Date.now()}
+              expiryTime={expiryTime}
+            />
+
             <ParkingTimer
               expiryTime={expiryTime}
-              reminderMinutes={reminderMinutes}
+              reminderOffsets={reminderOffsets}
               onExpiryTimeChange={setExpiryTime}
-              onReminderChange={setReminderMinutes}
+              onReminderOffsetsChange={setReminderOffsets}
+              maxStayMinutes={selectedTariff?.maxStayMinutes}
             />
 
             {/* Coste */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Coste (€)</label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={cost}
-                  onChange={(e) => setCost(e.target.value)}
-                  placeholder="0.00"
-                  min="0"
-                  step="0.01"
-                  className="w-full p-2 border rounded-md text-sm pr-8 focus:ring-2 focus:ring-primary focus:border-primary transition-all"
-                />
-                <Euro className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            {!selectedTariff && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Coste (€)</label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={cost}
+                    onChange={(e) => setCost(e.target.value)}
+                    placeholder="0.00"
+                    min="0"
+                    step="0.01"
+                    className="w-full p-2 border rounded-md text-sm pr-8 focus:ring-2 focus:ring-primary focus:border-primary transition-all"
+                  />
+                  <Euro className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Botón de reset manual solo en modo detallado */}
             <div className="flex gap-2 pt-2">
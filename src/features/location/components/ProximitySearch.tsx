@@ -41,6 +41,8 @@ interface ProximitySearchProps {
   onViewChange?: (view: "map" | "proximity") => void;
   // Nueva prop para recibir la ubicación actual del contexto global
   currentUserLocation?: { latitude: number; longitude: number } | null;
+  /** Cambia cada vez que se pide una búsqueda nueva (p. ej. desde el acceso directo) */
+  searchRequestId?: number;
 }
 
 interface LocationWithDistance extends CarLocation {
@@ -55,6 +57,7 @@ const ProximitySearch: React.FC<ProximitySearchProps> = ({
   currentView,
   onViewChange,
   currentUserLocation, // Nueva prop
+  searchRequestId = 0,
 }) => {
   const [currentLocation, setCurrentLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [nearbyLocations, setNearbyLocations] = useState<LocationWithDistance[]>([]);
@@ -199,6 +202,13 @@ const ProximitySearch: React.FC<ProximitySearchProps> = ({
     setNearbyLocations(locationsWithDistance);
   }, [currentLocation, locations, searchRadius]);
 
+  // Búsqueda pedida desde fuera: obtener la ubicación actual de nuevo
+  useEffect(() => {
+    if (searchRequestId > 0) {
+      getCurrentLocation(false);
+    }
+  }, [searchRequestId, getCurrentLocation]);
+
   // Manejar actualización manual de ubicación
   const handleUpdateLocation = useCallback(() => {
     getCurrentLocation(false);
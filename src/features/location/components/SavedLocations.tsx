@@ -4,8 +4,10 @@ import type { CarLocation, DateFilter } from "@/types/location";
 import { deleteCarLocation, updateCarLocation } from "@/utils/storage";
 import { filterLocationsByDate } from "@/utils/stats";
 import { timerManager } from "@/utils/timerManager";
+import { getUserPreferences } from "@/utils/preferences";
 import SearchFilter from "./SearchFilter";
 import EditLocationDialog from "./EditLocationDialog";
+import TrashView from "./TrashView";
 import { LocationDeleteDialog } from "@/shared/components/ConfirmationDialog";
 import {
   Button,
@@ -22,6 +24,12 @@ import {
   SelectTrigger,
   SelectValue,
   Separator,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
 } from "@/shared/ui";
 import { toast } from "sonner";
 import {
@@ -45,10 +53,17 @@ import {
   ChevronRight,
   Target,
   Edit,
+  Download,
+  ListChecks,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useLocationManager } from "@/hooks/useLocationManager";
+import { usePhotoUrl } from "@/hooks/usePhotoUrl";
+import { LazyImage } from "@/components/optimized/LazyImage";
 import { Formatters } from "@/utils/formatters";
+import { AddressUtils } from "@/utils/addressUtils";
+import { getFirstReminderOffset } from "@/utils/reminders";
+import { exportLocationsToFile, LOCATION_FILE_FORMATS, type LocationFileFormat } from "@/utils/locationFormats";
 import { IconButton, StatusBadge } from "@/shared/components";
 
 interface SavedLocationsProps {
@@ -66,6 +81,7 @@ interface SavedLocationsProps {
   onShowOnMap?: (locations: CarLocation[]) => void;
   currentView?: "map" | "proximity";
   onViewChange?: (view: "map" | "proximity") => void;
+  onLocationRestored?: (location: CarLocation) => void;
 }
 
 const PhotoGallery = React.memo<{
@@ -73,6 +89,7 @@ const PhotoGallery = React.memo<{
   locationNote?: string;
 }>(({ photos, locationNote }) => {
   const [selectedPhoto, setSelectedPhoto] = useState<number | null>(null);
+  const selectedPhotoUrl = usePhotoUrl(selectedPhoto !== null ? photos[selectedPhoto] : undefined);
 
   if (!photos || photos.length === 0) return null;
 
@@ -144,7 +161,7 @@ const PhotoGallery = React.memo<{
 
           {/* Imagen principal */}
           <img
-            src={photos[selectedPhoto]}
+            src={selectedPhotoUrl ?? undefined}
             alt={`${locationNote ? `Foto de ${locationNote}` : "Foto"} ${selectedPhoto + 1}`}
             className="max-w-full max-h-full object-contain rounded-lg"
             onClick={(e) => e.stopPropagation()}
@@ -164,12 +181,12 @@ const PhotoGallery = React.memo<{
       <div className="grid grid-cols-2 gap-2">
         {photos.slice(0, 4).map((photo, i) => (
           <div key={i} className="relative">
-            <img
+            <LazyImage
               src={photo}
+              variant="thumbnail"
               alt={`Foto ${i + 1}`}
-              className="rounded-lg object-cover aspect-square cursor-pointer border hover:opacity-80 transition-opacity"
+              className="rounded-lg aspect-square cursor-pointer border hover:opacity-80 transition-opacity"
               onClick={() => openPhotoModal(i)}
-              loading="lazy"
             />
             {/* Indicador si hay más fotos */}
             {i === 3 && photos.length > 4 && (
@@ -205,6 +222,9 @@ const LocationCard = React.memo<{
   onShowOnMap?: (locations: CarLocation[]) => void;
   currentView?: "map" | "proximity";
   onViewChange?: (view: "map" | "proximity") => void;
+  isSelectable?: boolean;
+  isChecked?: boolean;
+  onToggleChecked?: (locationId: string) => void;
 }>(
   ({
     location,
@@ -220,13 +240,16 @@ const LocationCard = React.memo<{
     onShowOnMap,
     currentView,
     onViewChange,
+    isSelectable = false,
+    isChecked = false,
+    onToggleChecked,
   }) => {
     const [showEditDialog, setShowEditDialog] = useState(false);
 
     const handleEdit = useCallback(
       async (updates: Partial<CarLocation>) => {
         try {
-          updateCarLocation(location.id, updates);
+          await updateCarLocation(location.id, updates);
 
           onLocationUpdated?.(location.id, updates);
 
@@ -247,10 +270,9 @@ const LocationCard = React.memo<{
       if (!location.expiryTime) return "inactive";
       const now = Date.now();
       if (location.expiryTime < now) return "expired";
-      if (location.reminderMinutes && location.expiryTime - now < location.reminderMinutes * 60 * 1000)
-        return "warning";
+      if (location.expiryTime - now < getFirstReminderOffset(location.reminderOffsets) * 60 * 1000) return "warning";
       return "active";
-    }, [location.expiryTime, location.reminderMinutes]);
+    }, [location.expiryTime, location.reminderOffsets]);
 
     const formatRelativeTime = useCallback((timestamp: number): string => {
       const seconds = Math.floor((Date.now() - timestamp) / 1000);
@@ -382,7 +404,24 @@ const LocationCard = React.memo<{
 
     return (
       <>
-        <Card className={cn("transition-all", isLatest && "ring-2 ring-primary shadow-lg")}>
+        <Card
+          className={cn(
+            "transition-all",
+            isLatest && "ring-2 ring-primary shadow-lg",
+            isSelectable && isChecked && "ring-2 ring-blue-500"
+          )}
+        >
+          {isSelectable && (
+            <label className="flex items-center gap-2 px-4 pt-4 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={isChecked}
+                onChange={() => onToggleChecked?.(location.id)}
+              />
+              Seleccionar para exportar
+            </label>
+          )}
           <CardContent className="p-4 grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="md:col-span-1 space-y-3">
               <PhotoGallery photos={location.photos || []} locationNote={location.note} />
@@ -419,11 +458,18 @@ const LocationCard = React.memo<{
                 </StatusBadge>
               )}
               {location.note && <p className="font-semibold text-lg">"{location.note}"</p>}
-              {location.address && (
+              {AddressUtils.getDisplayAddress(location) ? (
                 <p className="text-sm text-muted-foreground flex items-start gap-1.5">
                   <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
-                  {location.address}
+                  {AddressUtils.getDisplayAddress(location)}
                 </p>
+              ) : (
+                AddressUtils.needsGeocoding(location) && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    <MapPin className="w-3 h-3 shrink-0" />
+                    {location.geocodeStatus === "failed" ? "Dirección no disponible" : "Dirección pendiente"}
+                  </p>
+                )
               )}
               <div className="text-xs text-muted-foreground">
                 {Formatters.formatDateTime(location.timestamp).full} ({formatRelativeTime(location.timestamp)})
@@ -515,10 +561,14 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
   onShowOnMap,
   currentView,
   onViewChange,
+  onLocationRestored,
 }) => {
   const [searchQuery, setSearchQuery] = useState("");
+  const [showTrash, setShowTrash] = useState(false);
   const [dateFilter, setDateFilter] = useState<DateFilter>("all");
   const [timerStates, setTimerStates] = useState<{ [locationId: string]: string }>({});
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const [deleteDialog, setDeleteDialog] = useState<{
     isOpen: boolean;
@@ -565,7 +615,7 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
       filtered = filtered.filter(
         (location) =>
           (location.note?.toLowerCase() || "").includes(query) ||
-          (location.address?.toLowerCase() || "").includes(query)
+          AddressUtils.getSearchText(location).includes(query)
       );
     }
 
@@ -604,6 +654,50 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
     return result;
   }, [filteredAndSortedLocations, showAll]);
 
+  // Con selección se exportan las marcadas; si no, lo que muestran la búsqueda y el filtro de fecha
+  const exportableLocations = useMemo(
+    () =>
+      isSelecting && selectedIds.size > 0
+        ? filteredAndSortedLocations.filter((location) => selectedIds.has(location.id))
+        : filteredAndSortedLocations,
+    [isSelecting, selectedIds, filteredAndSortedLocations]
+  );
+
+  const handleExport = useCallback(
+    (format: LocationFileFormat) => {
+      if (exportableLocations.length === 0) {
+        toast.error("No hay ubicaciones para exportar");
+        return;
+      }
+
+      try {
+        exportLocationsToFile(exportableLocations, format);
+        toast.success(`${exportableLocations.length} ubicaciones exportadas a ${LOCATION_FILE_FORMATS[format].label}`);
+      } catch (error) {
+        console.error(`Error exporting ${format}:`, error);
+        toast.error("Error al exportar las ubicaciones");
+      }
+    },
+    [exportableLocations]
+  );
+
+  const handleToggleChecked = useCallback((locationId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(locationId)) {
+        next.delete(locationId);
+      } else {
+        next.add(locationId);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleToggleSelecting = useCallback(() => {
+    setIsSelecting((prev) => !prev);
+    setSelectedIds(new Set());
+  }, []);
+
   const handleDeleteClick = useCallback((locationToDelete: CarLocation) => {
     setDeleteDialog({
       isOpen: true,
@@ -618,7 +712,7 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
     try {
       setDeleteDialog((prev) => ({ ...prev, isDeleting: true }));
       await new Promise((resolve) => setTimeout(resolve, 500));
-      deleteCarLocation(deleteDialog.location.id);
+      await deleteCarLocation(deleteDialog.location.id);
       onLocationDeleted(deleteDialog.location.id);
       setDeleteDialog({
         isOpen: false,
@@ -650,8 +744,9 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
         info.push(`Nota: "${location.note}"`);
       }
 
-      if (location.address) {
-        info.push(`Dirección: ${location.address}`);
+      const displayAddress = AddressUtils.getDisplayAddress(location);
+      if (displayAddress) {
+        info.push(`Dirección: ${displayAddress}`);
       }
 
       if (location.parkingType) {
@@ -695,6 +790,17 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
     [getTimeLeft]
   );
 
+  const handleLocationRestored = useCallback(
+    (location: CarLocation) => {
+      onLocationRestored?.(location);
+    },
+    [onLocationRestored]
+  );
+
+  if (showTrash) {
+    return <TrashView onBack={() => setShowTrash(false)} onLocationRestored={handleLocationRestored} />;
+  }
+
   if (locations.length === 0) {
     return (
       <Card className="text-center p-8 border-dashed">
@@ -703,6 +809,10 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
         <p className="mt-1 text-sm text-muted-foreground">
           Usa el formulario principal para guardar tu primer aparcamiento.
         </p>
+        <Button variant="ghost" size="sm" className="mt-4" onClick={() => setShowTrash(true)}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Ver papelera
+        </Button>
       </Card>
     );
   }
@@ -712,15 +822,53 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
       <Card>
         <CardHeader className="flex-row items-center justify-between">
           <CardTitle>Ubicaciones Guardadas ({filteredAndSortedLocations.length})</CardTitle>
-          <Select value={sortBy} onValueChange={(value: "date" | "note") => onSortChange(value)}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Ordenar por..." />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="date">Más recientes</SelectItem>
-              <SelectItem value="note">Por nota (A-Z)</SelectItem>
-            </SelectContent>
-          </Select>
+          <div className="flex items-center gap-2">
+            <Select value={sortBy} onValueChange={(value: "date" | "note") => onSortChange(value)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Ordenar por..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">Más recientes</SelectItem>
+                <SelectItem value="note">Por nota (A-Z)</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant={isSelecting ? "default" : "outline"}
+              size="icon"
+              onClick={handleToggleSelecting}
+              title={isSelecting ? "Salir de la selección" : "Seleccionar ubicaciones"}
+            >
+              <ListChecks className="h-4 w-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={exportableLocations.length === 0}
+                  title="Exportar ubicaciones"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>
+                  {isSelecting && selectedIds.size > 0
+                    ? `Exportar ${exportableLocations.length} seleccionadas`
+                    : `Exportar ${exportableLocations.length} resultados`}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {(Object.keys(LOCATION_FILE_FORMATS) as LocationFileFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                    {LOCATION_FILE_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="icon" onClick={() => setShowTrash(true)} title="Papelera">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <SearchFilter
@@ -729,6 +877,23 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
             searchValue={searchQuery}
             dateFilter={dateFilter}
           />
+          {isSelecting && (
+            <div className="mt-3 flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">{selectedIds.size} seleccionadas</span>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedIds(new Set(filteredAndSortedLocations.map((location) => location.id)))}
+                >
+                  Todas
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Ninguna
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -760,6 +925,9 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
                 onShowOnMap={onShowOnMap}
                 currentView={currentView}
                 onViewChange={onViewChange}
+                isSelectable={isSelecting}
+                isChecked={selectedIds.has(location.id)}
+                onToggleChecked={handleToggleChecked}
               />
             );
           })}
@@ -779,6 +947,10 @@ const SavedLocations: React.FC<SavedLocationsProps> = ({
         onClose={handleCloseDialog}
         onConfirm={handleConfirmDelete}
         locationName={deleteDialog.location?.note || "esta ubicación"}
+        description={`Se moverá a la papelera. Podrás restaurarla durante ${
+          getUserPreferences().trashRetentionDays
+        } días.`}
+        confirmText="Mover a la papelera"
         loading={deleteDialog.isDeleting}
         disabled={deleteDialog.isDeleting}
       >
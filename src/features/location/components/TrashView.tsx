@@ -0,0 +1,182 @@
+// src/features/location/components/TrashView.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import type { CarLocation } from "@/types/location";
+import { locationRepository } from "@/utils/storage";
+import { getUserPreferences } from "@/utils/preferences";
+import { timerManager } from "@/utils/timerManager";
+import { ConfirmationDialog } from "@/shared/components/ConfirmationDialog";
+import { Button, Card, CardContent, CardHeader, CardTitle, Badge } from "@/shared/ui";
+import { toast } from "sonner";
+import { Trash2, RotateCcw, ArrowLeft, Clock, Camera } from "lucide-react";
+import { Formatters } from "@/utils/formatters";
+
+interface TrashViewProps {
+  onBack: () => void;
+  onLocationRestored: (location: CarLocation) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ onBack, onLocationRestored }) => {
+  const [trashedLocations, setTrashedLocations] = useState<CarLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [purgeDialog, setPurgeDialog] = useState<{
+    isOpen: boolean;
+    location: CarLocation | null;
+    isPurging: boolean;
+  }>({
+    isOpen: false,
+    location: null,
+    isPurging: false,
+  });
+
+  const retentionDays = getUserPreferences().trashRetentionDays;
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrashedLocations(await locationRepository.getTrash());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = useCallback(
+    async (location: CarLocation) => {
+      try {
+        const restored = await locationRepository.restoreFromTrash(location.id);
+        if (!restored) return;
+
+        if (restored.expiryTime && restored.expiryTime > Date.now()) {
+          await timerManager.scheduleTimer(restored);
+        }
+
+        setTrashedLocations((prev) => prev.filter((loc) => loc.id !== location.id));
+        onLocationRestored(restored);
+        toast.success("Ubicación restaurada");
+      } catch (error) {
+        console.error("Error al restaurar ubicación:", error);
+        toast.error("No se pudo restaurar la ubicación.");
+      }
+    },
+    [onLocationRestored]
+  );
+
+  const handleConfirmPurge = useCallback(async () => {
+    try {
+      setPurgeDialog((prev) => ({ ...prev, isPurging: true }));
+
+      const purged = await locationRepository.purge(purgeDialog.location ? [purgeDialog.location.id] : undefined);
+      await loadTrash();
+
+      toast.success(purged === 1 ? "Ubicación eliminada definitivamente" : `${purged} ubicaciones eliminadas`);
+      setPurgeDialog({ isOpen: false, location: null, isPurging: false });
+    } catch (error) {
+      console.error("Error al vaciar la papelera:", error);
+      toast.error("No se pudo vaciar la papelera.");
+      setPurgeDialog((prev) => ({ ...prev, isPurging: false }));
+    }
+  }, [purgeDialog.location, loadTrash]);
+
+  const getDaysLeft = (deletedAt: number) => {
+    return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex-row items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <CardTitle>Papelera ({trashedLocations.length})</CardTitle>
+          </div>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setPurgeDialog({ isOpen: true, location: null, isPurging: false })}
+            disabled={trashedLocations.length === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Vaciar
+          </Button>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <p className="text-sm text-muted-foreground">
+            Las ubicaciones eliminadas se borran definitivamente tras {retentionDays} días.
+          </p>
+        </CardContent>
+      </Card>
+
+      {isLoading ? null : trashedLocations.length === 0 ? (
+        <Card className="text-center p-8 border-dashed">
+          <Trash2 className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-2 text-lg font-semibold">La papelera está vacía</h3>
+        </Card>
+      ) : (
+        trashedLocations.map((location) => (
+          <Card key={location.id}>
+            <CardContent className="pt-4 flex items-center justify-between gap-3">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{location.note || location.address || "Sin nota"}</p>
+                <p className="text-xs text-muted-foreground">
+                  Guardada el {Formatters.formatDateTime(location.timestamp).full}
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">Se borra en {getDaysLeft(location.deletedAt!)} días</Badge>
+                  {location.expiryTime && location.expiryTime > Date.now() && (
+                    <span className="flex items-center gap-1 text-xs text-orange-600 dark:text-orange-400">
+                      <Clock className="w-3 h-3" />
+                      Temporizador pendiente
+                    </span>
+                  )}
+                  {location.photos && location.photos.length > 0 && (
+                    <span className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+                      <Camera className="w-3 h-3" />
+                      {location.photos.length}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRestore(location)} title="Restaurar">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPurgeDialog({ isOpen: true, location, isPurging: false })}
+                  title="Eliminar definitivamente"
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <ConfirmationDialog
+        isOpen={purgeDialog.isOpen}
+        onClose={() => !purgeDialog.isPurging && setPurgeDialog({ isOpen: false, location: null, isPurging: false })}
+        onConfirm={handleConfirmPurge}
+        type="delete"
+        title={purgeDialog.location ? "¿Eliminar definitivamente?" : "¿Vaciar la papelera?"}
+        description={
+          purgeDialog.location
+            ? "La ubicación, sus fotos y su temporizador se borrarán para siempre."
+            : `Se borrarán para siempre ${trashedLocations.length} ubicaciones.`
+        }
+        confirmText={purgeDialog.location ? "Eliminar" : "Vaciar papelera"}
+        loading={purgeDialog.isPurging}
+        disabled={purgeDialog.isPurging}
+      />
+    </div>
+  );
+};
+
+export default TrashView;
@@ -15,33 +15,46 @@ import {
   ToggleGroupItem,
 } from "@/shared/ui";
 import { Clock, AlertTriangle, CheckCircle, XCircle, Bell, Trash2 } from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { formatReminderOffsets, getFirstReminderOffset } from "@/utils/reminders";
+import { ensureNotificationPermission } from "@/utils/timerNotifications";
+import { formatStayMinutes } from "@/utils/tariffs";
+import ReminderOffsetsPicker from "./ReminderOffsetsPicker";
+
+const NO_REMINDERS: number[] = [];
 
 interface ParkingTimerProps {
   expiryTime?: number;
-  reminderMinutes?: number;
+  reminderOffsets?: number[];
   onExpiryTimeChange: (expiryTime?: number) => void;
-  onReminderChange: (reminderMinutes?: number) => void;
+  onReminderOffsetsChange: (reminderOffsets: number[]) => void;
   onTimerExpired?: () => void;
   onReminderTriggered?: () => void;
   onTimerCancelled?: () => void;
   onTimerExtended?: (additionalMinutes: number) => void;
+  /** Estancia máxima de la tarifa elegida; la hora límite no puede pasar de ahí */
+  maxStayMinutes?: number;
+  /** Inicio de la estancia para `maxStayMinutes` (por defecto, ahora) */
+  stayStartTime?: number;
 }
 
 const ParkingTimer: React.FC<ParkingTimerProps> = ({
   expiryTime,
-  reminderMinutes,
+  reminderOffsets = NO_REMINDERS,
   onExpiryTimeChange,
-  onReminderChange,
+  onReminderOffsetsChange,
   onTimerExpired,
   onReminderTriggered,
   onTimerCancelled,
+  maxStayMinutes,
+  stayStartTime,
 }) => {
   const [duration, setDuration] = useState<string>("");
   const [customTime, setCustomTime] = useState<string>("");
   const [timeLeft, setTimeLeft] = useState<string>("");
   const [status, setStatus] = useState<"inactive" | "active" | "warning" | "expired">("inactive");
-  const [reminderSent, setReminderSent] = useState(false);
+  const [sentReminders, setSentReminders] = useState<number[]>([]);
 
   useEffect(() => {
     if (!expiryTime) {
@@ -59,11 +72,14 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
         onTimerExpired?.();
         return;
       }
-      const reminderTime = reminderMinutes ? reminderMinutes * 60 * 1000 : 0;
-      if (!reminderSent && remaining <= reminderTime && reminderTime > 0) {
-        setReminderSent(true);
+      const dueReminders = reminderOffsets.filter(
+        (minutes) => !sentReminders.includes(minutes) && remaining <= minutes * 60 * 1000
+      );
+      if (dueReminders.length > 0) {
+        setSentReminders([...sentReminders, ...dueReminders]);
         onReminderTriggered?.();
       }
+      const reminderTime = getFirstReminderOffset(reminderOffsets) * 60 * 1000;
       const hours = Math.floor(remaining / 3600000);
       const minutes = Math.floor((remaining % 3600000) / 60000);
       setTimeLeft(hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`);
@@ -73,7 +89,7 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
     updateTimer();
     const interval = setInterval(updateTimer, 60000);
     return () => clearInterval(interval);
-  }, [expiryTime, reminderMinutes, reminderSent, onTimerExpired, onReminderTriggered]);
+  }, [expiryTime, reminderOffsets, sentReminders, onTimerExpired, onReminderTriggered]);
 
   const quickDurations = [
     { label: "30m", minutes: 30 },
@@ -82,16 +98,28 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
     { label: "4h", minutes: 240 },
   ];
 
-  const reminderOptions = [
-    { label: "5m", minutes: 5 },
-    { label: "10m", minutes: 10 },
-    { label: "15m", minutes: 15 },
-    { label: "30m", minutes: 30 },
-  ];
+  // Se pide permiso de notificaciones al poner el temporizador (necesita un gesto del usuario)
+  const startTimer = (requestedExpiryTime: number) => {
+    let newExpiryTime = requestedExpiryTime;
+    if (maxStayMinutes) {
+      const maxExpiryTime = (stayStartTime ?? Date.now()) + maxStayMinutes * 60 * 1000;
+      if (maxExpiryTime <= Date.now()) {
+        toast.error("Ya se ha superado la estancia máxima de la tarifa");
+        return;
+      }
+      if (newExpiryTime > maxExpiryTime) {
+        toast.warning(`La tarifa permite como máximo ${formatStayMinutes(maxStayMinutes)}`);
+        newExpiryTime = maxExpiryTime;
+      }
+    }
+
+    onExpiryTimeChange(newExpiryTime);
+    setSentReminders([]);
+    ensureNotificationPermission();
+  };
 
   const setQuickDuration = (minutes: number) => {
-    onExpiryTimeChange(Date.now() + minutes * 60 * 1000);
-    setReminderSent(false);
+    startTimer(Date.now() + minutes * 60 * 1000);
   };
 
   const setCustomDuration = () => {
@@ -101,9 +129,8 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
       alert("Por favor, introduce un número válido de minutos");
       return;
     }
-    onExpiryTimeChange(Date.now() + minutes * 60 * 1000);
+    startTimer(Date.now() + minutes * 60 * 1000);
     setDuration("");
-    setReminderSent(false);
   };
 
   const setSpecificTime = () => {
@@ -113,9 +140,8 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
     const targetTime = new Date(today);
     targetTime.setHours(hours, minutes, 0, 0);
     if (targetTime.getTime() <= Date.now()) targetTime.setDate(targetTime.getDate() + 1);
-    onExpiryTimeChange(targetTime.getTime());
+    startTimer(targetTime.getTime());
     setCustomTime("");
-    setReminderSent(false);
   };
 
   const clearTimer = () => {
@@ -151,6 +177,15 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
     }
   };
 
+  const remindersField = (
+    <div className="space-y-2">
+      <label className="text-sm font-medium flex items-center gap-1.5">
+        <Bell className="w-4 h-4" /> Recordatorios (antes de expirar)
+      </label>
+      <ReminderOffsetsPicker value={reminderOffsets} onChange={onReminderOffsetsChange} />
+    </div>
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -225,24 +260,7 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
               </TabsContent>
             </Tabs>
 
-            <div>
-              <label className="text-sm font-medium flex items-center gap-1.5">
-                <Bell className="w-4 h-4" /> Recordatorio (antes de expirar)
-              </label>
-              <ToggleGroup
-                type="single"
-                value={reminderMinutes?.toString()}
-                onValueChange={(val) => onReminderChange(val ? Number(val) : undefined)}
-                className="justify-start flex-wrap mt-2 h-auto"
-              >
-                {reminderOptions.map((opt) => (
-                  <ToggleGroupItem key={opt.minutes} value={opt.minutes.toString()}>
-                    {opt.label}
-                  </ToggleGroupItem>
-                ))}
-                <ToggleGroupItem value="">Ninguno</ToggleGroupItem>
-              </ToggleGroup>
-            </div>
+            {remindersField}
           </div>
         ) : (
           <div className="space-y-4">
@@ -256,10 +274,13 @@ const ParkingTimer: React.FC<ParkingTimerProps> = ({
                   minute: "2-digit",
                 })}
               </p>
-              {reminderMinutes && (
-                <p className="text-xs text-muted-foreground">(Recordatorio {reminderMinutes} min antes)</p>
+              {reminderOffsets.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  (Recordatorios {formatReminderOffsets(reminderOffsets)} antes)
+                </p>
               )}
             </div>
+            {remindersField}
             <Button variant="outline" onClick={clearTimer} className="w-full">
               <Trash2 className="mr-2 h-4 w-4" /> Cancelar Temporizador
             </Button>
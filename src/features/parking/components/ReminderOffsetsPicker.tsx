@@ -0,0 +1,69 @@
+// src/features/parking/components/ReminderOffsetsPicker.tsx
+import React, { useState } from "react";
+import { Button, Input, ToggleGroup, ToggleGroupItem } from "@/shared/ui";
+import { Plus } from "lucide-react";
+import { MAX_REMINDER_OFFSETS, normalizeReminderOffsets, REMINDER_OFFSET_OPTIONS } from "@/utils/reminders";
+
+interface ReminderOffsetsPickerProps {
+  value: number[];
+  onChange: (offsets: number[]) => void;
+}
+
+/**
+ * Selección de varios recordatorios, con las opciones habituales y minutos a medida
+ */
+const ReminderOffsetsPicker: React.FC<ReminderOffsetsPickerProps> = ({ value, onChange }) => {
+  const [customMinutes, setCustomMinutes] = useState("");
+
+  // Los minutos a medida aparecen junto a las opciones habituales
+  const options = [...new Set([...REMINDER_OFFSET_OPTIONS, ...value])].sort((a, b) => a - b);
+  const isFull = value.length >= MAX_REMINDER_OFFSETS;
+
+  const addCustomMinutes = () => {
+    const minutes = parseInt(customMinutes);
+    if (isNaN(minutes) || minutes <= 0) return;
+
+    onChange(normalizeReminderOffsets([...value, minutes]));
+    setCustomMinutes("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <ToggleGroup
+        type="multiple"
+        value={value.map(String)}
+        onValueChange={(values) => onChange(normalizeReminderOffsets(values))}
+        className="justify-start flex-wrap h-auto"
+      >
+        {options.map((minutes) => (
+          <ToggleGroupItem key={minutes} value={String(minutes)} disabled={isFull && !value.includes(minutes)}>
+            {minutes}m
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={1}
+          placeholder="Otros minutos"
+          value={customMinutes}
+          onChange={(e) => setCustomMinutes(e.target.value)}
+          className="h-8 w-36"
+          disabled={isFull}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addCustomMinutes}
+          disabled={isFull || !customMinutes}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Añadir
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReminderOffsetsPicker;
@@ -0,0 +1,63 @@
+// src/features/parking/components/TariffSelect.tsx
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui";
+import { Euro } from "lucide-react";
+import type { TariffProfile } from "@/types/location";
+import { calculateParkingCost, describeTariff } from "@/utils/tariffs";
+
+const NO_TARIFF = "none";
+
+interface TariffSelectProps {
+  tariffs: TariffProfile[];
+  value?: string;
+  onChange: (tariffId?: string) => void;
+  /** Inicio de la estancia para calcular el coste */
+  startTime: number;
+  expiryTime?: number;
+}
+
+/**
+ * Elige la tarifa de la zona y muestra el coste que sale con el temporizador.
+ * Sin tarifas definidas no se muestra y el coste se escribe a mano.
+ */
+const TariffSelect: React.FC<TariffSelectProps> = ({ tariffs, value, onChange, startTime, expiryTime }) => {
+  if (tariffs.length === 0) return null;
+
+  const tariff = tariffs.find((profile) => profile.id === value);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Tarifa de la zona</label>
+      <Select
+        value={tariff ? tariff.id : NO_TARIFF}
+        onValueChange={(tariffId) => onChange(tariffId === NO_TARIFF ? undefined : tariffId)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[9999]">
+          <SelectItem value={NO_TARIFF}>Sin tarifa (coste manual)</SelectItem>
+          {tariffs.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {tariff && (
+        <div className="p-3 bg-secondary/50 rounded-lg space-y-1">
+          <p className="text-xs text-muted-foreground">{describeTariff(tariff)}</p>
+          <p className="text-sm font-semibold flex items-center gap-1.5">
+            <Euro className="w-4 h-4" />
+            {expiryTime
+              ? `Coste: ${calculateParkingCost(tariff, startTime, expiryTime).toFixed(2)}€`
+              : "Pon el temporizador para calcular el coste"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TariffSelect;
@@ -29,6 +29,8 @@ import { cn } from "@/lib/utils";
 import type { CarLocation } from "@/types/location";
 import { updateCarLocation } from "@/utils/storage";
 import { timerManager } from "@/utils/timerManager";
+import { getFirstReminderOffset } from "@/utils/reminders";
+import { extendLocationTimer, type TimerExtension } from "@/utils/tariffs";
 import { toast } from "sonner";
 
 interface TimerWidget {
@@ -36,7 +38,7 @@ interface TimerWidget {
   locationId: string;
   locationNote?: string;
   expiryTime: number;
-  reminderMinutes?: number;
+  reminderOffsets?: number[];
   status: "active" | "warning" | "expired" | "extended";
   extensionCount: number;
   address?: string;
@@ -87,7 +89,7 @@ const TimerDashboard: React.FC<TimerDashboardProps> = ({ locations, onLocationUp
   const createTimerWidget = (location: CarLocation): TimerWidget => {
     const now = Date.now();
     const timeLeftMs = (location.expiryTime || 0) - now;
-    const reminderTimeMs = (location.reminderMinutes || 0) * 60 * 1000;
+    const reminderTimeMs = getFirstReminderOffset(location.reminderOffsets) * 60 * 1000;
     let status: TimerWidget["status"] = "active";
     if (timeLeftMs <= 0) status = "expired";
     else if (reminderTimeMs > 0 && timeLeftMs <= reminderTimeMs) status = "warning";
@@ -98,7 +100,7 @@ const TimerDashboard: React.FC<TimerDashboardProps> = ({ locations, onLocationUp
       locationId: location.id,
       locationNote: location.note,
       expiryTime: location.expiryTime || 0,
-      reminderMinutes: location.reminderMinutes,
+      reminderOffsets: location.reminderOffsets,
       status,
       extensionCount: location.extensionCount || 0,
       address: location.address,
@@ -163,23 +165,27 @@ const TimerDashboard: React.FC<TimerDashboardProps> = ({ locations, onLocationUp
     return () => clearInterval(liveInterval);
   }, [activeTimers]);
 
-  const extendTimer = (timerId: string, minutes: number) => {
+  const extendTimer = async (timerId: string, minutes: number) => {
     const location = locations.find((loc) => loc.id === timerId);
     if (!location || !location.expiryTime) return;
 
-    const newExpiryTime = location.expiryTime + minutes * 60 * 1000;
-    const newExtensionCount = (location.extensionCount || 0) + 1;
-    const updates = { expiryTime: newExpiryTime, extensionCount: newExtensionCount };
+    let updates: TimerExtension;
+    try {
+      updates = extendLocationTimer(location, minutes);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se puede extender el temporizador");
+      return;
+    }
 
-    updateCarLocation(timerId, updates);
+    await updateCarLocation(timerId, updates);
 
     setActiveTimers((prevTimers) =>
       prevTimers.map((timer) =>
         timer.id === timerId
           ? {
               ...timer,
-              expiryTime: newExpiryTime,
-              extensionCount: newExtensionCount,
+              expiryTime: updates.expiryTime,
+              extensionCount: updates.extensionCount,
               status: "extended" as const,
             }
           : timer
@@ -200,11 +206,11 @@ const TimerDashboard: React.FC<TimerDashboardProps> = ({ locations, onLocationUp
     });
   };
 
-  const cancelTimer = (timerId: string) => {
+  const cancelTimer = async (timerId: string) => {
     const location = locations.find((loc) => loc.id === timerId);
-    const updates = { expiryTime: undefined, reminderMinutes: undefined, extensionCount: undefined };
+    const updates = { expiryTime: undefined, reminderOffsets: undefined, extensionCount: undefined };
 
-    updateCarLocation(timerId, updates);
+    await updateCarLocation(timerId, updates);
 
     setActiveTimers((prevTimers) => prevTimers.filter((timer) => timer.id !== timerId));
 
@@ -1,2 +1,4 @@
 export { default as ParkingTimer } from "./components/ParkingTimer";
 export { default as TimerDashboard } from "./components/TimerDashboard";
+export { default as ReminderOffsetsPicker } from "./components/ReminderOffsetsPicker";
+export { default as TariffSelect } from "./components/TariffSelect";
@@ -11,6 +11,7 @@ import {
   AlertDescription,
 } from "@/shared/ui";
 import { Camera, Upload, X, Ban } from "lucide-react";
+import { LazyImage } from "@/components/optimized/LazyImage";
 
 interface PhotoCaptureProps {
   photos: string[];
@@ -173,7 +174,12 @@ const PhotoCapture: React.FC<PhotoCaptureProps> = ({ photos, onPhotosChange, max
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
             {photos.map((photo, index) => (
               <div key={index} className="relative group aspect-square">
-                <img src={photo} alt={`Foto ${index + 1}`} className="w-full h-full object-cover rounded-lg border" />
+                <LazyImage
+                  src={photo}
+                  variant="thumbnail"
+                  alt={`Foto ${index + 1}`}
+                  className="w-full h-full rounded-lg border"
+                />
                 <Button
                   variant="destructive"
                   size="icon"
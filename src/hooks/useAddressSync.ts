@@ -2,6 +2,8 @@
 import { useEffect, useCallback, useRef, useState } from "react";
 import { toast } from "sonner";
 import { LocationUtils } from "@/utils";
+import { geocodeCache } from "@/utils/geocodeCache";
+import { AddressUtils } from "@/utils/addressUtils";
 import type { CarLocation } from "@/types/location";
 
 export const useAddressSync = (
@@ -33,14 +35,8 @@ export const useAddressSync = (
     lastSyncRef.current = now;
 
     try {
-      // Buscar ubicaciones con direcciones que son solo coordenadas
-      const locationsWithoutAddress = locations.filter((location) => {
-        if (!location.address) return true;
-
-        // Detectar si la dirección son coordenadas (formato "⏳ 40.416800, -3.703800" o "40.416800, -3.703800")
-        const coordsPattern = /^(⏳\s*)?-?\d+\.\d+,?\s*-?\d+\.\d+$/;
-        return coordsPattern.test(location.address.trim());
-      });
+      // Buscar ubicaciones cuya dirección está pendiente o falló
+      const locationsWithoutAddress = AddressUtils.getLocationsPendingSync(locations);
 
       if (locationsWithoutAddress.length === 0) {
         console.log("✅ Todas las ubicaciones tienen direcciones reales");
@@ -60,18 +56,25 @@ export const useAddressSync = (
 
       for (const location of locationsWithoutAddress) {
         try {
-          console.log(`🌐 Obteniendo dirección para: ${location.latitude}, ${location.longitude}`);
+          console.log(`🌐 Obteniendo dirección para ubicación ${location.id}`);
 
-          // Esperar un poco entre requests para no saturar la API
-          await new Promise((resolve) => setTimeout(resolve, 800));
+          let details = await geocodeCache.get(location.latitude, location.longitude);
 
-          const address = await LocationUtils.reverseGeocode(location.latitude, location.longitude);
+          if (!details) {
+            // La cola de geocoding se encarga de respetar el límite de peticiones
+            details = await LocationUtils.reverseGeocode(location.latitude, location.longitude);
+          }
 
-          if (address && address !== location.address) {
-            console.log(`📍 Nueva dirección: ${address}`);
+          if (!details) {
+            if (location.geocodeStatus !== "failed") {
+              await updateLocationCallback(location.id, AddressUtils.toLocationFields(null));
+            }
+            errors.push(location.id);
+          } else {
+            const fields = AddressUtils.toLocationFields(details);
 
             // Usar la función de actualización del hook useAppData
-            await updateLocationCallback(location.id, { address });
+            await updateLocationCallback(location.id, fields);
 
             syncedCount++;
             console.log(`✅ Dirección actualizada para ubicación ${location.id}`);
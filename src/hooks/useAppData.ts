@@ -1,9 +1,18 @@
 // src/hooks/useAppData.ts
 import { useState, useCallback, useEffect } from "react";
 import type { CarLocation, UserPreferences } from "@/types/location";
-import { getCarLocations, updateCarLocation, saveCarLocation, deleteCarLocation } from "@/utils/storage";
+import {
+  getCarLocations,
+  updateCarLocation,
+  updateCarLocationWithoutHistory,
+  saveCarLocation,
+  deleteCarLocation,
+  undoLocationChange,
+  redoLocationChange,
+} from "@/utils/storage";
 import { getUserPreferences } from "@/utils/preferences";
 import { timerManager } from "@/utils/timerManager";
+import { extendLocationTimer } from "@/utils/tariffs";
 import { toast } from "sonner";
 
 export const useAppData = (
@@ -23,7 +32,7 @@ export const useAppData = (
         sortBy: "date",
         showAll: false,
         notifications: true,
-        defaultReminderMinutes: 5,
+        defaultReminderOffsets: [5],
         maxPhotos: 3,
         photoQuality: "medium",
       } as UserPreferences;
@@ -36,10 +45,10 @@ export const useAppData = (
   useEffect(() => {
     let isMounted = true;
 
-    const loadLocations = () => {
+    const loadLocations = async () => {
       try {
         console.log("📍 Cargando ubicaciones...");
-        const savedLocations = getCarLocations();
+        const savedLocations = await getCarLocations();
 
         if (isMounted) {
           setLocations(savedLocations);
@@ -66,12 +75,64 @@ export const useAppData = (
       isMounted = false;
     };
   }, []);
+  const reloadLocations = useCallback(async () => {
+    try {
+      const savedLocations = await getCarLocations();
+      setLocations(savedLocations);
+      console.log("🔄 Ubicaciones recargadas");
+      return savedLocations;
+    } catch (error) {
+      console.error("Error recargando ubicaciones:", error);
+      toast.error("Error al recargar ubicaciones");
+      return [];
+    }
+  }, []);
+
+  // Con `seq` se deshace esa modificación concreta (la del aviso que se pulsó)
+  const undoLastChange = useCallback(async (seq?: number) => {
+    try {
+      const entry = await undoLocationChange(seq);
+      if (!entry) {
+        toast.info("No hay cambios que deshacer");
+        return;
+      }
+
+      const savedLocations = await reloadLocations();
+      await timerManager.syncWithSavedLocations(savedLocations);
+
+      toast.success(`↩️ Deshecho: ${entry.description}`);
+    } catch (error) {
+      console.error("❌ Error deshaciendo el cambio:", error);
+      toast.error(error instanceof Error ? error.message : "No se pudo deshacer el cambio");
+    }
+  }, [reloadLocations]);
+
+  const redoLastChange = useCallback(async () => {
+    try {
+      const entry = await redoLocationChange();
+      if (!entry) {
+        toast.info("No hay cambios que rehacer");
+        return;
+      }
+
+      const savedLocations = await reloadLocations();
+      await timerManager.syncWithSavedLocations(savedLocations);
+
+      toast.success(`↪️ Rehecho: ${entry.description}`, {
+        action: { label: "Deshacer", onClick: () => undoLastChange(entry.seq) },
+      });
+    } catch (error) {
+      console.error("❌ Error rehaciendo el cambio:", error);
+      toast.error("No se pudo rehacer el cambio");
+    }
+  }, [reloadLocations, undoLastChange]);
+
   const handleLocationSaved = useCallback(
     async (newLocation: CarLocation) => {
       try {
         console.log("💾 Guardando nueva ubicación:", newLocation);
 
-        saveCarLocation(newLocation);
+        await saveCarLocation(newLocation);
 
         setLocations((prev) => [newLocation, ...prev]);
         setMapCenter([newLocation.latitude, newLocation.longitude]);
@@ -107,7 +168,7 @@ export const useAppData = (
       try {
         console.log(`📝 Actualizando ubicación ${id}:`, updates);
 
-        updateCarLocation(id, updates);
+        await updateCarLocation(id, updates);
 
         setLocations((prev) => prev.map((loc) => (loc.id === id ? { ...loc, ...updates } : loc)));
 
@@ -130,8 +191,14 @@ export const useAppData = (
     [locations]
   );
 
+  // Direcciones resueltas en segundo plano: fuera del historial de cambios
+  const handleAddressResolved = useCallback(async (id: string, updates: Partial<CarLocation>) => {
+    await updateCarLocationWithoutHistory(id, updates);
+    setLocations((prev) => prev.map((loc) => (loc.id === id ? { ...loc, ...updates } : loc)));
+  }, []);
+
   const handleLocationDeleted = useCallback(
-    (locationId: string) => {
+    async (locationId: string) => {
       try {
         const location = locations.find((loc) => loc.id === locationId);
         if (!location) {
@@ -139,7 +206,7 @@ export const useAppData = (
           return;
         }
 
-        deleteCarLocation(locationId);
+        const entry = await deleteCarLocation(locationId);
 
         setLocations((prev) => prev.filter((loc) => loc.id !== locationId));
 
@@ -153,13 +220,15 @@ export const useAppData = (
           console.error("Error cancelando temporizador:", error);
         }
 
-        toast.success("Ubicación eliminada");
+        toast.success("Ubicación eliminada", {
+          action: { label: "Deshacer", onClick: () => undoLastChange(entry?.seq) },
+        });
       } catch (error) {
         console.error("❌ Error deleting location:", error);
         toast.error("Error al eliminar la ubicación");
       }
     },
-    [locations, selectedLocationId]
+    [locations, selectedLocationId, undoLastChange]
   );
 
   const handleLocationSelected = useCallback((location: CarLocation) => {
@@ -209,13 +278,7 @@ export const useAppData = (
           throw new Error("Ubicación no encontrada o sin temporizador");
         }
 
-        const newExpiryTime = location.expiryTime + minutes * 60000;
-        const newExtensionCount = (location.extensionCount || 0) + 1;
-
-        const updates = {
-          expiryTime: newExpiryTime,
-          extensionCount: newExtensionCount,
-        };
+        const updates = extendLocationTimer(location, minutes);
 
         await handleLocationUpdate(locationId, updates);
 
@@ -230,7 +293,7 @@ export const useAppData = (
         console.log("✅ Temporizador extendido exitosamente");
       } catch (error) {
         console.error("❌ Error extendiendo el temporizador:", error);
-        toast.error("Error al extender el temporizador");
+        toast.error(error instanceof Error ? error.message : "Error al extender el temporizador");
       }
     },
     [locations, handleLocationUpdate]
@@ -249,7 +312,7 @@ export const useAppData = (
 
         const updates = {
           expiryTime: undefined,
-          reminderMinutes: undefined,
+          reminderOffsets: undefined,
           extensionCount: undefined,
         };
 
@@ -274,6 +337,7 @@ export const useAppData = (
 
     handleLocationSaved,
     handleLocationUpdate,
+    handleAddressResolved,
     handleLocationDeleted,
     handleLocationSelected,
 
@@ -287,15 +351,8 @@ export const useAppData = (
     updateSortPreference,
     updateShowAllPreference,
 
-    reloadLocations: useCallback(() => {
-      try {
-        const savedLocations = getCarLocations();
-        setLocations(savedLocations);
-        console.log("🔄 Ubicaciones recargadas");
-      } catch (error) {
-        console.error("Error recargando ubicaciones:", error);
-        toast.error("Error al recargar ubicaciones");
-      }
-    }, []),
+    reloadLocations,
+    undoLastChange,
+    redoLastChange,
   };
 };
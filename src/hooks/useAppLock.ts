@@ -0,0 +1,22 @@
+// src/hooks/useAppLock.ts
+import { useEffect, useState } from "react";
+import { appLock } from "@/utils/appLock";
+
+const getAppLockState = () => ({
+  isEnabled: appLock.isEnabled(),
+  isLocked: appLock.isLocked(),
+  isContentHidden: appLock.isContentHidden(),
+});
+
+/**
+ * Estado del bloqueo con PIN y de la ocultación del contenido sensible
+ */
+export const useAppLock = () => {
+  const [state, setState] = useState(getAppLockState);
+
+  useEffect(() => {
+    return appLock.subscribe(() => setState(getAppLockState()));
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,21 @@
+// src/hooks/useEncryptionLock.ts
+import { useEffect, useState } from "react";
+import { encryptionVault } from "@/utils/encryption";
+
+/**
+ * Estado del cifrado: si está activado y si los datos están bloqueados
+ */
+export const useEncryptionLock = () => {
+  const [state, setState] = useState(() => ({
+    isEnabled: encryptionVault.isEnabled(),
+    isLocked: encryptionVault.isLocked(),
+  }));
+
+  useEffect(() => {
+    return encryptionVault.onLockChange((isLocked) => {
+      setState({ isEnabled: encryptionVault.isEnabled(), isLocked });
+    });
+  }, []);
+
+  return state;
+};
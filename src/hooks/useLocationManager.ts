@@ -4,7 +4,10 @@ import type { CarLocation, UserPreferences } from "@/types/location";
 import { deleteCarLocation, updateCarLocation } from "@/utils/storage";
 import { copyToClipboard } from "@/utils/helpers";
 import { timerManager } from "@/utils/timerManager";
+import { extendLocationTimer } from "@/utils/tariffs";
 import { Formatters } from "@/utils/formatters";
+import { AddressUtils } from "@/utils/addressUtils";
+import { createShareLink } from "@/utils/shareLink";
 import { toast } from "sonner";
 import { CloudSun, Warehouse, SquareParking, MapPinPlusInside, MapPin, Pointer, Target } from "lucide-react";
 
@@ -70,9 +73,8 @@ export const useLocationManager = (
   );
 
   const openInMaps = useCallback((location: CarLocation) => {
-    const query = location.address
-      ? encodeURIComponent(location.address)
-      : `${location.latitude},${location.longitude}`;
+    const displayAddress = AddressUtils.getDisplayAddress(location);
+    const query = displayAddress ? encodeURIComponent(displayAddress) : `${location.latitude},${location.longitude}`;
 
     const urls = {
       google: `https://www.google.com/maps/search/?api=1&query=${query}`,
@@ -94,9 +96,10 @@ export const useLocationManager = (
 
   const shareLocation = useCallback(async (location: CarLocation) => {
     const shareText = `Mi coche está aparcado aquí: ${
-      location.address || `${location.latitude}, ${location.longitude}`
+      AddressUtils.getDisplayAddress(location) || `${location.latitude}, ${location.longitude}`
     }`;
-    const shareUrl = `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+    // Enlace de Aparky: quien lo abra puede guardar la ubicación en su dispositivo
+    const shareUrl = await createShareLink(location);
 
     if (navigator.share) {
       try {
@@ -188,10 +191,7 @@ export const useLocationManager = (
         const location = locations.find((loc) => loc.id === locationId);
         if (!location?.expiryTime) throw new Error("Timer no encontrado");
 
-        const newExpiryTime = location.expiryTime + minutes * 60000;
-        const newExtensionCount = (location.extensionCount || 0) + 1;
-
-        const updates = { expiryTime: newExpiryTime, extensionCount: newExtensionCount };
+        const updates = extendLocationTimer(location, minutes);
 
         await saveLocationEdits(locationId, updates);
         await timerManager.scheduleTimer({ ...location, ...updates });
@@ -199,7 +199,7 @@ export const useLocationManager = (
         toast.success(`Temporizador extendido ${minutes} minutos`);
       } catch (error) {
         console.error("Error extending timer:", error);
-        toast.error("Error al extender el temporizador");
+        toast.error(error instanceof Error ? error.message : "Error al extender el temporizador");
         throw error;
       }
     },
@@ -212,7 +212,7 @@ export const useLocationManager = (
         timerManager.cancelTimer(locationId);
         await saveLocationEdits(locationId, {
           expiryTime: undefined,
-          reminderMinutes: undefined,
+          reminderOffsets: undefined,
           extensionCount: 0,
         });
         toast.success("Temporizador cancelado");
@@ -0,0 +1,27 @@
+// src/hooks/usePhotoUrl.ts
+import { useEffect, useState } from "react";
+import { isPhotoId, photoStore, type PhotoVariant } from "@/utils/photoStore";
+
+/**
+ * Resuelve una foto guardada (id del almacén o data URL antigua) a una URL mostrable
+ */
+export const usePhotoUrl = (photo: string | undefined, variant: PhotoVariant = "full") => {
+  const [resolved, setResolved] = useState<{ photo: string; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!photo || !isPhotoId(photo)) return;
+
+    let cancelled = false;
+    photoStore.getObjectUrl(photo, variant).then((url) => {
+      if (!cancelled) setResolved({ photo, url });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, variant]);
+
+  if (!photo) return null;
+  if (!isPhotoId(photo)) return photo;
+  return resolved?.photo === photo ? resolved.url : null;
+};
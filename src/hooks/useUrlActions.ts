@@ -0,0 +1,60 @@
+// src/hooks/useUrlActions.ts
+import { useEffect, useRef } from "react";
+import {
+  clearUrlAction,
+  parseUrlAction,
+  URL_ACTION_EVENT,
+  type UrlAction,
+  type UrlActionSource,
+} from "@/utils/urlActions";
+import { NOTIFICATION_ACTION_MESSAGE } from "@/utils/timerNotifications";
+
+/**
+ * Lee la acción de la URL al arrancar, en cada navegación dentro de la app y
+ * cuando el service worker reenvía el botón pulsado en una notificación
+ */
+export const useUrlActions = (onAction: (action: UrlAction, source: UrlActionSource) => void) => {
+  const onActionRef = useRef(onAction);
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+  }, [onAction]);
+
+  useEffect(() => {
+    const handleUrlAction = (source: UrlActionSource) => {
+      const action = parseUrlAction(window.location.search, window.location.hash);
+      if (!action) return;
+
+      console.log("🔗 Acción recibida por URL:", action, source);
+      clearUrlAction();
+      onActionRef.current(action, source);
+    };
+
+    const handleNavigation = () => handleUrlAction("url");
+    const handleAppAction = () => handleUrlAction("app");
+
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type !== NOTIFICATION_ACTION_MESSAGE || typeof event.data.url !== "string") return;
+
+      const url = new URL(event.data.url, window.location.origin);
+      if (url.origin !== window.location.origin) return;
+
+      window.history.pushState(window.history.state, "", `${url.pathname}${url.search}${url.hash}`);
+      handleAppAction();
+    };
+
+    handleNavigation();
+
+    window.addEventListener("popstate", handleNavigation);
+    window.addEventListener("hashchange", handleNavigation);
+    window.addEventListener(URL_ACTION_EVENT, handleAppAction);
+    navigator.serviceWorker?.addEventListener("message", handleServiceWorkerMessage);
+
+    return () => {
+      window.removeEventListener("popstate", handleNavigation);
+      window.removeEventListener("hashchange", handleNavigation);
+      window.removeEventListener(URL_ACTION_EVENT, handleAppAction);
+      navigator.serviceWorker?.removeEventListener("message", handleServiceWorkerMessage);
+    };
+  }, []);
+};
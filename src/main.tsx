@@ -2,6 +2,13 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./styles/index.css";
 import App from "./App.tsx";
+import { runStartupMigrations } from "./utils/schema";
+import { encryptionVault } from "./utils/encryption";
+
+runStartupMigrations();
+encryptionVault.onLockChange((locked) => {
+  if (!locked) runStartupMigrations();
+});
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
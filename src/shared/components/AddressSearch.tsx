@@ -0,0 +1,159 @@
+// src/shared/components/AddressSearch.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Input } from "@/shared/ui";
+import { Search, Loader2, MapPin, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { forwardGeocode, type GeocodingResult } from "@/utils/geocoding";
+
+interface AddressSearchProps {
+  onSelect: (result: GeocodingResult) => void;
+  /** Prioriza resultados cercanos a este punto */
+  near?: [number, number] | null;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+const MIN_QUERY_LENGTH = 3;
+const DEBOUNCE_MS = 400;
+
+export const AddressSearch: React.FC<AddressSearchProps> = ({
+  onSelect,
+  near,
+  placeholder = "Buscar dirección o lugar...",
+  className,
+  disabled = false,
+}) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodingResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestQueryRef = useRef("");
+  const selectedQueryRef = useRef<string | null>(null);
+
+  const nearLat = near?.[0];
+  const nearLng = near?.[1];
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    latestQueryRef.current = trimmed;
+
+    // El texto del resultado elegido no debe lanzar otra búsqueda
+    if (trimmed.length < MIN_QUERY_LENGTH || trimmed === selectedQueryRef.current) {
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      if (!navigator.onLine) {
+        setError("La búsqueda de direcciones necesita conexión");
+        return;
+      }
+
+      setIsSearching(true);
+      try {
+        const found = await forwardGeocode(trimmed, {
+          limit: 5,
+          near: nearLat !== undefined && nearLng !== undefined ? { latitude: nearLat, longitude: nearLng } : undefined,
+        });
+
+        // Ignorar respuestas de búsquedas anteriores
+        if (latestQueryRef.current !== trimmed) return;
+
+        setResults(found);
+        setError(found.length === 0 ? "No se encontraron resultados" : null);
+        setIsOpen(true);
+      } catch (error) {
+        console.error("Error searching address:", error);
+        if (latestQueryRef.current === trimmed) setError("No se pudo buscar la dirección");
+      } finally {
+        if (latestQueryRef.current === trimmed) setIsSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, nearLat, nearLng]);
+
+  const handleSelect = (result: GeocodingResult) => {
+    selectedQueryRef.current = result.address.trim();
+    setQuery(result.address);
+    setResults([]);
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && results.length > 0) {
+      e.preventDefault();
+      handleSelect(results[0]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  const clearQuery = () => {
+    setQuery("");
+    setResults([]);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          disabled={disabled}
+          className="pl-9 pr-9"
+        />
+        {isSearching ? (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          query && (
+            <button
+              type="button"
+              onClick={clearQuery}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              title="Limpiar búsqueda"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )
+        )}
+      </div>
+
+      {isOpen && (results.length > 0 || error) && (
+        <div className="absolute z-[1000] mt-1 w-full rounded-md border bg-popover shadow-md overflow-hidden">
+          {error ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">{error}</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.latitude},${result.longitude}`}
+                type="button"
+                onClick={() => handleSelect(result)}
+                className="flex w-full items-start gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+              >
+                <MapPin className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <span className="min-w-0">
+                  <span className="block font-medium truncate">{result.address}</span>
+                  <span className="block text-xs text-muted-foreground truncate">{result.displayName}</span>
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
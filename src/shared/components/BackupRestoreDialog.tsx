@@ -0,0 +1,96 @@
+// src/shared/components/BackupRestoreDialog.tsx
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Alert,
+  AlertDescription,
+} from "@/shared/ui";
+import { ArchiveRestore, AlertTriangle, MapPin, Camera, Clock, Settings, Map } from "lucide-react";
+import type { BackupSummary } from "@/utils/backup";
+
+interface BackupRestoreDialogProps {
+  summary: BackupSummary | null;
+  isRestoring: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+export const BackupRestoreDialog: React.FC<BackupRestoreDialogProps> = ({
+  summary,
+  isRestoring,
+  onClose,
+  onConfirm,
+}) => {
+  return (
+    <Dialog open={!!summary} onOpenChange={(open) => !open && !isRestoring && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5" />
+            Restaurar copia de seguridad
+          </DialogTitle>
+          <DialogDescription>
+            {summary && `Copia creada el ${new Date(summary.createdAt).toLocaleString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="space-y-3">
+            <ul className="space-y-2 text-sm">
+              <li className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                {summary.locations} ubicaciones
+              </li>
+              <li className="flex items-center gap-2">
+                <Camera className="h-4 w-4 text-muted-foreground" />
+                {summary.photos} fotos
+                {summary.missingPhotos > 0 && (
+                  <span className="text-muted-foreground">({summary.missingPhotos} no incluidas)</span>
+                )}
+              </li>
+              <li className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                {summary.timers} temporizadores
+              </li>
+              <li className="flex items-center gap-2">
+                <Settings className="h-4 w-4 text-muted-foreground" />
+                {[summary.hasPreferences && "Preferencias", summary.hasPreferredLocation && "ubicación preferida"]
+                  .filter(Boolean)
+                  .join(" y ") || "Sin preferencias"}
+              </li>
+              {summary.offlineAreas.length > 0 && (
+                <li className="flex items-start gap-2">
+                  <Map className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                  <span>Mapas offline para volver a descargar: {summary.offlineAreas.join(", ")}</span>
+                </li>
+              )}
+            </ul>
+
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Se sustituirán las ubicaciones y ajustes actuales. Las ubicaciones anteriores se pueden recuperar
+                desde el historial de cambios.
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isRestoring}>
+            Cancelar
+          </Button>
+          <Button onClick={onConfirm} disabled={isRestoring}>
+            {isRestoring ? "Restaurando..." : "Restaurar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
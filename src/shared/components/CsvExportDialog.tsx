@@ -0,0 +1,206 @@
+// src/shared/components/CsvExportDialog.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Label,
+  Switch,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/ui";
+import { toast } from "sonner";
+import { FileSpreadsheet, Download } from "lucide-react";
+import type { CarLocation } from "@/types/location";
+import { getCarLocations } from "@/utils/storage";
+import { filterLocationsByDateRange } from "@/utils/stats";
+import { downloadFile } from "@/utils/helpers";
+import { Formatters } from "@/utils/formatters";
+import {
+  CSV_COLUMNS,
+  DEFAULT_CSV_COLUMNS,
+  getLocaleDecimalSeparator,
+  locationsToCsv,
+  type CsvColumnId,
+  type DecimalSeparator,
+} from "@/utils/csv";
+
+interface CsvExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type CsvFileType = "csv" | "tsv";
+
+const parseDateInput = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const CsvExportDialog: React.FC<CsvExportDialogProps> = ({ isOpen, onClose }) => {
+  const [locations, setLocations] = useState<CarLocation[]>([]);
+  const [columns, setColumns] = useState<CsvColumnId[]>(DEFAULT_CSV_COLUMNS);
+  const [fileType, setFileType] = useState<CsvFileType>("csv");
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(() => getLocaleDecimalSeparator());
+  const [includeTotals, setIncludeTotals] = useState(true);
+  const [onlyWithCost, setOnlyWithCost] = useState(true);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getCarLocations()
+      .then(setLocations)
+      .catch((error) => {
+        console.error("Error loading locations for export:", error);
+        toast.error(error instanceof Error ? error.message : "No se pudieron cargar las ubicaciones");
+      });
+  }, [isOpen]);
+
+  const selected = useMemo(() => {
+    const inRange = filterLocationsByDateRange(locations, parseDateInput(from), parseDateInput(to));
+    const filtered = onlyWithCost ? inRange.filter((location) => location.cost !== undefined) : inRange;
+    return [...filtered].sort((a, b) => a.timestamp - b.timestamp);
+  }, [locations, from, to, onlyWithCost]);
+
+  const totalCost = selected.reduce((total, location) => total + (location.cost || 0), 0);
+
+  const toggleColumn = (column: CsvColumnId) => {
+    setColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((id) => id !== column)
+        : (Object.keys(CSV_COLUMNS) as CsvColumnId[]).filter((id) => id === column || prev.includes(id))
+    );
+  };
+
+  const handleExport = () => {
+    try {
+      // Con coma decimal, el CSV usa punto y coma como hace Excel en español
+      const delimiter = fileType === "tsv" ? "\t" : decimalSeparator === "," ? ";" : ",";
+      const content = locationsToCsv(selected, { columns, delimiter, decimalSeparator, includeTotals });
+
+      downloadFile(
+        content,
+        `aparky-gastos-${new Date().toISOString().split("T")[0]}.${fileType}`,
+        fileType === "tsv" ? "text/tab-separated-values" : "text/csv"
+      );
+      toast.success(`${selected.length} aparcamientos exportados`);
+      onClose();
+    } catch (error) {
+      console.error("Error exporting CSV:", error);
+      toast.error("Error al exportar los gastos");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Exportar gastos
+          </DialogTitle>
+          <DialogDescription>Hoja de cálculo con los aparcamientos, para justificar gastos.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="csvFrom" className="text-sm">
+                Desde
+              </Label>
+              <Input id="csvFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="csvTo" className="text-sm">
+                Hasta
+              </Label>
+              <Input id="csvTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Columnas</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(CSV_COLUMNS) as CsvColumnId[]).map((column) => (
+                <label key={column} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={columns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {CSV_COLUMNS[column].label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Formato</Label>
+              <Select value={fileType} onValueChange={(value: CsvFileType) => setFileType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[9999]">
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="tsv">TSV (tabuladores)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm">Decimales</Label>
+              <Select value={decimalSeparator} onValueChange={(value: DecimalSeparator) => setDecimalSeparator(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[9999]">
+                  <SelectItem value=",">Coma (1,50)</SelectItem>
+                  <SelectItem value=".">Punto (1.50)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="csvOnlyWithCost" className="text-sm">
+              Solo aparcamientos con coste
+            </Label>
+            <Switch id="csvOnlyWithCost" checked={onlyWithCost} onCheckedChange={setOnlyWithCost} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="csvTotals" className="text-sm">
+              Añadir fila de totales
+            </Label>
+            <Switch id="csvTotals" checked={includeTotals} onCheckedChange={setIncludeTotals} />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {selected.length} aparcamientos · Total {Formatters.formatCost(totalCost)}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={selected.length === 0 || columns.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,239 @@
+// src/shared/components/CsvImportDialog.tsx
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Label,
+  Switch,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Alert,
+  AlertDescription,
+} from "@/shared/ui";
+import { toast } from "sonner";
+import { FileSpreadsheet, Upload, AlertTriangle } from "lucide-react";
+import { getCarLocations, locationRepository } from "@/utils/storage";
+import { timerManager } from "@/utils/timerManager";
+import { backupBeforeChange } from "@/utils/backupScheduler";
+import {
+  CSV_IMPORT_FIELDS,
+  csvRowsToLocations,
+  geocodeMissingCoordinates,
+  guessCsvMapping,
+  parseCsv,
+  type CsvDateOrder,
+  type CsvImportField,
+  type ParsedCsv,
+} from "@/utils/csv";
+
+interface CsvImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ isOpen, onClose, onImported }) => {
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvImportField[]>([]);
+  const [dateOrder, setDateOrder] = useState<CsvDateOrder>("dmy");
+  const [geocodeAddresses, setGeocodeAddresses] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const reset = () => {
+    setCsv(null);
+    setMapping([]);
+    setProgress(null);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseCsv(await file.text());
+      setCsv(parsed);
+      setMapping(guessCsvMapping(parsed.headers));
+    } catch (error) {
+      console.error("Error reading CSV:", error);
+      toast.error(error instanceof Error ? error.message : "No se pudo leer el CSV");
+    }
+  };
+
+  const setColumnField = (index: number, field: CsvImportField) => {
+    setMapping((prev) =>
+      prev.map((current, i) => {
+        if (i === index) return field;
+        // Cada campo solo puede venir de una columna
+        return field !== "ignore" && current === field ? "ignore" : current;
+      })
+    );
+  };
+
+  const hasDate = mapping.includes("datetime") || mapping.includes("date");
+  const hasCoordinates = mapping.includes("latitude") && mapping.includes("longitude");
+  const hasAddress = mapping.includes("address");
+  const canImport = !!csv && hasDate && (hasCoordinates || (hasAddress && geocodeAddresses));
+
+  const handleImport = async () => {
+    if (!csv) return;
+
+    setIsImporting(true);
+    try {
+      let records = csvRowsToLocations(csv.rows, { mapping, dateOrder });
+
+      if (geocodeAddresses && hasAddress) {
+        records = await geocodeMissingCoordinates(records, (done, total) =>
+          setProgress(`Buscando direcciones ${done}/${total}...`)
+        );
+      }
+
+      setProgress("Guardando...");
+      await backupBeforeChange("beforeImport");
+      const result = await locationRepository.merge(records, "CSV");
+
+      const locations = await getCarLocations();
+      await timerManager.syncWithSavedLocations(locations);
+      onImported?.();
+
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} repetidas omitidas` : "",
+        result.overLimit > 0 ? `${result.overLimit} omitidas por el límite de ubicaciones` : "",
+        result.invalid > 0 ? `${result.invalid} no válidas en cuarentena` : "",
+      ].filter(Boolean);
+
+      toast.success(`Se importaron ${result.imported} ubicaciones del CSV`, {
+        description: skipped.length > 0 ? skipped.join(" · ") : undefined,
+      });
+
+      reset();
+      onClose();
+    } catch (error) {
+      console.error("Error importing CSV:", error);
+      toast.error(error instanceof Error ? error.message : "Error al importar el CSV");
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Importar CSV
+          </DialogTitle>
+          <DialogDescription>
+            Trae el historial de otras apps de aparcamiento. Después indica qué contiene cada columna.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!csv ? (
+          <Button asChild variant="outline" className="w-full">
+            <Label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Elegir archivo CSV o TSV
+              <Input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+            </Label>
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{csv.rows.length} filas encontradas</p>
+
+            <div className="space-y-2">
+              {csv.headers.map((header, index) => (
+                <div key={`${header}-${index}`} className="grid grid-cols-2 items-center gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{header || `Columna ${index + 1}`}</p>
+                    <p className="text-xs text-muted-foreground truncate">{csv.rows[0]?.[index] || "—"}</p>
+                  </div>
+                  <Select
+                    value={mapping[index] ?? "ignore"}
+                    onValueChange={(value: CsvImportField) => setColumnField(index, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[9999]">
+                      {(Object.keys(CSV_IMPORT_FIELDS) as CsvImportField[]).map((field) => (
+                        <SelectItem key={field} value={field}>
+                          {CSV_IMPORT_FIELDS[field]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-sm">Formato de fecha</Label>
+              <Select value={dateOrder} onValueChange={(value: CsvDateOrder) => setDateOrder(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[9999]">
+                  <SelectItem value="dmy">Día/mes/año (31/12/2024)</SelectItem>
+                  <SelectItem value="mdy">Mes/día/año (12/31/2024)</SelectItem>
+                  <SelectItem value="ymd">Año-mes-día (2024-12-31)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasAddress && !hasCoordinates && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="csvGeocode" className="text-sm">
+                  Buscar coordenadas a partir de la dirección
+                </Label>
+                <Switch id="csvGeocode" checked={geocodeAddresses} onCheckedChange={setGeocodeAddresses} />
+              </div>
+            )}
+
+            {!canImport && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Asigna una columna de fecha y las de latitud y longitud (o una dirección para buscarlas).
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {progress && <p className="text-sm text-muted-foreground">{progress}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {csv && (
+            <Button variant="ghost" onClick={reset} disabled={isImporting}>
+              Otro archivo
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || isImporting}>
+            {isImporting ? "Importando..." : "Importar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
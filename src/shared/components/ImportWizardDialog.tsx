@@ -0,0 +1,359 @@
+// src/shared/components/ImportWizardDialog.tsx
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Separator,
+} from "@/shared/ui";
+import { toast } from "sonner";
+import { FileText, CheckCircle } from "lucide-react";
+import type {
+  CarLocation,
+  ImportConflictStrategy,
+  LocationImportPreview,
+  LocationImportReport,
+  UserPreferences,
+} from "@/types/location";
+import { getCarLocations, locationRepository } from "@/utils/storage";
+import { getUserPreferences } from "@/utils/preferences";
+import { LocationManager } from "@/utils/locationDefaults";
+import { timerManager } from "@/utils/timerManager";
+import { backupBeforeChange } from "@/utils/backupScheduler";
+import { encryptionVault } from "@/utils/encryption";
+import { Formatters } from "@/utils/formatters";
+import { IMPORT_STRATEGIES, type ParsedImportFile } from "@/utils/importPlan";
+
+interface ImportWizardDialogProps {
+  file: ParsedImportFile | null;
+  onClose: () => void;
+  onImported?: () => void;
+  onPreferencesImported: (preferences: Partial<UserPreferences>) => void;
+}
+
+interface ImportWizardReport extends LocationImportReport {
+  preferences: number;
+  preferredLocation: boolean;
+}
+
+const FIELD_LABELS: Partial<Record<keyof CarLocation, string>> = {
+  latitude: "Latitud",
+  longitude: "Longitud",
+  address: "Dirección",
+  addressDetails: "Dirección",
+  geocodeStatus: "Dirección",
+  timestamp: "Fecha",
+  note: "Nota",
+  photos: "Fotos",
+  parkingType: "Tipo",
+  expiryTime: "Caducidad",
+  cost: "Coste",
+  tariffId: "Tarifa",
+  reminderOffsets: "Avisos",
+  extensionCount: "Prórrogas",
+  accuracy: "Precisión",
+  updatedAt: "Última edición",
+  deletedAt: "Papelera",
+};
+
+const PREFERENCE_LABELS: Partial<Record<keyof UserPreferences, string>> = {
+  theme: "Tema",
+  sortBy: "Orden del historial",
+  showAll: "Mostrar todas",
+  saveMapType: "Mapa al guardar",
+  mapType: "Tipo de mapa",
+  autoSave: "Guardado automático",
+  notifications: "Notificaciones",
+  defaultReminderOffsets: "Avisos antes de expirar",
+  maxPhotos: "Máximo de fotos",
+  photoQuality: "Calidad de foto",
+  trashRetentionDays: "Días en la papelera",
+  geocodeCachePrecision: "Precisión de la caché de direcciones",
+  geocodeCacheTtlDays: "Caducidad de la caché de direcciones",
+  geocodingProvider: "Proveedor de direcciones",
+  geocodingBaseUrl: "Servidor de direcciones",
+  backupFrequency: "Copias automáticas",
+  backupKeepCount: "Copias que se conservan",
+  tariffProfiles: "Tarifas",
+};
+
+const getChangedPreferences = (preferences: Partial<UserPreferences> | null): (keyof UserPreferences)[] => {
+  if (!preferences) return [];
+  const current = getUserPreferences();
+  return (Object.keys(preferences) as (keyof UserPreferences)[]).filter(
+    (key) => JSON.stringify(preferences[key]) !== JSON.stringify(current[key])
+  );
+};
+
+const describeFields = (fields: (keyof CarLocation)[]): string =>
+  [...new Set(fields.map((field) => FIELD_LABELS[field] ?? field))].join(", ");
+
+export const ImportWizardDialog: React.FC<ImportWizardDialogProps> = ({
+  file,
+  onClose,
+  onImported,
+  onPreferencesImported,
+}) => {
+  const [preview, setPreview] = useState<LocationImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>("merge");
+  const [overrides, setOverrides] = useState<Record<string, ImportConflictStrategy>>({});
+  const [includeNearDuplicates, setIncludeNearDuplicates] = useState(false);
+  const [selectedPreferences, setSelectedPreferences] = useState<(keyof UserPreferences)[]>([]);
+  const [importPreferredLocation, setImportPreferredLocation] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportWizardReport | null>(null);
+
+  const changedPreferences = getChangedPreferences(file?.preferences ?? null);
+
+  useEffect(() => {
+    setPreview(null);
+    setReport(null);
+    setOverrides({});
+    setIncludeNearDuplicates(false);
+    if (!file) return;
+
+    setSelectedPreferences(getChangedPreferences(file.preferences));
+    setImportPreferredLocation(!!file.preferredLocation);
+
+    locationRepository
+      .previewImport(file.records)
+      .then(setPreview)
+      .catch((error) => {
+        console.error("Error previewing import:", error);
+        toast.error("No se pudo analizar el archivo");
+      });
+  }, [file]);
+
+  const handleClose = () => {
+    if (isImporting) return;
+    onClose();
+  };
+
+  const togglePreference = (key: keyof UserPreferences) => {
+    setSelectedPreferences((prev) => (prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]));
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
+    setIsImporting(true);
+    try {
+      await backupBeforeChange("beforeImport");
+      const result = await locationRepository.applyImport(file.records, {
+        strategy,
+        overrides,
+        includeNearDuplicates,
+      });
+
+      if (file.preferences && selectedPreferences.length > 0) {
+        const preferences = file.preferences;
+        onPreferencesImported(Object.fromEntries(selectedPreferences.map((key) => [key, preferences[key]])));
+      }
+
+      const preferred = file.preferredLocation;
+      const preferredImported =
+        importPreferredLocation &&
+        !!preferred &&
+        typeof preferred.latitude === "number" &&
+        typeof preferred.longitude === "number";
+      if (preferredImported) {
+        LocationManager.saveUserPreferredLocation(
+          preferred.latitude as number,
+          preferred.longitude as number,
+          String(preferred.name ?? ""),
+          typeof preferred.address === "string" ? preferred.address : undefined,
+          preferred.isDefault !== false
+        );
+      }
+
+      if (file.lastKnownLocation) {
+        encryptionVault.setItem("user-last-known-location", JSON.stringify(file.lastKnownLocation));
+      }
+
+      const locations = await getCarLocations();
+      await timerManager.syncWithSavedLocations(locations);
+      onImported?.();
+
+      setReport({ ...result, preferences: selectedPreferences.length, preferredLocation: preferredImported });
+    } catch (error) {
+      console.error("Error importing data:", error);
+      toast.error(error instanceof Error ? error.message : "Error al importar el archivo");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const counts = preview
+    ? [
+        { label: "Nuevas", value: preview.added.length },
+        { label: "Idénticas", value: preview.identical.length },
+        { label: "En conflicto", value: preview.conflicts.length },
+        { label: "Parecidas", value: preview.nearDuplicates.length },
+        { label: "No válidas", value: preview.invalid.length },
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {report ? <CheckCircle className="w-5 h-5" /> : <FileText className="w-5 h-5" />}
+            {report ? "Importación completada" : "Importar datos"}
+          </DialogTitle>
+          <DialogDescription>
+            {report ? "Resumen de los cambios aplicados." : "Revisa qué cambiará antes de importar."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <ul className="space-y-1 text-sm">
+            <li>{report.added} ubicaciones nuevas</li>
+            <li>{report.updated} ubicaciones actualizadas</li>
+            <li>{report.identical} ya estaban guardadas</li>
+            {report.nearDuplicatesSkipped > 0 && <li>{report.nearDuplicatesSkipped} parecidas omitidas</li>}
+            {report.invalid > 0 && <li>{report.invalid} no válidas en cuarentena</li>}
+            {report.overLimit > 0 && <li>{report.overLimit} nuevas omitidas por el límite de ubicaciones</li>}
+            {report.preferences > 0 && <li>{report.preferences} preferencias importadas</li>}
+            {report.preferredLocation && <li>Ubicación preferida importada</li>}
+          </ul>
+        ) : !preview ? (
+          <p className="text-sm text-muted-foreground">Analizando el archivo...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-5 gap-2 text-center">
+              {counts.map(({ label, value }) => (
+                <div key={label} className="p-2 bg-muted rounded-lg">
+                  <p className="text-lg font-semibold">{value}</p>
+                  <p className="text-[10px] text-muted-foreground leading-tight">{label}</p>
+                </div>
+              ))}
+            </div>
+
+            {preview.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm">Ubicaciones en conflicto</Label>
+                <Select value={strategy} onValueChange={(value: ImportConflictStrategy) => setStrategy(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[9999]">
+                    {(Object.keys(IMPORT_STRATEGIES) as ImportConflictStrategy[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {IMPORT_STRATEGIES[key].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{IMPORT_STRATEGIES[strategy].description}</p>
+
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {preview.conflicts.map(({ current, fields }) => (
+                    <div
+                      key={current.id}
+                      className="grid grid-cols-[1fr_auto] items-center gap-2 p-2 border rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">
+                          {current.address || Formatters.formatCoordinates(current.latitude, current.longitude)}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {Formatters.formatDateTime(current.timestamp).full} · {describeFields(fields)}
+                        </p>
+                      </div>
+                      <Select
+                        value={overrides[current.id] ?? strategy}
+                        onValueChange={(value: ImportConflictStrategy) =>
+                          setOverrides((prev) => ({ ...prev, [current.id]: value }))
+                        }
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="z-[9999]">
+                          {(Object.keys(IMPORT_STRATEGIES) as ImportConflictStrategy[]).map((key) => (
+                            <SelectItem key={key} value={key}>
+                              {IMPORT_STRATEGIES[key].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.nearDuplicates.length > 0 && (
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={includeNearDuplicates}
+                  onChange={(e) => setIncludeNearDuplicates(e.target.checked)}
+                />
+                Importar también las {preview.nearDuplicates.length} parecidas a otras ya guardadas
+              </label>
+            )}
+
+            {(changedPreferences.length > 0 || file?.preferredLocation) && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label className="text-sm">Ajustes del archivo</Label>
+                  {changedPreferences.map((key) => (
+                    <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={selectedPreferences.includes(key)}
+                        onChange={() => togglePreference(key)}
+                      />
+                      {PREFERENCE_LABELS[key] ?? key}
+                    </label>
+                  ))}
+                  {file?.preferredLocation && (
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={importPreferredLocation}
+                        onChange={(e) => setImportPreferredLocation(e.target.checked)}
+                      />
+                      Ubicación preferida
+                    </label>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={onClose}>Cerrar</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+                Cancelar
+              </Button>
+              <Button onClick={handleImport} disabled={!preview || isImporting}>
+                {isImporting ? "Importando..." : "Importar"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,169 @@
+// src/shared/components/LocationHistoryDialog.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Badge,
+  Alert,
+  AlertDescription,
+} from "@/shared/ui";
+import { toast } from "sonner";
+import { History, Undo2, Redo2, RotateCcw, CheckCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LocationJournalEntry } from "@/types/location";
+import { getCarLocations, locationRepository } from "@/utils/storage";
+import { timerManager } from "@/utils/timerManager";
+
+interface LocationHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+const actionLabels: Record<LocationJournalEntry["action"], string> = {
+  save: "Guardado",
+  update: "Edición",
+  delete: "Borrado",
+  restore: "Restauración",
+  import: "Importación",
+  clearAll: "Borrado total",
+  repair: "Reparación",
+};
+
+export const LocationHistoryDialog: React.FC<LocationHistoryDialogProps> = ({ isOpen, onClose, onChanged }) => {
+  const [entries, setEntries] = useState<LocationJournalEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setEntries(await locationRepository.getHistory());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadHistory();
+  }, [isOpen, loadHistory]);
+
+  const runHistoryAction = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    try {
+      const message = await action();
+      if (message) {
+        // Los temporizadores deben reflejar las ubicaciones restauradas
+        const locations = await getCarLocations();
+        await timerManager.syncWithSavedLocations(locations);
+
+        toast.success(message);
+        onChanged?.();
+      }
+      await loadHistory();
+    } catch (error) {
+      console.error("Error applying history action:", error);
+      toast.error(error instanceof Error ? error.message : "No se pudo aplicar el cambio");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUndo = () =>
+    runHistoryAction(async () => {
+      const entry = await locationRepository.undo();
+      return entry ? `Deshecho: ${entry.description}` : null;
+    });
+
+  const handleRedo = () =>
+    runHistoryAction(async () => {
+      const entry = await locationRepository.redo();
+      return entry ? `Rehecho: ${entry.description}` : null;
+    });
+
+  const handleRestore = (seq: number) =>
+    runHistoryAction(async () => {
+      const applied = await locationRepository.restoreToPoint(seq);
+      return applied > 0 ? "Datos restaurados al punto seleccionado" : null;
+    });
+
+  const canUndo = entries.some((entry) => !entry.undone);
+  const canRedo = entries.some((entry) => entry.undone);
+  const oldestSeq = entries.length > 0 ? entries[entries.length - 1].seq! : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Historial de cambios
+          </DialogTitle>
+          <DialogDescription>
+            Deshaz los últimos cambios o vuelve a cualquier punto del historial.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={handleUndo} disabled={isBusy || !canUndo}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Deshacer
+          </Button>
+          <Button variant="outline" onClick={handleRedo} disabled={isBusy || !canRedo}>
+            <Redo2 className="h-4 w-4 mr-2" />
+            Rehacer
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>Todavía no hay cambios registrados.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div
+                key={entry.seq}
+                className={cn(
+                  "flex items-center justify-between gap-2 p-3 border rounded-lg",
+                  entry.undone && "opacity-50"
+                )}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.undone ? "outline" : "secondary"}>{actionLabels[entry.action]}</Badge>
+                    {entry.undone && <span className="text-xs text-muted-foreground">Deshecho</span>}
+                  </div>
+                  <p className="text-sm font-medium truncate mt-1">{entry.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.changes.length}{" "}
+                    {entry.changes.length === 1 ? "ubicación" : "ubicaciones"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRestore(entry.seq!)}
+                  disabled={isBusy}
+                  title="Restaurar a este punto"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => handleRestore(oldestSeq - 1)}
+              disabled={isBusy || !canUndo}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restaurar al estado anterior al primer cambio
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,7 +4,9 @@ import { MapPin, Clock, Euro, Building, Car, ParkingSquare, Edit, Navigation, Tr
 import { StatusBadge } from "./StatusBadge";
 import { IconButton } from "./IconButton";
 import { Formatters } from "@/utils/formatters";
+import { AddressUtils } from "@/utils/addressUtils";
 import type { CarLocation } from "@/types/location";
+import { LazyImage } from "@/components/optimized/LazyImage";
 
 interface LocationInfoProps {
   location: CarLocation;
@@ -121,7 +123,7 @@ export const LocationInfo: React.FC<LocationInfoProps> = ({
         <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
         <div className="min-w-0 flex-1">
           <p className="truncate">
-            {location.address || Formatters.formatCoordinates(location.latitude, location.longitude)}
+            {AddressUtils.getDisplayAddress(location) || Formatters.formatCoordinates(location.latitude, location.longitude)}
           </p>
           {!compact && (
             <p className="text-xs mt-1">
@@ -158,11 +160,7 @@ export const LocationInfo: React.FC<LocationInfoProps> = ({
       {location.photos && location.photos.length > 0 && !compact && (
         <div className="flex gap-1">
           {location.photos.slice(0, 3).map((photo, index) => (
-            <div
-              key={index}
-              className="w-12 h-12 rounded border bg-cover bg-center"
-              style={{ backgroundImage: `url(${photo})` }}
-            />
+            <LazyImage key={index} src={photo} variant="thumbnail" alt="" className="w-12 h-12 rounded border" />
           ))}
           {location.photos.length > 3 && (
             <div className="w-12 h-12 rounded border bg-muted flex items-center justify-center text-xs">
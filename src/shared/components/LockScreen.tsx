@@ -0,0 +1,75 @@
+// src/shared/components/LockScreen.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input, Label } from "@/shared/ui";
+import { Lock } from "lucide-react";
+import { encryptionVault } from "@/utils/encryption";
+import { initializeTheme } from "@/utils/preferences";
+
+/**
+ * Pantalla de desbloqueo cuando los datos están cifrados. Mientras se muestra
+ * no hay ubicaciones en memoria; los temporizadores siguen funcionando.
+ */
+export const LockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    initializeTheme();
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const unlocked = await encryptionVault.unlock(passphrase);
+      if (!unlocked) {
+        setError("Contraseña incorrecta");
+        setPassphrase("");
+      }
+    } catch (unlockError) {
+      console.error("Error unlocking data:", unlockError);
+      setError("No se pudieron descifrar los datos");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>Aparky está bloqueada</CardTitle>
+          <CardDescription>Introduce tu contraseña para ver tus ubicaciones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="unlock-passphrase">Contraseña</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoComplete="current-password"
+                value={passphrase}
+                onChange={(event) => setPassphrase(event.target.value)}
+                autoFocus
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? "Desbloqueando..." : "Desbloquear"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
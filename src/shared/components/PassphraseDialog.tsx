@@ -0,0 +1,143 @@
+// src/shared/components/PassphraseDialog.tsx
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Label,
+  Alert,
+  AlertDescription,
+} from "@/shared/ui";
+import { AlertTriangle, KeyRound } from "lucide-react";
+import { MIN_PASSPHRASE_LENGTH } from "@/utils/encryption";
+
+interface PassphraseDialogProps {
+  isOpen: boolean;
+  /** "create" pide la contraseña dos veces y exige la longitud mínima */
+  mode: "create" | "enter";
+  title: string;
+  description: string;
+  confirmLabel: string;
+  warning?: string;
+  onClose: () => void;
+  /** Si lanza un error, se muestra en el diálogo */
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+export const PassphraseDialog: React.FC<PassphraseDialogProps> = ({
+  isOpen,
+  mode,
+  title,
+  description,
+  confirmLabel,
+  warning,
+  onClose,
+  onSubmit,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirmation("");
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (isBusy) return;
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (mode === "create") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Las contraseñas no coinciden");
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+      reset();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "No se pudo completar la operación");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              {title}
+            </DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Contraseña</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete={mode === "create" ? "new-password" : "current-password"}
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {mode === "create" && (
+            <div className="space-y-2">
+              <Label htmlFor="passphrase-confirmation">Repite la contraseña</Label>
+              <Input
+                id="passphrase-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(event) => setConfirmation(event.target.value)}
+              />
+            </div>
+          )}
+
+          {warning && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{warning}</AlertDescription>
+            </Alert>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isBusy}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isBusy || passphrase.length === 0}>
+              {isBusy ? "Procesando..." : confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
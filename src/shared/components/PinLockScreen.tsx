@@ -0,0 +1,94 @@
+// src/shared/components/PinLockScreen.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input } from "@/shared/ui";
+import { LockKeyhole } from "lucide-react";
+import { appLock } from "@/utils/appLock";
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds} s`;
+};
+
+/**
+ * Capa que pide el PIN por encima de la app. La app sigue montada debajo
+ * (temporizadores incluidos), pero no se puede usar hasta desbloquearla.
+ */
+export const PinLockScreen: React.FC = () => {
+  const [pin, setPin] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [retryInMs, setRetryInMs] = useState(() => appLock.getRetryDelay());
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (retryInMs <= 0) return;
+
+    const interval = setInterval(() => setRetryInMs(appLock.getRetryDelay()), 1000);
+    return () => clearInterval(interval);
+  }, [retryInMs]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pin || retryInMs > 0) return;
+
+    setIsChecking(true);
+    try {
+      const result = await appLock.unlock(pin);
+      if (result.ok) return;
+
+      setPin("");
+      setRetryInMs(result.retryInMs);
+      setMessage(
+        result.attemptsLeft > 0
+          ? `PIN incorrecto. Quedan ${result.attemptsLeft} intentos.`
+          : "Demasiados intentos fallidos."
+      );
+    } catch (error) {
+      console.error("Error checking PIN:", error);
+      setMessage("No se pudo comprobar el PIN");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const isWaiting = retryInMs > 0;
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-background/80 backdrop-blur-sm p-4">
+      <Card className="w-full max-w-xs">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <LockKeyhole className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>Introduce tu PIN</CardTitle>
+          <CardDescription>Aparky está bloqueada</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              value={pin}
+              onChange={(event) => setPin(event.target.value.replace(/\D/g, ""))}
+              className="text-center text-2xl tracking-[0.5em]"
+              disabled={isWaiting}
+              autoFocus
+            />
+
+            {message && <p className="text-sm text-center text-destructive">{message}</p>}
+            {isWaiting && (
+              <p className="text-sm text-center text-muted-foreground">
+                Vuelve a intentarlo en {formatWait(retryInMs)}
+              </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isChecking || isWaiting || pin.length < 4}>
+              {isChecking ? "Comprobando..." : "Desbloquear"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+// src/shared/components/QuarantineRepairDialog.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Button,
+  Input,
+  Label,
+  Badge,
+  Card,
+  CardContent,
+  Alert,
+  AlertDescription,
+} from "@/shared/ui";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle, RefreshCw, Trash2, Wrench, Clock } from "lucide-react";
+import type { QuarantinedLocation } from "@/types/location";
+import { locationRepository } from "@/utils/storage";
+import { LocationUtils } from "@/utils/locationUtils";
+
+interface QuarantineRepairDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRepaired?: () => void;
+}
+
+const sourceLabels: Record<QuarantinedLocation["source"], string> = {
+  storage: "Almacenamiento",
+  migration: "Migración",
+  import: "Importación",
+};
+
+const toInputValue = (value: unknown): string => {
+  return typeof value === "number" || typeof value === "string" ? String(value) : "";
+};
+
+const QuarantineEntryCard: React.FC<{
+  entry: QuarantinedLocation;
+  onRepair: (entry: QuarantinedLocation, record: Record<string, unknown>) => Promise<void>;
+  onDiscard: (entry: QuarantinedLocation) => Promise<void>;
+}> = ({ entry, onRepair, onDiscard }) => {
+  const [id, setId] = useState(toInputValue(entry.record.id));
+  const [latitude, setLatitude] = useState(toInputValue(entry.record.latitude));
+  const [longitude, setLongitude] = useState(toInputValue(entry.record.longitude));
+  const [timestamp, setTimestamp] = useState(entry.record.timestamp);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const hasInvalidDate = typeof timestamp !== "number" || isNaN(timestamp);
+  const label =
+    (typeof entry.record.note === "string" && entry.record.note) ||
+    (typeof entry.record.address === "string" && entry.record.address) ||
+    "Registro sin nota";
+
+  const handleRepair = async () => {
+    setIsBusy(true);
+    try {
+      await onRepair(entry, {
+        ...entry.record,
+        id: id.trim(),
+        latitude: latitude.trim() === "" ? undefined : Number(latitude),
+        longitude: longitude.trim() === "" ? undefined : Number(longitude),
+        timestamp,
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsBusy(true);
+    try {
+      await onDiscard(entry);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{label}</p>
+            <p className="text-xs text-muted-foreground">
+              {sourceLabels[entry.source]} · {new Date(entry.quarantinedAt).toLocaleString()}
+            </p>
+          </div>
+          <Badge variant="destructive">{entry.reasons.length}</Badge>
+        </div>
+
+        <ul className="text-xs text-red-600 dark:text-red-400 space-y-1">
+          {entry.reasons.map((reason) => (
+            <li key={reason} className="flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {reason}
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Identificador</Label>
+          <div className="flex gap-2">
+            <Input value={id} onChange={(e) => setId(e.target.value)} className="text-xs" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setId(LocationUtils.generateLocationId())}
+              title="Regenerar identificador"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Latitud</Label>
+            <Input
+              type="number"
+              step="any"
+              value={latitude}
+              onChange={(e) => setLatitude(e.target.value)}
+              className="text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Longitud</Label>
+            <Input
+              type="number"
+              step="any"
+              value={longitude}
+              onChange={(e) => setLongitude(e.target.value)}
+              className="text-xs"
+            />
+          </div>
+        </div>
+
+        {hasInvalidDate && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setTimestamp(Date.now())}>
+            <Clock className="h-4 w-4 mr-2" />
+            Usar fecha actual
+          </Button>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" onClick={handleRepair} disabled={isBusy}>
+            <Wrench className="h-4 w-4 mr-2" />
+            Reparar
+          </Button>
+          <Button variant="destructive" size="sm" className="flex-1" onClick={handleDiscard} disabled={isBusy}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Descartar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const QuarantineRepairDialog: React.FC<QuarantineRepairDialogProps> = ({ isOpen, onClose, onRepaired }) => {
+  const [entries, setEntries] = useState<QuarantinedLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await locationRepository.getQuarantined());
+    } catch (error) {
+      console.error("Error loading quarantined locations:", error);
+      toast.error("No se pudieron cargar los registros en cuarentena");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadEntries();
+  }, [isOpen, loadEntries]);
+
+  const handleRepair = async (entry: QuarantinedLocation, record: Record<string, unknown>) => {
+    try {
+      const result = await locationRepository.repairQuarantined(entry.quarantineId, record);
+
+      if (result.repaired) {
+        toast.success("Registro reparado y restaurado");
+        onRepaired?.();
+      } else {
+        toast.error("El registro sigue sin ser válido", {
+          description: result.reasons.join(". "),
+        });
+      }
+
+      await loadEntries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo reparar el registro");
+    }
+  };
+
+  const handleDiscard = async (entry: QuarantinedLocation) => {
+    try {
+      await locationRepository.discardQuarantined(entry.quarantineId);
+      setEntries((prev) => prev.filter((item) => item.quarantineId !== entry.quarantineId));
+      toast.success("Registro descartado");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo descartar el registro");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Reparar registros
+          </DialogTitle>
+          <DialogDescription>
+            Estas ubicaciones no superaron la validación y se apartaron para no perderlas. Corrige los datos o
+            descártalas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Cargando registros...</p>
+        ) : entries.length === 0 ? (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>No hay registros pendientes de reparar.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <QuarantineEntryCard
+                key={`${entry.quarantineId}-${entry.reasons.join("|")}`}
+                entry={entry}
+                onRepair={handleRepair}
+                onDiscard={handleDiscard}
+              />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,11 +1,49 @@
 // src/shared/components/Settings.tsx
-import React, { useState } from "react";
-import type { UserPreferences } from "@/types/location";
+import React, { useCallback, useEffect, useState } from "react";
+import type { CarLocation, UserPreferences } from "@/types/location";
 import { getUserPreferences, saveUserPreferences } from "@/utils/preferences";
+import { clearAddressCache, clearAllLocations, getCarLocations, locationRepository } from "@/utils/storage";
+import { geocodeCache, type GeocodeCacheStats } from "@/utils/geocodeCache";
+import { geocodingProviders } from "@/utils/geocoding";
+import {
+  exportLocationsToFile,
+  LOCATION_FILE_ACCEPT,
+  LOCATION_FILE_FORMATS,
+  parseLocationFile,
+  type LocationFileFormat,
+} from "@/utils/locationFormats";
+import { downloadFile } from "@/utils/helpers";
+import { getCurrentSchemaVersions } from "@/utils/schema";
+import { parseImportFile, type ParsedImportFile } from "@/utils/importPlan";
 import { useTheme } from "@/shared/ui/theme-provider";
 import { ConfirmationDialog, ResetConfirmationDialog } from "@/shared/components/ConfirmationDialog";
 import { LocationManager, LocationPreferenceSettings } from "@/utils/locationDefaults";
+import { timerManager } from "@/utils/timerManager";
+import type { TimerDeliveryMode } from "@/utils/timerDelivery";
+import { formatReminderOffsets } from "@/utils/reminders";
+import { ensureNotificationPermission } from "@/utils/timerNotifications";
+import { ReminderOffsetsPicker } from "@/features/parking";
 import { OfflineMapManager } from "@/components/OfflineMapManager";
+import { AutoBackupManager } from "@/components/AutoBackupManager";
+import { backupBeforeChange } from "@/utils/backupScheduler";
+import { QuarantineRepairDialog } from "@/shared/components/QuarantineRepairDialog";
+import { LocationHistoryDialog } from "@/shared/components/LocationHistoryDialog";
+import { CsvExportDialog } from "@/shared/components/CsvExportDialog";
+import { CsvImportDialog } from "@/shared/components/CsvImportDialog";
+import { BackupRestoreDialog } from "@/shared/components/BackupRestoreDialog";
+import { ImportWizardDialog } from "@/shared/components/ImportWizardDialog";
+import { PassphraseDialog } from "@/shared/components/PassphraseDialog";
+import { EncryptionManager } from "@/components/EncryptionManager";
+import { AppLockManager } from "@/components/AppLockManager";
+import { TariffManager } from "@/components/TariffManager";
+import {
+  decryptFile,
+  encryptFile,
+  encryptionVault,
+  ENCRYPTED_FILE_EXTENSION,
+  isEncryptedFile,
+} from "@/utils/encryption";
+import { applyBackupRestore, createBackupArchive, prepareBackupRestore, type PreparedBackup } from "@/utils/backup";
 import {
   Sheet,
   SheetContent,
@@ -60,20 +98,104 @@ import {
   Car,
   Heart,
   PartyPopper,
+  Wrench,
+  History,
+  Route,
+  FileSpreadsheet,
+  Archive,
+  ArchiveRestore,
+  FileLock,
+  ShieldCheck,
+  Euro,
 } from "lucide-react";
 
+const DELIVERY_MODE_LABELS: Record<TimerDeliveryMode, string> = {
+  triggers: "Programados en el sistema",
+  "periodic-sync": "Revisión periódica en segundo plano",
+  "catch-up": "Al volver a abrir el navegador",
+  page: "Solo con la app abierta",
+};
+
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
   onPreferencesChange: (preferences: UserPreferences) => void;
+  onLocationsChanged?: () => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChange }) => {
+const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChange, onLocationsChanged }) => {
   const [preferences, setPreferences] = useState<UserPreferences>(getUserPreferences());
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [includePhotoFilenames, setIncludePhotoFilenames] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ParsedImportFile | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<PreparedBackup | null>(null);
+  const [showEncryptedExport, setShowEncryptedExport] = useState(false);
+  const [encryptedBackup, setEncryptedBackup] = useState<Blob | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [savedLocations, setSavedLocations] = useState<CarLocation[]>([]);
+  const [quarantineCount, setQuarantineCount] = useState(0);
+  const [showRepairDialog, setShowRepairDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [geocodeStats, setGeocodeStats] = useState<GeocodeCacheStats>({ entries: 0, hits: 0 });
+  const [deliveryMode, setDeliveryMode] = useState<TimerDeliveryMode>(timerManager.getDeliveryMode());
   const { setTheme } = useTheme();
 
+  const loadStoredData = useCallback(async () => {
+    try {
+      const [locations, quarantined, cacheStats] = await Promise.all([
+        getCarLocations(),
+        locationRepository.countQuarantined(),
+        geocodeCache.getStats(),
+      ]);
+      setSavedLocations(locations);
+      setQuarantineCount(quarantined);
+      setGeocodeStats(cacheStats);
+    } catch (error) {
+      console.error("Error loading locations for settings:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadStoredData();
+  }, [isOpen, loadStoredData]);
+
+  useEffect(() => {
+    if (isOpen) timerManager.refreshDeliveryMode().then(setDeliveryMode);
+  }, [isOpen]);
+
+  const handleNotificationsChange = async (checked: boolean) => {
+    handleChange("notifications", checked);
+    if (checked) await ensureNotificationPermission();
+    setDeliveryMode(await timerManager.refreshDeliveryMode());
+  };
+
+  const handleRepairDialogClose = () => {
+    setShowRepairDialog(false);
+    loadStoredData();
+  };
+
+  const handleLocationRepaired = () => {
+    onLocationsChanged?.();
+  };
+
+  const handleClearAddressCache = async () => {
+    try {
+      await clearAddressCache();
+      setGeocodeStats({ entries: 0, hits: 0 });
+      toast.success("Caché de direcciones vaciada");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo vaciar la caché");
+    }
+  };
+
+  const handleHistoryChanged = () => {
+    loadStoredData();
+    onLocationsChanged?.();
+  };
+
   const [resetDialog, setResetDialog] = useState({
     isOpen: false,
     isResetting: false,
@@ -107,6 +229,58 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
     }
   };
 
+  const exportLocationFile = async (format: LocationFileFormat) => {
+    setIsExporting(true);
+    try {
+      const locations = await getCarLocations();
+      if (locations.length === 0) {
+        toast.error("No hay datos para exportar");
+        return;
+      }
+
+      exportLocationsToFile(locations, format, { includePhotoFilenames });
+      toast.success(`${locations.length} ubicaciones exportadas a ${LOCATION_FILE_FORMATS[format].label}`);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+      toast.error("Error al exportar los datos");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const importLocationFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { format, records } = await parseLocationFile(file.name, await file.text());
+      const label = LOCATION_FILE_FORMATS[format].label;
+      await backupBeforeChange("beforeImport");
+      const result = await locationRepository.merge(records, label);
+
+      const locations = await getCarLocations();
+      await timerManager.syncWithSavedLocations(locations);
+      handleHistoryChanged();
+
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} repetidas omitidas` : "",
+        result.overLimit > 0 ? `${result.overLimit} omitidas por el límite de ubicaciones` : "",
+        result.invalid > 0 ? `${result.invalid} no válidas en cuarentena` : "",
+      ].filter(Boolean);
+
+      toast.success(`Se importaron ${result.imported} ubicaciones del ${label}`, {
+        description: skipped.length > 0 ? skipped.join(" · ") : undefined,
+      });
+    } catch (error) {
+      console.error("Error importing location file:", error);
+      toast.error(error instanceof Error ? error.message : "Error al importar el archivo");
+    } finally {
+      event.target.value = "";
+      setIsImporting(false);
+    }
+  };
+
   const handleLocationPreferenceSet = (lat: number, lng: number, name: string) => {
     toast.success(`Ubicación preferida establecida: ${name}`);
     toast.info(`Coordenadas: ${lat.toFixed(4)}, ${lng.toFixed(4)}`);
@@ -115,34 +289,31 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
   const exportData = async () => {
     setIsExporting(true);
     try {
-      const locations = localStorage.getItem("car-locations");
+      const locations = await locationRepository.getAllWithInlinePhotos();
       const preferences = localStorage.getItem("user-preferences");
-      const locationPrefs = localStorage.getItem("user-preferred-default-location");
-      const lastKnownLocation = localStorage.getItem("user-last-known-location");
+      const locationPrefs = encryptionVault.getItem("user-preferred-default-location");
+      const lastKnownLocation = encryptionVault.getItem("user-last-known-location");
 
-      if (!locations) {
+      if (locations.length === 0) {
         toast.error("No hay datos para exportar");
         return;
       }
 
       const exportData = {
-        locations: JSON.parse(locations),
+        locations,
         preferences: preferences ? JSON.parse(preferences) : {},
         locationPreferences: locationPrefs ? JSON.parse(locationPrefs) : null,
         lastKnownLocation: lastKnownLocation ? JSON.parse(lastKnownLocation) : null,
         exportDate: new Date().toISOString(),
         version: "2.0",
+        schemaVersions: getCurrentSchemaVersions(),
       };
 
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `car-locations-backup-${new Date().toISOString().split("T")[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(
+        JSON.stringify(exportData, null, 2),
+        `car-locations-backup-${new Date().toISOString().split("T")[0]}.json`,
+        "application/json"
+      );
 
       toast.success("Datos exportados correctamente");
     } catch (error) {
@@ -153,52 +324,78 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
     }
   };
 
-  const importData = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const exportBackup = async () => {
+    setIsExporting(true);
+    try {
+      const archive = await createBackupArchive();
+      downloadFile(archive, `aparky-copia-${new Date().toISOString().split("T")[0]}.zip`, "application/zip");
+      toast.success("Copia de seguridad creada");
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      toast.error(error instanceof Error ? error.message : "Error al crear la copia de seguridad");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportEncryptedBackup = async (passphrase: string) => {
+    const archive = await createBackupArchive();
+    downloadFile(
+      await encryptFile(archive, passphrase),
+      `aparky-copia-${new Date().toISOString().split("T")[0]}.${ENCRYPTED_FILE_EXTENSION}`,
+      "application/octet-stream"
+    );
+    setShowEncryptedExport(false);
+    toast.success("Copia cifrada creada");
+  };
+
+  const selectBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = "";
     if (!file) return;
 
-    setIsImporting(true);
-    try {
-      const text = await file.text();
-      const data = JSON.parse(text);
+    await openBackup(file);
+  };
 
-      if (!data.locations && !Array.isArray(data)) {
-        throw new Error("Formato de archivo inválido");
+  const openBackup = async (backup: Blob) => {
+    try {
+      let archive: Blob | null = backup;
+      if (await isEncryptedFile(backup)) {
+        // Las copias automáticas cifradas se abren con la clave actual
+        archive = await encryptionVault.decryptFile(backup);
+        if (!archive) {
+          setEncryptedBackup(backup);
+          return;
+        }
       }
 
-      const locations = data.locations || data;
-      const importedPreferences = data.preferences || {};
-
-      // Guardar ubicaciones
-      localStorage.setItem("car-locations", JSON.stringify(locations));
+      setPendingBackup(await prepareBackupRestore(archive));
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      toast.error(error instanceof Error ? error.message : "No se pudo leer la copia de seguridad");
+    }
+  };
 
-      // Importar preferencias si existen
-      if (Object.keys(importedPreferences).length > 0) {
-        const currentPrefs = getUserPreferences();
-        const mergedPrefs = { ...currentPrefs, ...importedPreferences };
-        saveUserPreferences(mergedPrefs);
-        setPreferences(mergedPrefs);
-        onPreferencesChange(mergedPrefs);
+  const openEncryptedBackup = async (passphrase: string) => {
+    if (!encryptedBackup) return;
 
-        if (importedPreferences.theme) {
-          setTheme(importedPreferences.theme);
-        }
-      }
+    const decrypted = await decryptFile(encryptedBackup, passphrase);
+    setEncryptedBackup(null);
+    await openBackup(decrypted);
+  };
 
-      // Importar ubicación preferida si existe
-      if (data.locationPreferences) {
-        localStorage.setItem("user-preferred-default-location", JSON.stringify(data.locationPreferences));
-      }
+  const restoreBackup = async () => {
+    if (!pendingBackup) return;
 
-      // Importar última ubicación conocida si existe
-      if (data.lastKnownLocation) {
-        localStorage.setItem("user-last-known-location", JSON.stringify(data.lastKnownLocation));
-      }
+    setIsRestoring(true);
+    try {
+      await backupBeforeChange("beforeRestore");
+      const restoredCount = await applyBackupRestore(pendingBackup);
+      setPendingBackup(null);
 
-      // 🔥 NUEVO: Toast mejorado con auto-reload
-      toast.success(`Importación completada exitosamente`, {
+      toast.success("Copia restaurada", {
         icon: <PartyPopper className="w-4 h-4" />,
-        description: `Se importaron ${locations.length} ubicaciones. La página se recargará automáticamente.`,
+        description: `Se restauraron ${restoredCount} ubicaciones. La página se recargará automáticamente.`,
         duration: 6000,
         action: {
           label: "Recargar ahora",
@@ -206,27 +403,44 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
         },
       });
 
-      // Limpiar el input file
-      event.target.value = "";
-
-      // 🔥 NUEVO: Auto-reload después de 2.5 segundos
       setTimeout(() => {
-        console.log("🔄 Auto-recargando página después de importación...");
+        console.log("🔄 Auto-recargando página después de restaurar la copia...");
         window.location.reload();
       }, 2500);
     } catch (error) {
-      console.error("Error importing data:", error);
-      toast.error("Error al importar el archivo. Verifica que sea un archivo válido.");
-
-      // Limpiar el input file incluso si hay error
-      event.target.value = "";
+      console.error("Error restoring backup:", error);
+      toast.error(error instanceof Error ? error.message : "Error al restaurar la copia");
     } finally {
-      setIsImporting(false);
+      setIsRestoring(false);
+    }
+  };
+
+  const importData = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setPendingImport(parseImportFile(await file.text()));
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(error instanceof Error ? error.message : "Error al leer el archivo");
+    }
+  };
+
+  const handlePreferencesImported = (importedPreferences: Partial<UserPreferences>) => {
+    const mergedPrefs = { ...getUserPreferences(), ...importedPreferences };
+    saveUserPreferences(mergedPrefs);
+    setPreferences(mergedPrefs);
+    onPreferencesChange(mergedPrefs);
+
+    if (importedPreferences.theme) {
+      setTheme(importedPreferences.theme);
     }
   };
 
-  const handleDeleteAllClick = () => {
-    const locationCount = JSON.parse(localStorage.getItem("car-locations") || "[]").length;
+  const handleDeleteAllClick = async () => {
+    const locationCount = await locationRepository.count();
 
     if (locationCount === 0) {
       toast.error("No hay datos para eliminar");
@@ -243,15 +457,16 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
   const handleConfirmDeleteAll = async () => {
     try {
       setDeleteAllDialog((prev) => ({ ...prev, isDeleting: true }));
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      localStorage.removeItem("car-locations");
-      localStorage.removeItem("user-last-known-location");
-      localStorage.removeItem("user-preferred-default-location");
+      await backupBeforeChange("beforeClear");
+      await clearAllLocations();
+      timerManager.cancelAllTimers();
+      encryptionVault.removeItem("user-last-known-location");
+      encryptionVault.removeItem("user-preferred-default-location");
       localStorage.removeItem("user-preferences");
 
       toast.success("Todos los datos eliminados correctamente", {
         icon: <Trash2 className="w-4 h-4" />,
-        description: `Se eliminaron ${deleteAllDialog.locationCount} ubicaciones y toda la configuración.`,
+        description: `${deleteAllDialog.locationCount} ubicaciones movidas a la papelera y configuración restablecida.`,
         duration: 8000,
         action: {
           label: "Recargar",
@@ -286,10 +501,10 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
   const handleConfirmReset = async () => {
     try {
       setResetDialog((prev) => ({ ...prev, isResetting: true }));
-      await new Promise((resolve) => setTimeout(resolve, 800));
+      await backupBeforeChange("beforeReset");
 
       localStorage.removeItem("user-preferences");
-      localStorage.removeItem("user-preferred-default-location");
+      encryptionVault.removeItem("user-preferred-default-location");
 
       const defaultPrefs = getUserPreferences();
       setPreferences(defaultPrefs);
@@ -331,21 +546,19 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
   };
 
   const getDataStats = () => {
-    const locations = JSON.parse(localStorage.getItem("car-locations") || "[]");
-    const dataSize = new Blob([JSON.stringify(locations)]).size;
+    const dataSize = new Blob([JSON.stringify(savedLocations)]).size;
     return {
-      count: locations.length,
+      count: savedLocations.length,
       size: dataSize < 1024 ? `${dataSize} B` : `${(dataSize / 1024).toFixed(1)} KB`,
     };
   };
 
   const getStorageDetails = () => {
-    const locations = JSON.parse(localStorage.getItem("car-locations") || "[]");
-    const photosCount = locations.reduce((acc: number, loc: any) => acc + (loc.photos?.length || 0), 0);
-    const timersCount = locations.filter((loc: any) => loc.expiryTime).length;
+    const photosCount = savedLocations.reduce((acc, loc) => acc + (loc.photos?.length || 0), 0);
+    const timersCount = savedLocations.filter((loc) => loc.expiryTime).length;
 
     return {
-      locations: locations.length,
+      locations: savedLocations.length,
       photos: photosCount,
       timers: timersCount,
     };
@@ -354,7 +567,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
   const getLocationInfo = () => {
     const preferredLocation = LocationManager.getUserPreferredLocation();
     const lastKnownLocation = LocationManager.getLastKnownLocation();
-    const locationSourceInfo = LocationManager.getLocationSourceInfo();
+    const locationSourceInfo = LocationManager.getLocationSourceInfo(savedLocations.length);
 
     return {
       preferredLocation,
@@ -590,6 +803,38 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Archive className="h-5 w-5" />
+                Copias de seguridad
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AutoBackupManager
+                frequency={preferences.backupFrequency}
+                keepCount={preferences.backupKeepCount}
+                onFrequencyChange={(value) => handleChange("backupFrequency", value)}
+                onKeepCountChange={(value) => handleChange("backupKeepCount", value)}
+                onRestore={openBackup}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Seguridad
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <AppLockManager />
+              <Separator />
+              <EncryptionManager />
+            </CardContent>
+          </Card>
+
           {/* Sección de Listado */}
           <Card>
             <CardHeader className="pb-3">
@@ -653,30 +898,42 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                 <Switch
                   id="notifications"
                   checked={preferences.notifications}
-                  onCheckedChange={(checked) => handleChange("notifications", checked)}
+                  onCheckedChange={handleNotificationsChange}
                 />
               </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="reminderMinutes">Recordatorio por defecto</Label>
-                <Select
-                  value={String(preferences.defaultReminderMinutes)}
-                  onValueChange={(value) => handleChange("defaultReminderMinutes", parseInt(value))}
-                >
-                  <SelectTrigger className="w-[120px]">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="z-[9999]">
-                    <SelectItem value="5">5 min</SelectItem>
-                    <SelectItem value="10">10 min</SelectItem>
-                    <SelectItem value="15">15 min</SelectItem>
-                    <SelectItem value="30">30 min</SelectItem>
-                    <SelectItem value="60">60 min</SelectItem>
-                  </SelectContent>
-                </Select>
+              {preferences.notifications && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Con la app cerrada</span>
+                  <span className="font-medium">{DELIVERY_MODE_LABELS[deliveryMode]}</span>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Recordatorios por defecto</Label>
+                <p className="text-xs text-muted-foreground">Minutos antes de expirar en los temporizadores nuevos</p>
+                <ReminderOffsetsPicker
+                  value={preferences.defaultReminderOffsets}
+                  onChange={(offsets) => handleChange("defaultReminderOffsets", offsets)}
+                />
               </div>
             </CardContent>
           </Card>
 
+          {/* Sección de Tarifas */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Euro className="h-5 w-5" />
+                Tarifas
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TariffManager
+                tariffs={preferences.tariffProfiles}
+                onChange={(tariffs) => handleChange("tariffProfiles", tariffs)}
+              />
+            </CardContent>
+          </Card>
+
           {/* Sección de Fotos */}
           <Card>
             <CardHeader className="pb-3">
@@ -743,6 +1000,117 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                 </div>
               </div>
 
+              <div className="flex items-center justify-between">
+                <Label htmlFor="trashRetentionDays">Vaciar papelera tras</Label>
+                <Select
+                  value={String(preferences.trashRetentionDays)}
+                  onValueChange={(value) => handleChange("trashRetentionDays", parseInt(value))}
+                >
+                  <SelectTrigger className="w-[120px]" id="trashRetentionDays">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[9999]">
+                    <SelectItem value="7">7 días</SelectItem>
+                    <SelectItem value="14">14 días</SelectItem>
+                    <SelectItem value="30">30 días</SelectItem>
+                    <SelectItem value="90">90 días</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="geocodingProvider">Servicio de direcciones</Label>
+                  <Select
+                    value={preferences.geocodingProvider}
+                    onValueChange={(value) => handleChange("geocodingProvider", value)}
+                  >
+                    <SelectTrigger className="w-[200px]" id="geocodingProvider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[9999]">
+                      {Object.values(geocodingProviders).map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="geocodingBaseUrl">Servidor propio (opcional)</Label>
+                  <Input
+                    id="geocodingBaseUrl"
+                    type="url"
+                    value={preferences.geocodingBaseUrl}
+                    onChange={(e) => handleChange("geocodingBaseUrl", e.target.value)}
+                    placeholder={geocodingProviders[preferences.geocodingProvider].defaultBaseUrl}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Caché de direcciones</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {encryptionVault.isEnabled()
+                        ? "Desactivada mientras el cifrado esté activo"
+                        : `${geocodeStats.entries} direcciones · ${geocodeStats.hits} consultas ahorradas`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleClearAddressCache}
+                    disabled={geocodeStats.entries === 0}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Vaciar
+                  </Button>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="geocodeCachePrecision">Precisión</Label>
+                  <Select
+                    value={String(preferences.geocodeCachePrecision)}
+                    onValueChange={(value) => handleChange("geocodeCachePrecision", parseInt(value))}
+                  >
+                    <SelectTrigger className="w-[120px]" id="geocodeCachePrecision">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[9999]">
+                      <SelectItem value="3">~100 m</SelectItem>
+                      <SelectItem value="4">~10 m</SelectItem>
+                      <SelectItem value="5">~1 m</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="geocodeCacheTtlDays">Caducidad</Label>
+                  <Select
+                    value={String(preferences.geocodeCacheTtlDays)}
+                    onValueChange={(value) => handleChange("geocodeCacheTtlDays", parseInt(value))}
+                  >
+                    <SelectTrigger className="w-[120px]" id="geocodeCacheTtlDays">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[9999]">
+                      <SelectItem value="7">7 días</SelectItem>
+                      <SelectItem value="30">30 días</SelectItem>
+                      <SelectItem value="90">90 días</SelectItem>
+                      <SelectItem value="365">1 año</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               <Separator />
 
               <div className="space-y-2">
@@ -764,6 +1132,111 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                   </Label>
                 </Button>
 
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    className="justify-start"
+                    onClick={exportBackup}
+                    disabled={isExporting || stats.count === 0}
+                  >
+                    <Archive className="h-4 w-4 mr-2" />
+                    Copia completa (ZIP)
+                  </Button>
+                  <Button asChild variant="outline" className="justify-start">
+                    <Label className="cursor-pointer">
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                      Restaurar copia
+                      <Input
+                        type="file"
+                        accept={`.zip,application/zip,.${ENCRYPTED_FILE_EXTENSION}`}
+                        onChange={selectBackupFile}
+                        className="hidden"
+                        disabled={isRestoring}
+                      />
+                    </Label>
+                  </Button>
+                </div>
+
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setShowEncryptedExport(true)}
+                  disabled={isExporting || stats.count === 0}
+                >
+                  <FileLock className="h-4 w-4 mr-2" />
+                  Copia cifrada con contraseña
+                </Button>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Formatos geográficos</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Para abrir el historial en Google Earth, apps de senderismo o herramientas GIS
+                  </p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(LOCATION_FILE_FORMATS) as LocationFileFormat[]).map((format) => (
+                      <Button
+                        key={format}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => exportLocationFile(format)}
+                        disabled={isExporting || stats.count === 0}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        {LOCATION_FILE_FORMATS[format].label}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="includePhotoFilenames" className="text-sm">
+                      Incluir nombres de archivo de las fotos (GeoJSON y KML)
+                    </Label>
+                    <Switch
+                      id="includePhotoFilenames"
+                      checked={includePhotoFilenames}
+                      onCheckedChange={setIncludePhotoFilenames}
+                    />
+                  </div>
+                </div>
+
+                <Button asChild variant="outline" className="w-full justify-start">
+                  <Label className="cursor-pointer">
+                    <Route className="h-4 w-4 mr-2" />
+                    {isImporting ? "Importando..." : "Importar GPX, GeoJSON o KML"}
+                    <Input
+                      type="file"
+                      accept={LOCATION_FILE_ACCEPT}
+                      onChange={importLocationFile}
+                      className="hidden"
+                      disabled={isImporting}
+                    />
+                  </Label>
+                </Button>
+
+                <Separator />
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    className="justify-start"
+                    onClick={() => setShowCsvExport(true)}
+                    disabled={stats.count === 0}
+                  >
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Exportar gastos
+                  </Button>
+                  <Button variant="outline" className="justify-start" onClick={() => setShowCsvImport(true)}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Importar CSV
+                  </Button>
+                </div>
+
+                <Button variant="outline" className="w-full justify-start" onClick={() => setShowHistoryDialog(true)}>
+                  <History className="h-4 w-4 mr-2" />
+                  Historial de Cambios
+                </Button>
+
                 <Separator />
 
                 <Button variant="outline" className="w-full justify-start" onClick={handleResetClick}>
@@ -782,6 +1255,23 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                 </Button>
               </div>
 
+              {quarantineCount > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <p>
+                      {quarantineCount === 1
+                        ? "Hay 1 registro dañado apartado en cuarentena."
+                        : `Hay ${quarantineCount} registros dañados apartados en cuarentena.`}
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => setShowRepairDialog(true)}>
+                      <Wrench className="h-4 w-4 mr-2" />
+                      Revisar y reparar
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {stats.count === 0 && (
                 <Alert>
                   <AlertTriangle className="h-4 w-4" />
@@ -822,6 +1312,60 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
         </SheetFooter>
       </SheetContent>
 
+      <QuarantineRepairDialog
+        isOpen={showRepairDialog}
+        onClose={handleRepairDialogClose}
+        onRepaired={handleLocationRepaired}
+      />
+
+      <LocationHistoryDialog
+        isOpen={showHistoryDialog}
+        onClose={() => setShowHistoryDialog(false)}
+        onChanged={handleHistoryChanged}
+      />
+
+      <CsvExportDialog isOpen={showCsvExport} onClose={() => setShowCsvExport(false)} />
+
+      <CsvImportDialog
+        isOpen={showCsvImport}
+        onClose={() => setShowCsvImport(false)}
+        onImported={handleHistoryChanged}
+      />
+
+      <ImportWizardDialog
+        file={pendingImport}
+        onClose={() => setPendingImport(null)}
+        onImported={handleHistoryChanged}
+        onPreferencesImported={handlePreferencesImported}
+      />
+
+      <PassphraseDialog
+        isOpen={showEncryptedExport}
+        mode="create"
+        title="Copia cifrada"
+        description="La copia completa se cifrará con esta contraseña. La necesitarás para restaurarla."
+        confirmLabel="Crear copia"
+        onClose={() => setShowEncryptedExport(false)}
+        onSubmit={exportEncryptedBackup}
+      />
+
+      <PassphraseDialog
+        isOpen={!!encryptedBackup}
+        mode="enter"
+        title="Copia cifrada"
+        description="Introduce la contraseña con la que se creó la copia."
+        confirmLabel="Abrir"
+        onClose={() => setEncryptedBackup(null)}
+        onSubmit={openEncryptedBackup}
+      />
+
+      <BackupRestoreDialog
+        summary={pendingBackup?.summary ?? null}
+        isRestoring={isRestoring}
+        onClose={() => setPendingBackup(null)}
+        onConfirm={restoreBackup}
+      />
+
       <ResetConfirmationDialog
         isOpen={resetDialog.isOpen}
         onClose={() => setResetDialog({ isOpen: false, isResetting: false })}
@@ -975,9 +1519,21 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                     <span className="truncate">Recordatorio</span>
                   </div>
                   <div className="text-right shrink-0 text-xs">
-                    <span className="font-medium">{preferences.defaultReminderMinutes}min</span>
+                    <span className="font-medium">{formatReminderOffsets(preferences.defaultReminderOffsets)}</span>
+                    <span className="mx-1">→</span>
+                    <span className="text-yellow-600 dark:text-yellow-400">15 min</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Euro className="w-3 h-3 shrink-0" />
+                    <span className="truncate">Tarifas</span>
+                  </div>
+                  <div className="text-right shrink-0 text-xs">
+                    <span className="font-medium">{preferences.tariffProfiles.length}</span>
                     <span className="mx-1">→</span>
-                    <span className="text-yellow-600 dark:text-yellow-400">15min</span>
+                    <span className="text-yellow-600 dark:text-yellow-400">0</span>
                   </div>
                 </div>
               </div>
@@ -1063,7 +1619,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
         onConfirm={handleConfirmDeleteAll}
         variant="destructive"
         title="¿ELIMINAR TODOS LOS DATOS?"
-        description="Esta acción eliminará PERMANENTEMENTE toda tu información. NO se puede deshacer."
+        description="Tus ubicaciones se moverán a la papelera y toda la configuración se restablecerá."
         confirmText="SÍ, ELIMINAR TODO"
         loading={deleteAllDialog.isDeleting}
         disabled={deleteAllDialog.isDeleting}
@@ -1074,7 +1630,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
           <div className="bg-red-50 dark:bg-red-950/20 rounded-lg p-4 space-y-4">
             <div className="flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-200">
               <AlertTriangle className="w-4 h-4" />
-              Se eliminarán PERMANENTEMENTE:
+              Se eliminarán:
             </div>
 
             <div className="grid gap-3 text-sm">
@@ -1086,7 +1642,9 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
                   </div>
                   <div>
                     <div className="font-medium text-red-700 dark:text-red-300">Ubicaciones guardadas</div>
-                    <div className="text-xs text-red-600 dark:text-red-400">Todas tus ubicaciones de parking</div>
+                    <div className="text-xs text-red-600 dark:text-red-400">
+                      Se moverán a la papelera durante {preferences.trashRetentionDays} días
+                    </div>
                   </div>
                 </div>
                 <Badge variant="destructive" className="text-lg font-bold px-3 py-1">
@@ -1186,11 +1744,10 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onPreferencesChang
             <AlertDescription className="text-sm font-medium">
               <div className="space-y-2">
                 <p className="text-red-800 dark:text-red-200">
-                  <strong>ATENCIÓN:</strong> Esta acción es IRREVERSIBLE
+                  <strong>ATENCIÓN:</strong> La configuración no se puede recuperar
                 </p>
                 <ul className="text-xs text-red-700 dark:text-red-300 space-y-1">
-                  <li>• No podrás recuperar ninguna ubicación</li>
-                  <li>• Se perderán todas las fotos</li>
+                  <li>• Las ubicaciones y sus fotos solo se podrán recuperar desde la papelera</li>
                   <li>• Los timers activos se cancelarán</li>
                   <li>• Tu configuración se restablecerá</li>
                 </ul>
@@ -0,0 +1,91 @@
+// src/shared/components/SharedLocationDialog.tsx
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Button,
+} from "@/shared/ui";
+import { Download, Navigation, Share2 } from "lucide-react";
+import type { CarLocation } from "@/types/location";
+import { LocationInfo } from "./LocationInfo";
+
+interface SharedLocationDialogProps {
+  location: CarLocation | null;
+  /** Ya se guardó antes desde el mismo enlace */
+  alreadySaved?: boolean;
+  onClose: () => void;
+  onSave: (location: CarLocation) => Promise<void> | void;
+  onNavigate: (location: CarLocation) => void;
+}
+
+/**
+ * Vista previa de una ubicación recibida por enlace compartido
+ */
+export const SharedLocationDialog: React.FC<SharedLocationDialogProps> = ({
+  location,
+  alreadySaved = false,
+  onClose,
+  onSave,
+  onNavigate,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!location) return null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(location);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNavigate = () => {
+    onNavigate(location);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!location} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-5 h-5" />
+            Ubicación compartida
+          </DialogTitle>
+          <DialogDescription>
+            {alreadySaved
+              ? "Ya tienes esta ubicación guardada. Puedes ir hasta ella."
+              : "Alguien te ha enviado dónde está aparcado su coche. Puedes guardarla o ir hasta ella."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border p-3">
+          <LocationInfo location={location} />
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cerrar
+          </Button>
+          <Button variant="outline" onClick={handleNavigate} disabled={isSaving}>
+            <Navigation className="w-4 h-4 mr-2" />
+            Navegar
+          </Button>
+          {!alreadySaved && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              <Download className="w-4 h-4 mr-2" />
+              {isSaving ? "Guardando..." : "Guardar"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,6 +6,17 @@ export { ErrorBoundary } from "./ErrorBoundary";
 export { Layout, MainLayout } from "./Layout";
 export { LoadingSpinner } from "./LoadingSpinner";
 export { ConfirmationDialog } from "./ConfirmationDialog";
+export { QuarantineRepairDialog } from "./QuarantineRepairDialog";
+export { LocationHistoryDialog } from "./LocationHistoryDialog";
+export { AddressSearch } from "./AddressSearch";
+export { SharedLocationDialog } from "./SharedLocationDialog";
+export { CsvExportDialog } from "./CsvExportDialog";
+export { CsvImportDialog } from "./CsvImportDialog";
+export { BackupRestoreDialog } from "./BackupRestoreDialog";
+export { ImportWizardDialog } from "./ImportWizardDialog";
+export { PassphraseDialog } from "./PassphraseDialog";
+export { LockScreen } from "./LockScreen";
+export { PinLockScreen } from "./PinLockScreen";
 
 //componentes UI
 export { IconButton } from "./IconButton";
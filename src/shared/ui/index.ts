@@ -46,3 +46,11 @@ export { Alert, AlertTitle, AlertDescription } from "./alert";
 export { Separator } from "./separator";
 export { Toaster } from "./sonner";
 export { Switch } from "./switch";
+export {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from "./dropdown-menu";
@@ -3,19 +3,47 @@ export interface CarLocation {
   id: string;
   latitude: number;
   longitude: number;
+  /** Texto de la dirección, generado con `AddressUtils.formatAddress` */
   address?: string;
+  addressDetails?: StructuredAddress;
+  geocodeStatus?: GeocodeStatus;
   timestamp: number;
   note?: string;
   photos?: string[];
   parkingType?: "Calle" | "Garaje" | "Parking" | "Otro";
   expiryTime?: number;
   cost?: number;
-  reminderMinutes?: number;
+  /** Tarifa con la que se calcula `cost` (ver `TariffProfile`) */
+  tariffId?: string;
+  /** Recordatorios en minutos antes de expirar, de mayor a menor */
+  reminderOffsets?: number[];
   extensionCount?: number;
   accuracy?: number;
   isManualPlacement?: boolean;
+  /** Última edición; decide qué versión es más reciente al importar */
+  updatedAt?: number;
+  deletedAt?: number;
 }
 
+export interface StructuredAddress {
+  street?: string;
+  number?: string;
+  neighbourhood?: string;
+  city?: string;
+  postcode?: string;
+  country?: string;
+  /** Proveedor de geocoding que resolvió la dirección */
+  provider?: string;
+  resolvedAt?: number;
+}
+
+/**
+ * pending: sin resolver todavía (p. ej. guardada sin conexión)
+ * resolved: dirección obtenida
+ * failed: el proveedor no devolvió dirección
+ */
+export type GeocodeStatus = "pending" | "resolved" | "failed";
+
 export interface LocationWithAccuracy {
   latitude: number;
   longitude: number;
@@ -36,9 +64,47 @@ export interface UserPreferences {
   mapType: "osm" | "satellite" | "terrain";
   autoSave: boolean;
   notifications: boolean;
-  defaultReminderMinutes: number;
+  /** Recordatorios para los temporizadores nuevos, en minutos antes de expirar */
+  defaultReminderOffsets: number[];
   maxPhotos: number;
   photoQuality: "low" | "medium" | "high";
+  trashRetentionDays: number;
+  geocodeCachePrecision: number;
+  geocodeCacheTtlDays: number;
+  geocodingProvider: "nominatim" | "photon";
+  /** Servidor propio del proveedor; vacío usa el público */
+  geocodingBaseUrl: string;
+  backupFrequency: "off" | "daily" | "weekly";
+  /** Copias automáticas que se conservan */
+  backupKeepCount: number;
+  tariffProfiles: TariffProfile[];
+}
+
+/**
+ * Horario gratuito de una tarifa. Las horas van en "HH:MM"; si `to` no es
+ * posterior a `from`, el horario termina al día siguiente (p. ej. 20:00-09:00).
+ */
+export interface TariffFreeWindow {
+  /** Días de la semana en que empieza (0 = domingo) */
+  days: number[];
+  from: string;
+  to: string;
+}
+
+/** Tarifa de una zona de aparcamiento, definida por el usuario */
+export interface TariffProfile {
+  id: string;
+  name: string;
+  /** Precio de cada tramo, en euros; los tramos empezados se cobran enteros */
+  pricePerSlice: number;
+  sliceMinutes: number;
+  /** Importe mínimo cuando hay algo que pagar */
+  minimumCharge: number;
+  /** Estancia máxima en minutos (0 = sin límite) */
+  maxStayMinutes: number;
+  /** Máximo por día natural (0 = sin tope) */
+  dailyCap: number;
+  freeWindows: TariffFreeWindow[];
 }
 
 export type DateFilter = "all" | "today" | "week" | "month";
@@ -54,6 +120,83 @@ export interface LocationStats {
   mostUsedParkingType: string;
 }
 
+export interface QuarantinedLocation {
+  quarantineId: string;
+  record: Record<string, unknown>;
+  reasons: string[];
+  source: "storage" | "migration" | "import";
+  quarantinedAt: number;
+}
+
+/** Resultado de añadir ubicaciones desde un archivo externo (GPX, etc.) */
+export interface LocationImportResult {
+  imported: number;
+  /** Ya existían (misma posición y hora) */
+  duplicates: number;
+  /** Nuevas que no cabían en el límite de ubicaciones */
+  overLimit: number;
+  /** Sin datos mínimos; se mueven a cuarentena */
+  invalid: number;
+}
+
+/** Cómo resolver una ubicación del archivo que ya existe con el mismo id */
+export type ImportConflictStrategy = "merge" | "replace" | "newest";
+
+export interface ImportConflict {
+  current: CarLocation;
+  incoming: CarLocation;
+  /** Campos con valores distintos */
+  fields: (keyof CarLocation)[];
+}
+
+export interface ImportNearDuplicate {
+  incoming: CarLocation;
+  existing: CarLocation;
+}
+
+/** Comparación entre el archivo y las ubicaciones guardadas */
+export interface LocationImportPreview {
+  added: CarLocation[];
+  /** Mismo id sin cambios, o misma posición y hora */
+  identical: CarLocation[];
+  conflicts: ImportConflict[];
+  /** Muy cerca de una guardada y a poca distancia en el tiempo */
+  nearDuplicates: ImportNearDuplicate[];
+  invalid: QuarantinedLocation[];
+}
+
+export interface LocationImportOptions {
+  strategy: ImportConflictStrategy;
+  /** Estrategia distinta para conflictos concretos, por id */
+  overrides?: Record<string, ImportConflictStrategy>;
+  includeNearDuplicates: boolean;
+}
+
+export interface LocationImportReport {
+  added: number;
+  updated: number;
+  identical: number;
+  nearDuplicatesSkipped: number;
+  invalid: number;
+  /** Nuevas que no cabían en el límite de ubicaciones */
+  overLimit: number;
+}
+
+export interface LocationJournalChange {
+  id: string;
+  before: CarLocation | null;
+  after: CarLocation | null;
+}
+
+export interface LocationJournalEntry {
+  seq?: number;
+  action: "save" | "update" | "delete" | "restore" | "import" | "clearAll" | "repair";
+  description: string;
+  timestamp: number;
+  changes: LocationJournalChange[];
+  undone: boolean;
+}
+
 export interface ParkingTimer {
   locationId: string;
   expiryTime: number;
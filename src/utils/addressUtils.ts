@@ -1,7 +1,58 @@
 // src/utils/addressUtils.ts
-import type { CarLocation } from "@/types/location";
+import type { CarLocation, StructuredAddress } from "@/types/location";
 
 export const AddressUtils = {
+  /**
+   * Formatea una dirección estructurada para mostrarla. Es el único sitio
+   * donde se construye el texto de una dirección.
+   */
+  formatAddress(details: StructuredAddress): string {
+    return [details.street, details.number, details.neighbourhood, details.city].filter(Boolean).join(", ");
+  },
+
+  /**
+   * Dirección a mostrar para una ubicación, o undefined si aún no se conoce
+   */
+  getDisplayAddress(location: Pick<CarLocation, "address" | "addressDetails">): string | undefined {
+    if (location.addressDetails) {
+      const formatted = this.formatAddress(location.addressDetails);
+      if (formatted) return formatted;
+    }
+    return location.address || undefined;
+  },
+
+  /**
+   * Zona de la ubicación (barrio o ciudad), usada en estadísticas y agrupaciones
+   */
+  getArea(location: Pick<CarLocation, "address" | "addressDetails">): string | undefined {
+    const details = location.addressDetails;
+    if (details) {
+      return details.neighbourhood || details.city || details.street;
+    }
+
+    // Direcciones antiguas sin estructura: primer tramo del texto
+    return location.address?.split(",")[0].trim() || undefined;
+  },
+
+  /**
+   * Texto en minúsculas con todos los campos de la dirección, para búsquedas
+   */
+  getSearchText(location: Pick<CarLocation, "address" | "addressDetails">): string {
+    const details = location.addressDetails;
+    return [
+      location.address,
+      details?.street,
+      details?.number,
+      details?.neighbourhood,
+      details?.city,
+      details?.postcode,
+      details?.country,
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+  },
+
   /**
    * Verifica si una dirección son solo coordenadas
    */
@@ -20,11 +71,21 @@ export const AddressUtils = {
     return `⏳ ${lat.toFixed(6)}, ${lng.toFixed(6)}`;
   },
 
+  /**
+   * Indica si la dirección de la ubicación está pendiente de resolver
+   */
+  needsGeocoding(location: CarLocation): boolean {
+    if (location.geocodeStatus) {
+      return location.geocodeStatus !== "resolved";
+    }
+    return this.isCoordinatesOnly(location.address);
+  },
+
   /**
    * Obtiene todas las ubicaciones que necesitan sincronización
    */
   getLocationsPendingSync(locations: CarLocation[]): CarLocation[] {
-    return locations.filter((location) => this.isCoordinatesOnly(location.address));
+    return locations.filter((location) => this.needsGeocoding(location));
   },
 
   /**
@@ -34,6 +95,16 @@ export const AddressUtils = {
     return this.getLocationsPendingSync(locations).length;
   },
 
+  /**
+   * Campos a guardar en la ubicación a partir del resultado del geocoding
+   */
+  toLocationFields(details: StructuredAddress | null): Pick<CarLocation, "address" | "addressDetails" | "geocodeStatus"> {
+    if (!details) {
+      return { address: undefined, addressDetails: undefined, geocodeStatus: "failed" };
+    }
+    return { address: this.formatAddress(details), addressDetails: details, geocodeStatus: "resolved" };
+  },
+
   /**
    * Extrae coordenadas de una dirección de tipo coordenadas
    */
@@ -0,0 +1,252 @@
+// src/utils/appLock.ts
+import { timerManager } from "./timerManager";
+
+/**
+ * Bloqueo ligero con PIN, independiente del cifrado: no protege los datos
+ * guardados, solo impide usar la app a quien la coja desbloqueada. Se activa
+ * al abrir la app y al volver de segundo plano tras el tiempo configurado.
+ */
+
+export interface AppLockSettings {
+  /** Minutos en segundo plano antes de pedir el PIN (0 = al salir) */
+  lockAfterMinutes: number;
+  /** Difumina el mapa y la lista mientras está bloqueada o en segundo plano */
+  hideContent: boolean;
+}
+
+export interface PinCheckResult {
+  ok: boolean;
+  /** Tiempo de espera antes del siguiente intento */
+  retryInMs: number;
+  /** Intentos que quedan antes de tener que esperar */
+  attemptsLeft: number;
+}
+
+interface AppLockConfig extends AppLockSettings {
+  pinHash: string;
+  salt: string;
+}
+
+interface FailedAttempts {
+  count: number;
+  blockedUntil: number;
+}
+
+const CONFIG_KEY = "app-lock-config";
+const ATTEMPTS_KEY = "app-lock-attempts";
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_ITERATIONS = 100000;
+const FREE_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  lockAfterMinutes: 1,
+  hideContent: true,
+};
+
+export const isValidPin = (pin: string): boolean => PIN_PATTERN.test(pin);
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: new TextEncoder().encode(salt), iterations: PIN_ITERATIONS, hash: "SHA-256" },
+    material,
+    256
+  );
+  return toHex(bits);
+};
+
+class AppLock {
+  private locked: boolean;
+  private hidden = false;
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    this.locked = this.isEnabled();
+  }
+
+  private readConfig(): AppLockConfig | null {
+    try {
+      const stored = localStorage.getItem(CONFIG_KEY);
+      return stored ? (JSON.parse(stored) as AppLockConfig) : null;
+    } catch (error) {
+      console.error("Error reading app lock config:", error);
+      return null;
+    }
+  }
+
+  private readAttempts(): FailedAttempts {
+    try {
+      const stored = localStorage.getItem(ATTEMPTS_KEY);
+      return stored ? (JSON.parse(stored) as FailedAttempts) : { count: 0, blockedUntil: 0 };
+    } catch {
+      return { count: 0, blockedUntil: 0 };
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.readConfig() !== null;
+  }
+
+  isLocked(): boolean {
+    return this.locked && this.isEnabled();
+  }
+
+  /**
+   * Si hay que difuminar el contenido sensible (mapa y lista)
+   */
+  isContentHidden(): boolean {
+    const config = this.readConfig();
+    return !!config?.hideContent && (this.locked || this.hidden);
+  }
+
+  getSettings(): AppLockSettings {
+    const config = this.readConfig();
+    return config
+      ? { lockAfterMinutes: config.lockAfterMinutes, hideContent: config.hideContent }
+      : DEFAULT_APP_LOCK_SETTINGS;
+  }
+
+  updateSettings(settings: Partial<AppLockSettings>): void {
+    const config = this.readConfig();
+    if (!config) return;
+
+    localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...config, ...settings }));
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Error en listener del bloqueo:", error);
+      }
+    });
+  }
+
+  /**
+   * Tiempo que queda antes de poder volver a intentarlo
+   */
+  getRetryDelay(): number {
+    return Math.max(0, this.readAttempts().blockedUntil - Date.now());
+  }
+
+  /**
+   * Comprueba el PIN. Tras varios fallos seguidos hay que esperar cada vez
+   * más; el contador se guarda para que recargar no lo reinicie.
+   */
+  async checkPin(pin: string): Promise<PinCheckResult> {
+    const config = this.readConfig();
+    if (!config) return { ok: true, retryInMs: 0, attemptsLeft: FREE_ATTEMPTS };
+
+    const attempts = this.readAttempts();
+    const retryInMs = Math.max(0, attempts.blockedUntil - Date.now());
+    if (retryInMs > 0) {
+      return { ok: false, retryInMs, attemptsLeft: 0 };
+    }
+
+    if ((await hashPin(pin, config.salt)) === config.pinHash) {
+      localStorage.removeItem(ATTEMPTS_KEY);
+      return { ok: true, retryInMs: 0, attemptsLeft: FREE_ATTEMPTS };
+    }
+
+    const count = attempts.count + 1;
+    const overLimit = count - FREE_ATTEMPTS;
+    const delay = overLimit >= 0 ? Math.min(BASE_RETRY_DELAY_MS * 2 ** overLimit, MAX_RETRY_DELAY_MS) : 0;
+    const blockedUntil = delay > 0 ? Date.now() + delay : 0;
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify({ count, blockedUntil }));
+
+    console.warn(`🔒 PIN incorrecto (${count} fallos)`);
+    return { ok: false, retryInMs: delay, attemptsLeft: Math.max(0, FREE_ATTEMPTS - count) };
+  }
+
+  async unlock(pin: string): Promise<PinCheckResult> {
+    const result = await this.checkPin(pin);
+    if (result.ok && this.locked) {
+      this.locked = false;
+      this.notify();
+    }
+    return result;
+  }
+
+  lock(): void {
+    if (!this.isEnabled() || this.locked) return;
+
+    this.locked = true;
+    this.notify();
+    console.log("🔒 App bloqueada con PIN");
+  }
+
+  /**
+   * Activa el PIN o lo cambia. Para cambiarlo hay que indicar el actual.
+   */
+  async setPin(pin: string, currentPin?: string): Promise<PinCheckResult> {
+    if (!isValidPin(pin)) throw new Error("El PIN debe tener entre 4 y 8 números");
+
+    const config = this.readConfig();
+    if (config) {
+      const result = await this.checkPin(currentPin ?? "");
+      if (!result.ok) return result;
+    }
+
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+    const settings = config ? { lockAfterMinutes: config.lockAfterMinutes, hideContent: config.hideContent } : {};
+    const nextConfig: AppLockConfig = {
+      ...DEFAULT_APP_LOCK_SETTINGS,
+      ...settings,
+      salt,
+      pinHash: await hashPin(pin, salt),
+    };
+
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(nextConfig));
+    this.locked = false;
+    this.notify();
+    return { ok: true, retryInMs: 0, attemptsLeft: FREE_ATTEMPTS };
+  }
+
+  async removePin(currentPin: string): Promise<PinCheckResult> {
+    const result = await this.checkPin(currentPin);
+    if (!result.ok) return result;
+
+    localStorage.removeItem(CONFIG_KEY);
+    localStorage.removeItem(ATTEMPTS_KEY);
+    this.locked = false;
+    this.notify();
+    return result;
+  }
+
+  /**
+   * Se llama desde los eventos de visibilidad de `timerManager`
+   */
+  handleVisibilityChange(hidden: boolean, hiddenForMs: number): void {
+    this.hidden = hidden;
+
+    const config = this.readConfig();
+    if (config) {
+      const lockAfterMs = config.lockAfterMinutes * 60000;
+      if ((hidden && lockAfterMs === 0) || (!hidden && hiddenForMs >= lockAfterMs)) {
+        this.locked = true;
+      }
+    }
+
+    this.notify();
+  }
+}
+
+export const appLock = new AppLock();
+
+timerManager.onVisibilityChange((hidden, hiddenForMs) => appLock.handleVisibilityChange(hidden, hiddenForMs));
@@ -0,0 +1,284 @@
+// src/utils/backup.ts
+import type { CarLocation } from "@/types/location";
+import { getCarLocations, locationRepository } from "./storage";
+import { getPhotoFilename, photoStore } from "./photoStore";
+import { offlineMapManager, type MapArea } from "./offlineMaps";
+import {
+  getCurrentSchemaVersions,
+  LEGACY_SCHEMA_VERSION,
+  migrateRecord,
+  migrateRecords,
+  setStoredSchemaVersion,
+  type SchemaDataset,
+} from "./schema";
+import { createZip, readZip, type ZipEntry } from "./zip";
+import { encryptionVault } from "./encryption";
+import { timerManager } from "./timerManager";
+
+/**
+ * Copia de seguridad completa en un ZIP: datos en JSON, fotos como imágenes y
+ * la lista de mapas offline (las teselas no se incluyen, se vuelven a descargar).
+ */
+
+const BACKUP_FORMAT = "aparky-backup";
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+const PHOTOS_DIR = "photos/";
+
+const FILES = {
+  locations: "locations.json",
+  preferences: "preferences.json",
+  preferredLocation: "preferred-location.json",
+  lastKnownLocation: "last-known-location.json",
+  timers: "timers.json",
+  offlineAreas: "offline-areas.json",
+};
+
+/** Claves de localStorage que se sustituyen al restaurar */
+const LOCAL_STORAGE_KEYS = {
+  preferences: "user-preferences",
+  preferredLocation: "user-preferred-default-location",
+  lastKnownLocation: "user-last-known-location",
+  timers: "active_timers_backup",
+};
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersions: Record<SchemaDataset, number>;
+  files: Record<string, { sha256: string; size: number }>;
+}
+
+export interface BackupSummary {
+  createdAt: string;
+  locations: number;
+  photos: number;
+  missingPhotos: number;
+  timers: number;
+  hasPreferences: boolean;
+  hasPreferredLocation: boolean;
+  offlineAreas: string[];
+}
+
+export interface PreparedBackup {
+  summary: BackupSummary;
+  locations: Partial<CarLocation>[];
+  photos: Map<string, Blob>;
+  preferences: unknown;
+  preferredLocation: unknown;
+  lastKnownLocation: unknown;
+  timers: unknown;
+  offlineAreas: MapArea[];
+}
+
+const sha256 = async (data: Uint8Array): Promise<string> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new Error("Este navegador no puede verificar la copia de seguridad");
+  }
+  const digest = await crypto.subtle.digest("SHA-256", data as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const readStoredJson = (key: string): unknown => {
+  const stored = encryptionVault.getItem(key);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const countTimers = (timers: unknown): number => {
+  const states = timers && typeof timers === "object" ? (timers as { states?: unknown }).states : undefined;
+  return Array.isArray(states) ? states.length : 0;
+};
+
+/**
+ * Genera el ZIP con todos los datos del dispositivo
+ */
+export const createBackupArchive = async (): Promise<Blob> => {
+  // Bloqueada, las ubicaciones no se pueden leer y la copia saldría vacía
+  if (encryptionVault.isLocked()) {
+    throw new Error("Desbloquea la app para crear la copia de seguridad");
+  }
+
+  try {
+    const encoder = new TextEncoder();
+    const toJson = (value: unknown) => encoder.encode(JSON.stringify(value, null, 2));
+
+    const locations = await getCarLocations();
+    const entries: ZipEntry[] = [
+      { name: FILES.locations, data: toJson(locations) },
+      { name: FILES.preferences, data: toJson(readStoredJson(LOCAL_STORAGE_KEYS.preferences)) },
+      { name: FILES.preferredLocation, data: toJson(readStoredJson(LOCAL_STORAGE_KEYS.preferredLocation)) },
+      { name: FILES.lastKnownLocation, data: toJson(readStoredJson(LOCAL_STORAGE_KEYS.lastKnownLocation)) },
+      { name: FILES.timers, data: toJson(readStoredJson(LOCAL_STORAGE_KEYS.timers)) },
+      { name: FILES.offlineAreas, data: toJson(await offlineMapManager.getDownloadedAreas()) },
+    ];
+
+    const photoIds = new Set(locations.flatMap((location) => location.photos || []));
+    for (const id of photoIds) {
+      const blob = await photoStore.getBlob(id);
+      if (blob) {
+        entries.push({ name: `${PHOTOS_DIR}${getPhotoFilename(id)}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersions: getCurrentSchemaVersions(),
+      files: {},
+    };
+    for (const entry of entries) {
+      manifest.files[entry.name] = { sha256: await sha256(entry.data), size: entry.data.length };
+    }
+
+    return createZip([{ name: MANIFEST_FILE, data: toJson(manifest) }, ...entries]);
+  } catch (error) {
+    console.error("Error creating backup archive:", error);
+    throw new Error("No se pudo crear la copia de seguridad");
+  }
+};
+
+/**
+ * Lee y verifica una copia de seguridad sin aplicar ningún cambio
+ */
+export const prepareBackupRestore = async (file: Blob): Promise<PreparedBackup> => {
+  const entries = await readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const manifestData = entries.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error("El archivo no es una copia de seguridad de Aparky");
+  }
+
+  const manifest = JSON.parse(decoder.decode(manifestData)) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.files !== "object") {
+    throw new Error("El archivo no es una copia de seguridad de Aparky");
+  }
+  if (manifest.version > BACKUP_FORMAT_VERSION) {
+    throw new Error("La copia se creó con una versión más reciente de la app");
+  }
+
+  for (const [name, { sha256: expected, size }] of Object.entries(manifest.files)) {
+    const data = entries.get(name);
+    if (!data || data.length !== size || (await sha256(data)) !== expected) {
+      throw new Error(`La copia está dañada: ${name} no coincide con su suma de control`);
+    }
+  }
+
+  const readJson = (name: string): unknown => {
+    const data = manifest.files[name] ? entries.get(name) : undefined;
+    return data ? JSON.parse(decoder.decode(data)) : null;
+  };
+  const versions = manifest.schemaVersions || {};
+  const migrate = (dataset: Exclude<SchemaDataset, "locations">, value: unknown) =>
+    value ? migrateRecord(dataset, value, versions[dataset] ?? LEGACY_SCHEMA_VERSION) : null;
+
+  const rawLocations = readJson(FILES.locations);
+  const locations = migrateRecords<Partial<CarLocation>>(
+    "locations",
+    Array.isArray(rawLocations) ? rawLocations : [],
+    versions.locations ?? LEGACY_SCHEMA_VERSION
+  );
+
+  const photos = new Map<string, Blob>();
+  for (const name of Object.keys(manifest.files)) {
+    if (!name.startsWith(PHOTOS_DIR)) continue;
+    const id = name.slice(PHOTOS_DIR.length).replace(/\.[a-z0-9]+$/i, "");
+    photos.set(id, new Blob([entries.get(name)! as BlobPart], { type: "image/jpeg" }));
+  }
+
+  const referencedPhotos = new Set(locations.flatMap((location) => location.photos || []));
+  const missingPhotos = [...referencedPhotos].filter((id) => !photos.has(id)).length;
+
+  const preferences = migrate("preferences", readJson(FILES.preferences));
+  const preferredLocation = migrate("preferredLocation", readJson(FILES.preferredLocation));
+  const timers = migrate("timers", readJson(FILES.timers));
+  const rawAreas = readJson(FILES.offlineAreas);
+  const offlineAreas = Array.isArray(rawAreas) ? (rawAreas as MapArea[]) : [];
+
+  return {
+    summary: {
+      createdAt: manifest.createdAt,
+      locations: locations.length,
+      photos: photos.size,
+      missingPhotos,
+      timers: countTimers(timers),
+      hasPreferences: !!preferences,
+      hasPreferredLocation: !!preferredLocation,
+      offlineAreas: offlineAreas.map((area) => area.name),
+    },
+    locations,
+    photos,
+    preferences,
+    preferredLocation,
+    lastKnownLocation: readJson(FILES.lastKnownLocation),
+    timers,
+    offlineAreas,
+  };
+};
+
+/**
+ * Sustituye los datos del dispositivo por los de la copia. Las ubicaciones se
+ * escriben en una única transacción al final; si falla, se deshacen los cambios
+ * en localStorage y el dispositivo queda como estaba. Si sale bien hay que
+ * recargar la página para que la app arranque con los datos restaurados.
+ */
+export const applyBackupRestore = async (backup: PreparedBackup): Promise<number> => {
+  // Las fotos no cambian nada visible hasta que una ubicación las referencia
+  const photoIds = new Map<string, string>();
+  for (const [id, blob] of backup.photos) {
+    photoIds.set(id, await photoStore.put(blob));
+  }
+
+  const locations = backup.locations.map((location) =>
+    location.photos
+      ? { ...location, photos: location.photos.flatMap((id) => (photoIds.has(id) ? [photoIds.get(id)!] : [])) }
+      : location
+  );
+
+  const downloaded = new Set((await offlineMapManager.getDownloadedAreas()).map((area) => area.id));
+  const pendingAreas = backup.offlineAreas.filter((area) => !downloaded.has(area.id));
+
+  const snapshot = Object.values(LOCAL_STORAGE_KEYS).map((key) => [key, encryptionVault.getItem(key)] as const);
+  const writeOrRemove = (key: string, value: unknown) => {
+    if (value === null || value === undefined) {
+      encryptionVault.removeItem(key);
+    } else {
+      encryptionVault.setItem(key, JSON.stringify(value));
+    }
+  };
+
+  // Hasta recargar, los timers en memoria no deben pisar los restaurados
+  timerManager.suspendPersistence();
+
+  try {
+    writeOrRemove(LOCAL_STORAGE_KEYS.preferences, backup.preferences);
+    writeOrRemove(LOCAL_STORAGE_KEYS.preferredLocation, backup.preferredLocation);
+    writeOrRemove(LOCAL_STORAGE_KEYS.lastKnownLocation, backup.lastKnownLocation);
+    writeOrRemove(LOCAL_STORAGE_KEYS.timers, backup.timers);
+
+    const restored = await locationRepository.replaceAll(locations);
+
+    const versions = getCurrentSchemaVersions();
+    setStoredSchemaVersion("preferences", versions.preferences);
+    setStoredSchemaVersion("preferredLocation", versions.preferredLocation);
+    setStoredSchemaVersion("timers", versions.timers);
+    offlineMapManager.setPendingAreas(pendingAreas);
+
+    return restored;
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    snapshot.forEach(([key, value]) => {
+      if (value === null) {
+        encryptionVault.removeItem(key);
+      } else {
+        encryptionVault.setItem(key, value);
+      }
+    });
+    timerManager.resumePersistence();
+    throw new Error("No se pudo restaurar la copia. No se ha modificado ningún dato.");
+  }
+};
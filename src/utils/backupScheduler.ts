@@ -0,0 +1,334 @@
+// src/utils/backupScheduler.ts
+import { createBackupArchive } from "./backup";
+import { getUserPreferences } from "./preferences";
+import { ENCRYPTED_FILE_EXTENSION, encryptionVault, isEncryptedFile } from "./encryption";
+
+/**
+ * Copias de seguridad automáticas. Cada copia es el mismo ZIP que "Copia
+ * completa" y se guarda en IndexedDB o, si el navegador lo permite, en una
+ * carpeta elegida por el usuario. Solo se conservan las últimas N. Con el
+ * cifrado activado, las copias se guardan cifradas con la misma contraseña.
+ *
+ * Las copias de seguridad previas a borrar, restablecer, importar o restaurar
+ * llevan su propio límite, para que una serie de ellas no se lleve por
+ * delante las programadas.
+ */
+
+export type BackupReason = "scheduled" | "manual" | "beforeClear" | "beforeReset" | "beforeImport" | "beforeRestore";
+
+export interface BackupSnapshot {
+  id: string;
+  createdAt: number;
+  size: number;
+  reason: BackupReason;
+  /** Archivo en la carpeta elegida; si no hay, la copia está en IndexedDB */
+  fileName?: string;
+}
+
+interface StoredSnapshot extends BackupSnapshot {
+  blob?: Blob;
+}
+
+/** Métodos de permisos aún no incluidos en los tipos del DOM */
+interface BackupDirectoryHandle extends FileSystemDirectoryHandle {
+  queryPermission?: (descriptor: { mode: "readwrite" }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: "readwrite" }) => Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: "readwrite" }) => Promise<BackupDirectoryHandle>;
+
+export const BACKUP_REASONS: Record<BackupReason, string> = {
+  scheduled: "Automática",
+  manual: "Manual",
+  beforeClear: "Antes de borrar",
+  beforeReset: "Antes de restablecer",
+  beforeImport: "Antes de importar",
+  beforeRestore: "Antes de restaurar",
+};
+
+const SNAPSHOTS_STORE = "snapshots";
+const SETTINGS_STORE = "settings";
+const DIRECTORY_KEY = "directory";
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAFETY_SNAPSHOT_LIMIT = 5;
+
+/** Copias que se cuentan con el límite elegido por el usuario */
+const ROUTINE_REASONS: BackupReason[] = ["scheduled", "manual"];
+
+const FREQUENCY_MS = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+const getDirectoryPicker = (): DirectoryPicker | undefined =>
+  (window as Window & { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+
+const toSnapshot = (stored: StoredSnapshot): BackupSnapshot => ({
+  id: stored.id,
+  createdAt: stored.createdAt,
+  size: stored.size,
+  reason: stored.reason,
+  fileName: stored.fileName,
+});
+
+export class BackupScheduler {
+  private dbName = "aparky-backups";
+  private dbVersion = 1;
+  private db: IDBDatabase | null = null;
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<BackupSnapshot | null> | null = null;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const store = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt", { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+      };
+    });
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const request = action(this.db!.transaction([storeName], mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Copias guardadas, de la más reciente a la más antigua
+   */
+  async getSnapshots(): Promise<BackupSnapshot[]> {
+    const stored = await this.request<StoredSnapshot[]>(SNAPSHOTS_STORE, "readonly", (store) => store.getAll());
+    return stored.map(toSnapshot).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async getLastSnapshot(): Promise<BackupSnapshot | null> {
+    const [last] = await this.getSnapshots();
+    return last ?? null;
+  }
+
+  async getSnapshotBlob(id: string): Promise<Blob> {
+    const stored = await this.request<StoredSnapshot | undefined>(SNAPSHOTS_STORE, "readonly", (store) =>
+      store.get(id)
+    );
+    if (!stored) throw new Error("La copia ya no existe");
+    if (stored.blob) return stored.blob;
+
+    const directory = await this.getDirectory(true);
+    if (!directory || !stored.fileName) {
+      throw new Error("No hay acceso a la carpeta de copias");
+    }
+    const handle = await directory.getFileHandle(stored.fileName);
+    return handle.getFile();
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    const stored = await this.request<StoredSnapshot | undefined>(SNAPSHOTS_STORE, "readonly", (store) =>
+      store.get(id)
+    );
+
+    if (stored?.fileName) {
+      try {
+        const directory = await this.getDirectory(false);
+        await directory?.removeEntry(stored.fileName);
+      } catch (error) {
+        console.warn("No se pudo borrar el archivo de copia:", error);
+      }
+    }
+
+    await this.request(SNAPSHOTS_STORE, "readwrite", (store) => store.delete(id));
+  }
+
+  /**
+   * Crea una copia ahora y elimina las que sobren
+   */
+  async createSnapshot(reason: BackupReason): Promise<BackupSnapshot> {
+    const archive = await createBackupArchive();
+    const encrypted = encryptionVault.isEnabled();
+    const blob = encrypted ? await encryptionVault.encryptFile(archive) : archive;
+    const createdAt = Date.now();
+    const snapshot: StoredSnapshot = {
+      id: `backup-${createdAt}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt,
+      size: blob.size,
+      reason,
+    };
+
+    const directory = await this.getDirectory(false);
+    if (directory) {
+      const extension = encrypted ? ENCRYPTED_FILE_EXTENSION : "zip";
+      const fileName = `aparky-copia-${new Date(createdAt).toISOString().replace(/[:.]/g, "-")}.${extension}`;
+      const writable = await (await directory.getFileHandle(fileName, { create: true })).createWritable();
+      await writable.write(blob);
+      await writable.close();
+      snapshot.fileName = fileName;
+    } else {
+      snapshot.blob = blob;
+    }
+
+    await this.request(SNAPSHOTS_STORE, "readwrite", (store) => store.put(snapshot));
+    await this.rotate(ROUTINE_REASONS.includes(reason));
+
+    console.log(`💾 Copia de seguridad creada (${BACKUP_REASONS[reason]})`);
+    return toSnapshot(snapshot);
+  }
+
+  /**
+   * Cifra las copias guardadas en el navegador al activar el cifrado. Las de
+   * la carpeta elegida se quedan como estaban.
+   */
+  async encryptStoredSnapshots(): Promise<number> {
+    const stored = await this.request<StoredSnapshot[]>(SNAPSHOTS_STORE, "readonly", (store) => store.getAll());
+
+    let encrypted = 0;
+    for (const snapshot of stored) {
+      if (!snapshot.blob || (await isEncryptedFile(snapshot.blob))) continue;
+
+      const blob = await encryptionVault.encryptFile(snapshot.blob);
+      await this.request(SNAPSHOTS_STORE, "readwrite", (store) => store.put({ ...snapshot, blob, size: blob.size }));
+      encrypted++;
+    }
+    return encrypted;
+  }
+
+  private async rotate(routine: boolean): Promise<void> {
+    const keep = routine ? Math.max(1, getUserPreferences().backupKeepCount) : SAFETY_SNAPSHOT_LIMIT;
+    const snapshots = (await this.getSnapshots()).filter(
+      (snapshot) => ROUTINE_REASONS.includes(snapshot.reason) === routine
+    );
+    for (const snapshot of snapshots.slice(keep)) {
+      await this.deleteSnapshot(snapshot.id);
+    }
+  }
+
+  /**
+   * Crea una copia programada si ya toca según la frecuencia elegida
+   */
+  async runIfDue(): Promise<BackupSnapshot | null> {
+    if (this.running) return this.running;
+
+    const { backupFrequency } = getUserPreferences();
+    if (backupFrequency === "off" || encryptionVault.isLocked()) return null;
+
+    this.running = (async () => {
+      try {
+        const last = await this.getLastSnapshot();
+        if (last && Date.now() - last.createdAt < FREQUENCY_MS[backupFrequency]) return null;
+        return await this.createSnapshot("scheduled");
+      } catch (error) {
+        console.error("Error creating scheduled backup:", error);
+        return null;
+      } finally {
+        this.running = null;
+      }
+    })();
+
+    return this.running;
+  }
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    this.runIfDue();
+    this.checkInterval = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  isDirectorySupported(): boolean {
+    return typeof window !== "undefined" && !!getDirectoryPicker();
+  }
+
+  /**
+   * Pide al usuario una carpeta para guardar las copias. Debe llamarse desde
+   * un gesto del usuario (un clic).
+   */
+  async chooseDirectory(): Promise<string | null> {
+    const picker = getDirectoryPicker();
+    if (!picker) return null;
+
+    try {
+      const directory = await picker({ id: "aparky-backups", mode: "readwrite" });
+      await this.request(SETTINGS_STORE, "readwrite", (store) => store.put(directory, DIRECTORY_KEY));
+      return directory.name;
+    } catch (error) {
+      // El usuario cerró el selector
+      if (error instanceof DOMException && error.name === "AbortError") return null;
+      throw error;
+    }
+  }
+
+  async clearDirectory(): Promise<void> {
+    await this.request(SETTINGS_STORE, "readwrite", (store) => store.delete(DIRECTORY_KEY));
+  }
+
+  async getDirectoryName(): Promise<string | null> {
+    const directory = await this.request<BackupDirectoryHandle | undefined>(SETTINGS_STORE, "readonly", (store) =>
+      store.get(DIRECTORY_KEY)
+    );
+    return directory?.name ?? null;
+  }
+
+  /**
+   * Carpeta elegida, si sigue habiendo permiso. Solo se puede pedir permiso
+   * de nuevo desde un gesto del usuario (`askPermission`).
+   */
+  private async getDirectory(askPermission: boolean): Promise<BackupDirectoryHandle | null> {
+    const directory = await this.request<BackupDirectoryHandle | undefined>(SETTINGS_STORE, "readonly", (store) =>
+      store.get(DIRECTORY_KEY)
+    );
+    if (!directory) return null;
+
+    const descriptor = { mode: "readwrite" } as const;
+    let permission = (await directory.queryPermission?.(descriptor)) ?? "granted";
+    if (permission === "prompt" && askPermission) {
+      permission = (await directory.requestPermission?.(descriptor)) ?? "denied";
+    }
+    return permission === "granted" ? directory : null;
+  }
+}
+
+export const backupScheduler = new BackupScheduler();
+
+/**
+ * Copia de seguridad previa a una operación destructiva. Nunca bloquea la
+ * operación: si la copia falla solo se registra el error.
+ */
+export const backupBeforeChange = async (reason: BackupReason): Promise<boolean> => {
+  try {
+    await backupScheduler.createSnapshot(reason);
+    return true;
+  } catch (error) {
+    console.error("Error creating safety backup:", error);
+    return false;
+  }
+};
@@ -0,0 +1,393 @@
+// src/utils/csv.ts
+import type { CarLocation } from "@/types/location";
+import { AddressUtils } from "./addressUtils";
+import { LocationUtils } from "./locationUtils";
+import { forwardGeocode } from "./geocoding";
+
+/**
+ * Exportación de gastos de aparcamiento a CSV/TSV para hojas de cálculo, e
+ * importación de CSV de otras apps con un paso de asignación de columnas.
+ */
+
+export type CsvColumnId =
+  | "date"
+  | "time"
+  | "address"
+  | "parkingType"
+  | "cost"
+  | "durationMinutes"
+  | "expiryTime"
+  | "extensionCount"
+  | "note"
+  | "latitude"
+  | "longitude";
+
+export type CsvDelimiter = "," | ";" | "\t";
+export type DecimalSeparator = "." | ",";
+
+export interface CsvExportOptions {
+  columns: CsvColumnId[];
+  delimiter: CsvDelimiter;
+  decimalSeparator: DecimalSeparator;
+  includeTotals: boolean;
+  locale?: string;
+}
+
+interface CsvColumn {
+  label: string;
+  /** Columnas que se suman en la fila de totales */
+  summable?: boolean;
+  /** Decimales fijos (importes) */
+  decimals?: number;
+  value: (location: CarLocation, options: CsvExportOptions) => string | number | undefined;
+}
+
+const getDurationMinutes = (location: CarLocation): number | undefined =>
+  location.expiryTime ? Math.max(0, Math.round((location.expiryTime - location.timestamp) / 60000)) : undefined;
+
+export const CSV_COLUMNS: Record<CsvColumnId, CsvColumn> = {
+  date: { label: "Fecha", value: (l, o) => new Date(l.timestamp).toLocaleDateString(o.locale) },
+  time: {
+    label: "Hora",
+    value: (l, o) => new Date(l.timestamp).toLocaleTimeString(o.locale, { hour: "2-digit", minute: "2-digit" }),
+  },
+  address: { label: "Dirección", value: (l) => AddressUtils.getDisplayAddress(l) },
+  parkingType: { label: "Tipo", value: (l) => l.parkingType },
+  cost: { label: "Coste (€)", summable: true, decimals: 2, value: (l) => l.cost },
+  durationMinutes: { label: "Duración (min)", summable: true, value: getDurationMinutes },
+  expiryTime: {
+    label: "Fin del tiempo",
+    value: (l, o) => (l.expiryTime ? new Date(l.expiryTime).toLocaleString(o.locale) : undefined),
+  },
+  extensionCount: { label: "Extensiones", summable: true, value: (l) => l.extensionCount },
+  note: { label: "Nota", value: (l) => l.note },
+  latitude: { label: "Latitud", value: (l) => l.latitude },
+  longitude: { label: "Longitud", value: (l) => l.longitude },
+};
+
+const TOTALS_ROW_LABEL = "Total";
+const TOTALS_ROW_PATTERN = /^Total \(\d+\)$/;
+
+export const DEFAULT_CSV_COLUMNS: CsvColumnId[] = ["date", "time", "address", "parkingType", "durationMinutes", "cost"];
+
+/**
+ * Separador decimal del idioma del navegador
+ */
+export const getLocaleDecimalSeparator = (locale?: string): DecimalSeparator => {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.1).find((part) => part.type === "decimal")?.value;
+  return decimal === "," ? "," : ".";
+};
+
+const escapeCell = (value: string, delimiter: CsvDelimiter): string => {
+  if (value.includes(delimiter) || /["\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const formatCell = (value: string | number | undefined, options: CsvExportOptions, decimals?: number): string => {
+  if (value === undefined) return "";
+  if (typeof value === "number") {
+    const text = decimals !== undefined ? value.toFixed(decimals) : String(value);
+    return options.decimalSeparator === "," ? text.replace(".", ",") : text;
+  }
+  return value;
+};
+
+/**
+ * Genera el CSV (o TSV) de las ubicaciones con las columnas elegidas
+ */
+export const locationsToCsv = (locations: CarLocation[], options: CsvExportOptions): string => {
+  const columns = options.columns.map((id) => CSV_COLUMNS[id]);
+  const toLine = (cells: string[]) => cells.map((cell) => escapeCell(cell, options.delimiter)).join(options.delimiter);
+
+  const lines = [
+    toLine(columns.map((column) => column.label)),
+    ...locations.map((location) => toLine(columns.map((column) => formatCell(column.value(location, options), options, column.decimals)))),
+  ];
+
+  if (options.includeTotals && locations.length > 0) {
+    const totals = columns.map((column, index) => {
+      if (column.summable) {
+        const sum = locations.reduce((total, location) => {
+          const value = column.value(location, options);
+          return total + (typeof value === "number" ? value : 0);
+        }, 0);
+        return formatCell(sum, options, column.decimals);
+      }
+      return index === 0 ? `${TOTALS_ROW_LABEL} (${locations.length})` : "";
+    });
+    lines.push(toLine(totals));
+  }
+
+  // BOM para que Excel detecte UTF-8
+  return "\uFEFF" + lines.join("\r\n");
+};
+
+// ========== IMPORTACIÓN ==========
+
+export type CsvImportField =
+  | "ignore"
+  | "datetime"
+  | "date"
+  | "time"
+  | "latitude"
+  | "longitude"
+  | "address"
+  | "note"
+  | "parkingType"
+  | "cost"
+  | "durationMinutes"
+  | "expiryTime";
+
+export const CSV_IMPORT_FIELDS: Record<CsvImportField, string> = {
+  ignore: "No importar",
+  datetime: "Fecha y hora",
+  date: "Fecha",
+  time: "Hora",
+  latitude: "Latitud",
+  longitude: "Longitud",
+  address: "Dirección",
+  note: "Nota",
+  parkingType: "Tipo de aparcamiento",
+  cost: "Coste",
+  durationMinutes: "Duración (min)",
+  expiryTime: "Fin del tiempo",
+};
+
+export type CsvDateOrder = "dmy" | "mdy" | "ymd";
+
+export interface CsvImportOptions {
+  /** Campo asignado a cada columna, por posición */
+  mapping: CsvImportField[];
+  dateOrder: CsvDateOrder;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+const detectDelimiter = (firstLine: string): CsvDelimiter => {
+  const candidates: CsvDelimiter[] = ["\t", ";", ","];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Lee un CSV/TSV con comillas estilo RFC 4180. El separador se detecta solo.
+ */
+export const parseCsv = (text: string): ParsedCsv => {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) {
+    throw new Error("El archivo CSV está vacío");
+  }
+
+  const [headers, ...data] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows: data };
+};
+
+const MAPPING_HINTS: [CsvImportField, RegExp][] = [
+  ["datetime", /fecha.*hora|date.*time|timestamp|inicio|start/i],
+  ["date", /^(fecha|date|día|dia|day)$/i],
+  ["time", /^(hora|time)$/i],
+  ["latitude", /^(lat|latitud|latitude)$/i],
+  ["longitude", /^(lon|lng|long|longitud|longitude)$/i],
+  ["address", /direcci|address|calle|street|ubicaci|location|zona|zone/i],
+  ["note", /nota|note|coment|comment|descrip/i],
+  ["parkingType", /tipo|type/i],
+  ["cost", /coste|costo|importe|precio|cost|price|amount|€/i],
+  ["durationMinutes", /duraci|duration|minut/i],
+  ["expiryTime", /fin|end|expir|hasta/i],
+];
+
+/**
+ * Propone una asignación de columnas a partir de las cabeceras
+ */
+export const guessCsvMapping = (headers: string[]): CsvImportField[] => {
+  const used = new Set<CsvImportField>();
+
+  return headers.map((header) => {
+    const match = MAPPING_HINTS.find(([field, pattern]) => !used.has(field) && pattern.test(header.trim()));
+    if (!match) return "ignore";
+    used.add(match[0]);
+    return match[0];
+  });
+};
+
+/**
+ * Acepta coma o punto decimal. Si aparecen ambos, el último es el decimal.
+ */
+const parseLocaleNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[^\d.,-]/g, "");
+  if (!cleaned) return undefined;
+
+  const decimalIndex = Math.max(cleaned.lastIndexOf("."), cleaned.lastIndexOf(","));
+  const normalized =
+    decimalIndex < 0
+      ? cleaned
+      : `${cleaned.slice(0, decimalIndex).replace(/[.,]/g, "")}.${cleaned.slice(decimalIndex + 1)}`;
+  const parsed = Number(normalized);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+const parseDate = (value: string, order: CsvDateOrder): { year: number; month: number; day: number } | null => {
+  const parts = value.trim().split(/[\sT,]/)[0].split(/[/.-]/).map(Number);
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  // Las fechas ISO (2024-05-31) se reconocen siempre
+  const [year, month, day] =
+    parts[0] > 31 || order === "ymd"
+      ? parts
+      : order === "dmy"
+        ? [parts[2], parts[1], parts[0]]
+        : [parts[2], parts[0], parts[1]];
+
+  return { year: year < 100 ? 2000 + year : year, month, day };
+};
+
+const parseTime = (value: string): { hours: number; minutes: number } | null => {
+  const match = value.match(/(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const period = match[3]?.toLowerCase();
+  if (period === "pm" && hours < 12) hours += 12;
+  if (period === "am" && hours === 12) hours = 0;
+  return { hours, minutes: Number(match[2]) };
+};
+
+const parseDateTime = (dateValue: string, timeValue: string | undefined, order: CsvDateOrder): number | undefined => {
+  const date = parseDate(dateValue, order);
+  if (!date) return undefined;
+
+  const time = parseTime(timeValue ?? dateValue);
+  const timestamp = new Date(date.year, date.month - 1, date.day, time?.hours ?? 0, time?.minutes ?? 0).getTime();
+  return isNaN(timestamp) ? undefined : timestamp;
+};
+
+/**
+ * Convierte las filas del CSV en ubicaciones sin validar según la asignación
+ */
+export const csvRowsToLocations = (rows: string[][], options: CsvImportOptions): Partial<CarLocation>[] => {
+  // La fila de totales de nuestras exportaciones no es una ubicación
+  const dataRows = rows.filter((row) => !TOTALS_ROW_PATTERN.test(row[0]?.trim() ?? ""));
+
+  return dataRows.map((row) => {
+    const cell = (field: CsvImportField): string | undefined => {
+      const index = options.mapping.indexOf(field);
+      const value = index >= 0 ? row[index]?.trim() : undefined;
+      return value || undefined;
+    };
+    const numberCell = (field: CsvImportField) => {
+      const value = cell(field);
+      return value ? parseLocaleNumber(value) : undefined;
+    };
+
+    const dateValue = cell("datetime") ?? cell("date");
+    const timestamp = dateValue ? parseDateTime(dateValue, cell("time"), options.dateOrder) : undefined;
+
+    const expiryValue = cell("expiryTime");
+    const durationMinutes = numberCell("durationMinutes");
+    let expiryTime: number | undefined;
+    if (expiryValue && timestamp !== undefined) {
+      // Solo hora: se toma el mismo día que el inicio
+      expiryTime = parseDate(expiryValue, options.dateOrder)
+        ? parseDateTime(expiryValue, undefined, options.dateOrder)
+        : parseDateTime(new Date(timestamp).toISOString().slice(0, 10), expiryValue, "ymd");
+    } else if (durationMinutes !== undefined && timestamp !== undefined) {
+      expiryTime = timestamp + durationMinutes * 60000;
+    }
+
+    const address = cell("address");
+
+    return {
+      id: LocationUtils.generateLocationId(),
+      latitude: numberCell("latitude"),
+      longitude: numberCell("longitude"),
+      timestamp,
+      address,
+      geocodeStatus: address ? "resolved" : "pending",
+      note: cell("note"),
+      parkingType: LocationUtils.parseParkingType(cell("parkingType")),
+      cost: numberCell("cost"),
+      expiryTime,
+      isManualPlacement: true,
+    };
+  });
+};
+
+/**
+ * Busca las coordenadas de las filas que solo traen dirección. Las peticiones
+ * pasan por la cola del proveedor, así que respetan su límite de uso.
+ */
+export const geocodeMissingCoordinates = async (
+  records: Partial<CarLocation>[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Partial<CarLocation>[]> => {
+  const pending = records.filter(
+    (record) => record.address && (record.latitude === undefined || record.longitude === undefined)
+  );
+  let done = 0;
+
+  const resolved = new Map<Partial<CarLocation>, Partial<CarLocation>>();
+  for (const record of pending) {
+    try {
+      const [result] = await forwardGeocode(record.address!, { limit: 1 });
+      if (result) {
+        resolved.set(record, {
+          ...record,
+          latitude: result.latitude,
+          longitude: result.longitude,
+          addressDetails: result.details,
+        });
+      }
+    } catch (error) {
+      console.error("Error geocoding imported address:", error);
+    }
+    onProgress?.(++done, pending.length);
+  }
+
+  return records.map((record) => resolved.get(record) ?? record);
+};
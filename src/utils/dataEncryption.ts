@@ -0,0 +1,46 @@
+// src/utils/dataEncryption.ts
+import { encryptionVault } from "./encryption";
+import { locationRepository } from "./storage";
+import { photoStore } from "./photoStore";
+import { backupScheduler } from "./backupScheduler";
+import { geocodeCache } from "./geocodeCache";
+
+/**
+ * Activa el cifrado y cifra los datos ya guardados: ubicaciones (con su
+ * historial), fotos y copias automáticas del navegador. La caché de
+ * direcciones se vacía porque no se usa con el cifrado activado.
+ */
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  await encryptionVault.enable(passphrase);
+
+  try {
+    await locationRepository.reseal();
+    await photoStore.reseal();
+    await backupScheduler.encryptStoredSnapshots();
+    await geocodeCache.clear();
+    console.log("🔐 Cifrado activado");
+  } catch (error) {
+    // Los registros sin cifrar se siguen leyendo; se cifrarán al guardarse de nuevo
+    console.error("Error encrypting stored data:", error);
+    throw new Error("El cifrado está activado, pero algunos datos no se pudieron cifrar todavía.");
+  }
+};
+
+/**
+ * Desactiva el cifrado y vuelve a guardar los datos en claro. Si algo falla,
+ * el cifrado sigue activo con la misma contraseña.
+ */
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  await encryptionVault.disable(passphrase);
+
+  try {
+    await locationRepository.reseal();
+    await photoStore.reseal();
+    encryptionVault.finishDisable(true);
+    console.log("🔓 Cifrado desactivado");
+  } catch (error) {
+    encryptionVault.finishDisable(false);
+    console.error("Error decrypting stored data:", error);
+    throw new Error("No se pudo desactivar el cifrado. Tus datos siguen cifrados.");
+  }
+};
@@ -0,0 +1,504 @@
+// src/utils/encryption.ts
+
+/**
+ * Cifrado opcional de los datos guardados (AES-GCM con una clave derivada de
+ * la contraseña mediante PBKDF2). La clave solo vive en memoria mientras la
+ * app está desbloqueada; en disco se guarda la sal y un verificador, nunca la
+ * contraseña.
+ */
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+/** Registro cifrado: solo las claves de IndexedDB quedan en claro */
+export interface SealedRecord {
+  sealed: EncryptedPayload;
+  [key: string]: unknown;
+}
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  verifier: EncryptedPayload;
+  autoLockMinutes: number;
+}
+
+type LockListener = (locked: boolean) => void;
+
+const CONFIG_KEY = "encryption-config";
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = "aparky";
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Cabecera de los archivos cifrados: "APKENC01" + iteraciones + sal + iv */
+const FILE_MAGIC = new TextEncoder().encode("APKENC01");
+export const ENCRYPTED_FILE_EXTENSION = "aparky";
+const FILE_HEADER_BYTES = FILE_MAGIC.length + 4 + SALT_BYTES + IV_BYTES;
+
+/** Datos de localStorage que se guardan cifrados */
+const SEALED_STORAGE_KEYS = ["user-preferred-default-location", "user-last-known-location"];
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"] as const;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: salt as BufferSource, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const encryptBytes = async (key: CryptoKey, data: Uint8Array, iv = randomBytes(IV_BYTES)) => {
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv: iv as BufferSource }, key, data as BufferSource);
+  return { iv, data: new Uint8Array(encrypted) };
+};
+
+const decryptBytes = async (key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: iv as BufferSource }, key, data as BufferSource);
+  return new Uint8Array(decrypted);
+};
+
+const encryptJsonWith = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const { iv, data } = await encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decryptJsonWith = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const decrypted = await decryptBytes(key, fromBase64(payload.iv), fromBase64(payload.data));
+  return JSON.parse(new TextDecoder().decode(decrypted)) as T;
+};
+
+export const isSealedRecord = (value: unknown): value is SealedRecord => {
+  if (!value || typeof value !== "object") return false;
+  const sealed = (value as { sealed?: unknown }).sealed;
+  return !!sealed && typeof sealed === "object" && typeof (sealed as EncryptedPayload).data === "string";
+};
+
+export const isEncryptionSupported = (): boolean =>
+  typeof crypto !== "undefined" && !!crypto.subtle && typeof window !== "undefined" && window.isSecureContext;
+
+class EncryptionVault {
+  private key: CryptoKey | null = null;
+  private listeners: Set<LockListener> = new Set();
+  private storageCache: Map<string, string> = new Map();
+  private storageWrites: Promise<void> = Promise.resolve();
+  private disabledConfig: VaultConfig | null = null;
+  private lastActivity = Date.now();
+  private autoLockInterval: ReturnType<typeof setInterval> | null = null;
+
+  private readConfig(): VaultConfig | null {
+    try {
+      const stored = localStorage.getItem(CONFIG_KEY);
+      return stored ? (JSON.parse(stored) as VaultConfig) : null;
+    } catch (error) {
+      console.error("Error reading encryption config:", error);
+      return null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.readConfig() !== null;
+  }
+
+  isLocked(): boolean {
+    return this.isEnabled() && !this.key;
+  }
+
+  /**
+   * Avisa de cada bloqueo y desbloqueo. Devuelve la función para dejar de escuchar.
+   */
+  onLockChange(listener: LockListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    const locked = this.isLocked();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(locked);
+      } catch (error) {
+        console.error("Error en listener de bloqueo:", error);
+      }
+    });
+  }
+
+  /**
+   * Deriva la clave y la comprueba con el verificador guardado
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const config = this.readConfig();
+    if (!config) return true;
+
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+      await decryptJsonWith(key, config.verifier);
+    } catch {
+      return false;
+    }
+
+    this.key = key;
+    await this.loadSealedStorage();
+    this.startAutoLock();
+    this.notify();
+    console.log("🔓 Datos desbloqueados");
+    return true;
+  }
+
+  lock(): void {
+    if (!this.key) return;
+
+    this.key = null;
+    this.storageCache.clear();
+    this.stopAutoLock();
+    this.notify();
+    console.log("🔒 Datos bloqueados");
+  }
+
+  /**
+   * Activa el cifrado con una contraseña nueva. Los datos ya guardados se
+   * cifran aparte (ver `enableEncryption`).
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (this.isEnabled()) throw new Error("El cifrado ya está activado");
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+    }
+
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: VaultConfig = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptJsonWith(key, VERIFIER_TEXT),
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    };
+
+    SEALED_STORAGE_KEYS.forEach((storageKey) => {
+      const value = localStorage.getItem(storageKey);
+      if (value !== null) this.storageCache.set(storageKey, value);
+    });
+
+    this.key = key;
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    this.storageCache.forEach((value, storageKey) => this.persistSealedItem(storageKey, value));
+    await this.storageWrites;
+
+    this.startAutoLock();
+    this.notify();
+  }
+
+  /**
+   * Desactiva el cifrado. La clave se mantiene en memoria hasta
+   * `finishDisable`, para poder descifrar lo que aún quede cifrado.
+   */
+  async disable(passphrase: string): Promise<void> {
+    const config = this.readConfig();
+    if (!config) return;
+
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+      await decryptJsonWith(key, config.verifier);
+    } catch {
+      throw new Error("Contraseña incorrecta");
+    }
+
+    this.key = key;
+    if (this.storageCache.size === 0) await this.loadSealedStorage();
+    await this.storageWrites;
+
+    this.disabledConfig = config;
+    localStorage.removeItem(CONFIG_KEY);
+    this.storageCache.forEach((value, storageKey) => localStorage.setItem(storageKey, value));
+    this.stopAutoLock();
+  }
+
+  /**
+   * Termina de desactivar el cifrado. Si no se pudieron descifrar todos los
+   * datos, se vuelve a activar con la misma contraseña para no perderlos.
+   */
+  finishDisable(completed: boolean): void {
+    const config = this.disabledConfig;
+    this.disabledConfig = null;
+
+    if (!completed && config) {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+      this.storageCache.forEach((value, storageKey) => this.persistSealedItem(storageKey, value));
+      this.startAutoLock();
+      return;
+    }
+
+    this.key = null;
+    this.storageCache.clear();
+    this.notify();
+  }
+
+  getAutoLockMinutes(): number {
+    return this.readConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  }
+
+  /**
+   * Minutos sin actividad antes de bloquear. Con 0 no se bloquea solo.
+   */
+  setAutoLockMinutes(minutes: number): void {
+    const config = this.readConfig();
+    if (!config) return;
+
+    localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...config, autoLockMinutes: minutes }));
+    this.lastActivity = Date.now();
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) throw new Error("Los datos están bloqueados");
+    return this.key;
+  }
+
+  encryptJson(value: unknown): Promise<EncryptedPayload> {
+    return encryptJsonWith(this.requireKey(), value);
+  }
+
+  decryptJson<T>(payload: EncryptedPayload): Promise<T> {
+    return decryptJsonWith<T>(this.requireKey(), payload);
+  }
+
+  /**
+   * Cifra un Blob. El vector de inicialización va delante de los datos.
+   */
+  async encryptBlob(blob: Blob): Promise<Blob> {
+    const { iv, data } = await encryptBytes(this.requireKey(), new Uint8Array(await blob.arrayBuffer()));
+    return new Blob([iv as BlobPart, data as BlobPart], { type: "application/octet-stream" });
+  }
+
+  async decryptBlob(blob: Blob, type: string): Promise<Blob> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const decrypted = await decryptBytes(this.requireKey(), bytes.slice(0, IV_BYTES), bytes.slice(IV_BYTES));
+    return new Blob([decrypted as BlobPart], { type });
+  }
+
+  /**
+   * Archivo cifrado con la clave actual, que se puede abrir con la misma contraseña
+   */
+  async encryptFile(blob: Blob): Promise<Blob> {
+    const config = this.readConfig();
+    if (!config) throw new Error("El cifrado no está activado");
+
+    const { iv, data } = await encryptBytes(this.requireKey(), new Uint8Array(await blob.arrayBuffer()));
+    return buildEncryptedFile(config.iterations, fromBase64(config.salt), iv, data);
+  }
+
+  /**
+   * Descifra un archivo creado con la clave actual. Devuelve null si se
+   * cifró con otra contraseña.
+   */
+  async decryptFile(blob: Blob): Promise<Blob | null> {
+    const config = this.readConfig();
+    if (!config || !this.key) return null;
+
+    const file = parseEncryptedFile(new Uint8Array(await blob.arrayBuffer()));
+    if (!file || toBase64(file.salt) !== config.salt || file.iterations !== config.iterations) return null;
+
+    try {
+      return new Blob([(await decryptBytes(this.key, file.iv, file.data)) as BlobPart]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lectura síncrona de los datos de localStorage que se guardan cifrados.
+   * Mientras está desbloqueado se sirven desde memoria.
+   */
+  getItem(storageKey: string): string | null {
+    if (!SEALED_STORAGE_KEYS.includes(storageKey) || !this.isEnabled()) {
+      return localStorage.getItem(storageKey);
+    }
+    return this.storageCache.get(storageKey) ?? null;
+  }
+
+  setItem(storageKey: string, value: string): void {
+    if (!SEALED_STORAGE_KEYS.includes(storageKey) || !this.isEnabled()) {
+      localStorage.setItem(storageKey, value);
+      return;
+    }
+    if (!this.key) throw new Error("Los datos están bloqueados");
+
+    this.storageCache.set(storageKey, value);
+    this.persistSealedItem(storageKey, value);
+  }
+
+  removeItem(storageKey: string): void {
+    this.storageCache.delete(storageKey);
+    localStorage.removeItem(storageKey);
+  }
+
+  private persistSealedItem(storageKey: string, value: string): void {
+    const key = this.requireKey();
+
+    // Las escrituras se encadenan para que no se adelante una más antigua
+    this.storageWrites = this.storageWrites
+      .then(async () => {
+        if (this.storageCache.get(storageKey) !== value) return;
+        const sealed = await encryptJsonWith(key, value);
+        localStorage.setItem(storageKey, JSON.stringify({ sealed }));
+      })
+      .catch((error) => console.error(`Error cifrando ${storageKey}:`, error));
+  }
+
+  private async loadSealedStorage(): Promise<void> {
+    const key = this.requireKey();
+    this.storageCache.clear();
+
+    for (const storageKey of SEALED_STORAGE_KEYS) {
+      const stored = localStorage.getItem(storageKey);
+      if (stored === null) continue;
+
+      try {
+        const parsed = JSON.parse(stored);
+        this.storageCache.set(
+          storageKey,
+          isSealedRecord(parsed) ? await decryptJsonWith<string>(key, parsed.sealed) : stored
+        );
+      } catch (error) {
+        console.error(`Error descifrando ${storageKey}:`, error);
+      }
+    }
+  }
+
+  private readonly handleActivity = () => {
+    this.lastActivity = Date.now();
+  };
+
+  private readonly checkAutoLock = () => {
+    const minutes = this.getAutoLockMinutes();
+    if (minutes > 0 && Date.now() - this.lastActivity >= minutes * 60000) {
+      this.lock();
+    }
+  };
+
+  private startAutoLock(): void {
+    if (this.autoLockInterval || typeof window === "undefined") return;
+
+    this.lastActivity = Date.now();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener("visibilitychange", this.checkAutoLock);
+    this.autoLockInterval = setInterval(this.checkAutoLock, AUTO_LOCK_CHECK_MS);
+  }
+
+  private stopAutoLock(): void {
+    if (!this.autoLockInterval) return;
+
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, this.handleActivity));
+    document.removeEventListener("visibilitychange", this.checkAutoLock);
+    clearInterval(this.autoLockInterval);
+    this.autoLockInterval = null;
+  }
+}
+
+const buildEncryptedFile = (iterations: number, salt: Uint8Array, iv: Uint8Array, data: Uint8Array): Blob => {
+  const header = new Uint8Array(FILE_HEADER_BYTES);
+  header.set(FILE_MAGIC, 0);
+  new DataView(header.buffer).setUint32(FILE_MAGIC.length, iterations);
+  header.set(salt, FILE_MAGIC.length + 4);
+  header.set(iv, FILE_MAGIC.length + 4 + SALT_BYTES);
+  return new Blob([header as BlobPart, data as BlobPart], { type: "application/octet-stream" });
+};
+
+const parseEncryptedFile = (bytes: Uint8Array) => {
+  if (bytes.length <= FILE_HEADER_BYTES) return null;
+  if (!FILE_MAGIC.every((byte, index) => bytes[index] === byte)) return null;
+
+  const saltStart = FILE_MAGIC.length + 4;
+  return {
+    iterations: new DataView(bytes.buffer, bytes.byteOffset).getUint32(FILE_MAGIC.length),
+    salt: bytes.slice(saltStart, saltStart + SALT_BYTES),
+    iv: bytes.slice(saltStart + SALT_BYTES, FILE_HEADER_BYTES),
+    data: bytes.slice(FILE_HEADER_BYTES),
+  };
+};
+
+export const isEncryptedFile = async (blob: Blob): Promise<boolean> => {
+  const header = new Uint8Array(await blob.slice(0, FILE_MAGIC.length).arrayBuffer());
+  return header.length === FILE_MAGIC.length && FILE_MAGIC.every((byte, index) => header[index] === byte);
+};
+
+/**
+ * Cifra un archivo exportado con su propia contraseña
+ */
+export const encryptFile = async (blob: Blob, passphrase: string): Promise<Blob> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { iv, data } = await encryptBytes(key, new Uint8Array(await blob.arrayBuffer()));
+  return buildEncryptedFile(PBKDF2_ITERATIONS, salt, iv, data);
+};
+
+export const decryptFile = async (blob: Blob, passphrase: string): Promise<Blob> => {
+  const file = parseEncryptedFile(new Uint8Array(await blob.arrayBuffer()));
+  if (!file) throw new Error("El archivo no está cifrado por Aparky");
+
+  const key = await deriveKey(passphrase, file.salt, file.iterations);
+  try {
+    return new Blob([(await decryptBytes(key, file.iv, file.data)) as BlobPart]);
+  } catch {
+    throw new Error("Contraseña incorrecta");
+  }
+};
+
+export const encryptionVault = new EncryptionVault();
+
+/**
+ * Guarda un registro cifrado si el cifrado está activado. Las claves de
+ * IndexedDB (`keyPaths`) se copian en claro para que el almacén las encuentre.
+ */
+export const sealRecord = async <T extends object>(record: T, keyPaths: string[]): Promise<T | SealedRecord> => {
+  if (!encryptionVault.isEnabled()) return record;
+
+  const sealed: SealedRecord = { sealed: await encryptionVault.encryptJson(record) };
+  keyPaths.forEach((keyPath) => {
+    const value = (record as Record<string, unknown>)[keyPath];
+    if (value !== undefined) sealed[keyPath] = value;
+  });
+  return sealed;
+};
+
+/**
+ * Lee un registro guardado, esté cifrado o no
+ */
+export const openRecord = async <T>(stored: unknown): Promise<T> => {
+  if (!isSealedRecord(stored)) return stored as T;
+
+  const { sealed, ...keys } = stored;
+  return { ...(await encryptionVault.decryptJson<object>(sealed)), ...keys } as T;
+};
+
+export const openRecords = <T>(stored: unknown[]): Promise<T[]> =>
+  Promise.all(stored.map((item) => openRecord<T>(item)));
@@ -94,6 +94,13 @@ export class Formatters {
     }
   }
 
+  // Formatear tamaño de archivo
+  static formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
   // Formatear coordenadas
   static formatCoordinates(lat: number, lng: number, precision: number = 4): string {
     return `${lat.toFixed(precision)}, ${lng.toFixed(precision)}`;
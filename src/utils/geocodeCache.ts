@@ -0,0 +1,203 @@
+// src/utils/geocodeCache.ts
+import type { StructuredAddress } from "../types/location";
+import { getUserPreferences } from "./preferences";
+import { encryptionVault } from "./encryption";
+
+/**
+ * Caché persistente de geocoding inverso. Las direcciones se guardan en
+ * IndexedDB por coordenadas redondeadas, de modo que aparcar de nuevo en la
+ * misma calle se resuelve al instante y sin conexión.
+ *
+ * Con el cifrado activado no se lee ni se escribe: cada entrada lleva las
+ * coordenadas en la clave y las más usadas delatan casa, trabajo y rutina.
+ */
+
+interface GeocodeCacheEntry {
+  key: string;
+  details: StructuredAddress;
+  latitude: number;
+  longitude: number;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface GeocodeCacheStats {
+  entries: number;
+  hits: number;
+}
+
+const ENTRIES_STORE = "entries";
+const MAX_ENTRIES = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class GeocodeCache {
+  private dbName = "aparky-geocode-cache";
+  private dbVersion = 2;
+  private db: IDBDatabase | null = null;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        // La versión 1 guardaba solo el texto de la dirección; se descarta
+        if (event.oldVersion < 2 && db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.deleteObjectStore(ENTRIES_STORE);
+        }
+
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const store = db.createObjectStore(ENTRIES_STORE, { keyPath: "key" });
+          store.createIndex("lastUsedAt", "lastUsedAt", { unique: false });
+        }
+      };
+    });
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) await this.init();
+    return this.db!.transaction([ENTRIES_STORE], mode).objectStore(ENTRIES_STORE);
+  }
+
+  /**
+   * Clave de caché: coordenadas redondeadas a la precisión configurada
+   */
+  getKey(lat: number, lng: number): string {
+    const precision = getUserPreferences().geocodeCachePrecision;
+    return `${lat.toFixed(precision)},${lng.toFixed(precision)}`;
+  }
+
+  /**
+   * Devuelve la dirección guardada si existe y no ha caducado
+   */
+  async get(lat: number, lng: number): Promise<StructuredAddress | null> {
+    if (encryptionVault.isEnabled()) return null;
+
+    try {
+      const key = this.getKey(lat, lng);
+      const store = await this.getStore("readwrite");
+      const ttl = getUserPreferences().geocodeCacheTtlDays * DAY_MS;
+
+      return await new Promise((resolve, reject) => {
+        const request = store.get(key);
+
+        request.onsuccess = () => {
+          const entry = request.result as GeocodeCacheEntry | undefined;
+          if (!entry) return resolve(null);
+
+          if (Date.now() - entry.createdAt > ttl) {
+            store.delete(key);
+            return resolve(null);
+          }
+
+          store.put({ ...entry, hits: entry.hits + 1, lastUsedAt: Date.now() });
+          resolve(entry.details);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error("Error reading geocode cache:", error);
+      return null;
+    }
+  }
+
+  async set(lat: number, lng: number, details: StructuredAddress): Promise<void> {
+    if (encryptionVault.isEnabled()) return;
+
+    try {
+      const now = Date.now();
+      const entry: GeocodeCacheEntry = {
+        key: this.getKey(lat, lng),
+        details,
+        latitude: lat,
+        longitude: lng,
+        createdAt: now,
+        lastUsedAt: now,
+        hits: 0,
+      };
+
+      const store = await this.getStore("readwrite");
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(entry);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      await this.evictOverflow();
+    } catch (error) {
+      console.error("Error writing geocode cache:", error);
+    }
+  }
+
+  /**
+   * Elimina las entradas menos usadas recientemente si se supera el límite
+   */
+  private async evictOverflow(): Promise<void> {
+    const store = await this.getStore("readwrite");
+
+    await new Promise<void>((resolve, reject) => {
+      const countRequest = store.count();
+
+      countRequest.onsuccess = () => {
+        let overflow = countRequest.result - MAX_ENTRIES;
+        if (overflow <= 0) return resolve();
+
+        const cursorRequest = store.index("lastUsedAt").openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || overflow <= 0) return resolve();
+
+          cursor.delete();
+          overflow--;
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      };
+      countRequest.onerror = () => reject(countRequest.error);
+    });
+  }
+
+  async getStats(): Promise<GeocodeCacheStats> {
+    try {
+      const store = await this.getStore("readonly");
+
+      return await new Promise((resolve, reject) => {
+        const request = store.getAll();
+
+        request.onsuccess = () => {
+          const entries = request.result as GeocodeCacheEntry[];
+          resolve({
+            entries: entries.length,
+            hits: entries.reduce((total, entry) => total + entry.hits, 0),
+          });
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error("Error reading geocode cache stats:", error);
+      return { entries: 0, hits: 0 };
+    }
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore("readwrite");
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    console.log("🗑️ Caché de direcciones vaciada");
+  }
+}
+
+export const geocodeCache = new GeocodeCache();
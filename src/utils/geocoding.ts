@@ -0,0 +1,281 @@
+// src/utils/geocoding.ts
+import type { StructuredAddress, UserPreferences } from "../types/location";
+import { getUserPreferences } from "./preferences";
+import { AddressUtils } from "./addressUtils";
+
+/**
+ * Capa de proveedores de geocoding. Cada proveedor sabe construir sus URLs y
+ * leer sus respuestas; las peticiones pasan por una cola compartida que
+ * respeta el límite de peticiones de cada proveedor y reintenta con espera
+ * exponencial.
+ */
+
+export type GeocodingProviderId = UserPreferences["geocodingProvider"];
+
+export interface GeocodingResult {
+  /** Dirección corta y legible */
+  address: string;
+  /** Nombre completo devuelto por el proveedor */
+  displayName: string;
+  latitude: number;
+  longitude: number;
+  details: StructuredAddress;
+}
+
+export interface GeocodingSearchOptions {
+  limit?: number;
+  /** Prioriza resultados cercanos a este punto */
+  near?: { latitude: number; longitude: number };
+}
+
+export interface GeocodingProvider {
+  id: GeocodingProviderId;
+  name: string;
+  defaultBaseUrl: string;
+  /** Tiempo mínimo entre peticiones al mismo servidor */
+  minIntervalMs: number;
+  buildReverseUrl(baseUrl: string, lat: number, lng: number): string;
+  parseReverse(data: unknown): GeocodingResult | null;
+  buildSearchUrl(baseUrl: string, query: string, options: GeocodingSearchOptions): string;
+  parseSearch(data: unknown): GeocodingResult[];
+}
+
+interface NominatimPlace {
+  display_name?: string;
+  lat: string;
+  lon: string;
+  address?: Record<string, string | undefined>;
+}
+
+interface PhotonFeature {
+  properties?: Record<string, string | undefined>;
+  geometry?: { coordinates?: number[] };
+}
+
+interface PhotonResponse {
+  features?: PhotonFeature[];
+}
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const toResult = (
+  details: StructuredAddress,
+  displayName: string,
+  latitude: number,
+  longitude: number,
+  fallback: string
+): GeocodingResult => {
+  // Sin calle ni ciudad se guarda al menos el nombre del lugar
+  const resolved = AddressUtils.formatAddress(details) ? details : { ...details, street: fallback };
+
+  return {
+    address: AddressUtils.formatAddress(resolved),
+    displayName,
+    latitude,
+    longitude,
+    details: resolved,
+  };
+};
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, "");
+
+const nominatimResult = (item: NominatimPlace | undefined): GeocodingResult | null => {
+  if (!item || !item.display_name) return null;
+
+  const address = item.address || {};
+  const details: StructuredAddress = {
+    street: address.road,
+    number: address.house_number,
+    neighbourhood: address.suburb || address.neighbourhood,
+    city: address.city || address.town || address.village,
+    postcode: address.postcode,
+    country: address.country,
+    provider: "nominatim",
+    resolvedAt: Date.now(),
+  };
+
+  return toResult(details, item.display_name, parseFloat(item.lat), parseFloat(item.lon), item.display_name);
+};
+
+export const nominatimProvider: GeocodingProvider = {
+  id: "nominatim",
+  name: "Nominatim (OpenStreetMap)",
+  defaultBaseUrl: "https://nominatim.openstreetmap.org",
+  minIntervalMs: 1000,
+
+  buildReverseUrl: (baseUrl, lat, lng) =>
+    `${trimBaseUrl(baseUrl)}/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`,
+
+  parseReverse: (data) => nominatimResult(data as NominatimPlace),
+
+  buildSearchUrl: (baseUrl, query, { limit = 5, near }) => {
+    const params = new URLSearchParams({ format: "json", q: query, limit: String(limit), addressdetails: "1" });
+    if (near) {
+      // Caja de ~20 km alrededor del punto, sin excluir resultados fuera de ella
+      const delta = 0.1;
+      params.set(
+        "viewbox",
+        [near.longitude - delta, near.latitude + delta, near.longitude + delta, near.latitude - delta].join(",")
+      );
+    }
+    return `${trimBaseUrl(baseUrl)}/search?${params.toString()}`;
+  },
+
+  parseSearch: (data) =>
+    Array.isArray(data)
+      ? (data as NominatimPlace[]).map(nominatimResult).filter((result): result is GeocodingResult => !!result)
+      : [],
+};
+
+const photonResult = (feature: PhotonFeature | undefined): GeocodingResult | null => {
+  const properties = feature?.properties;
+  const coordinates = feature?.geometry?.coordinates;
+  if (!properties || !Array.isArray(coordinates)) return null;
+
+  const details: StructuredAddress = {
+    street: properties.street || (properties.type === "street" ? properties.name : undefined),
+    number: properties.housenumber,
+    neighbourhood: properties.district || properties.locality,
+    city: properties.city,
+    postcode: properties.postcode,
+    country: properties.country,
+    provider: "photon",
+    resolvedAt: Date.now(),
+  };
+
+  const displayName = [properties.name, properties.street, properties.housenumber, properties.city, properties.country]
+    .filter(Boolean)
+    .join(", ");
+
+  return toResult(details, displayName, coordinates[1], coordinates[0], properties.name || displayName);
+};
+
+export const photonProvider: GeocodingProvider = {
+  id: "photon",
+  name: "Photon (Komoot)",
+  defaultBaseUrl: "https://photon.komoot.io",
+  minIntervalMs: 500,
+
+  buildReverseUrl: (baseUrl, lat, lng) => `${trimBaseUrl(baseUrl)}/reverse?lat=${lat}&lon=${lng}`,
+
+  parseReverse: (data) => {
+    const features = (data as PhotonResponse | null)?.features;
+    return Array.isArray(features) ? photonResult(features[0]) : null;
+  },
+
+  buildSearchUrl: (baseUrl, query, { limit = 5, near }) => {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    if (near) {
+      params.set("lat", String(near.latitude));
+      params.set("lon", String(near.longitude));
+    }
+    return `${trimBaseUrl(baseUrl)}/api?${params.toString()}`;
+  },
+
+  parseSearch: (data) => {
+    const features = (data as PhotonResponse | null)?.features;
+    return Array.isArray(features)
+      ? features.map(photonResult).filter((result): result is GeocodingResult => !!result)
+      : [];
+  },
+};
+
+export const geocodingProviders: Record<GeocodingProviderId, GeocodingProvider> = {
+  nominatim: nominatimProvider,
+  photon: photonProvider,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Cola de peticiones compartida. Las peticiones a un mismo servidor se
+ * ejecutan de una en una, separadas por el intervalo mínimo del proveedor.
+ */
+class GeocodingQueue {
+  private tails: Map<string, Promise<unknown>> = new Map();
+  private lastRequestAt: Map<string, number> = new Map();
+
+  enqueue(provider: GeocodingProvider, baseUrl: string, url: string): Promise<unknown> {
+    const key = `${provider.id}:${baseUrl}`;
+    const previous = this.tails.get(key) ?? Promise.resolve();
+
+    const request = previous.catch(() => undefined).then(() => this.fetchWithRetries(provider, key, url));
+    this.tails.set(key, request);
+
+    return request;
+  }
+
+  private async waitForSlot(provider: GeocodingProvider, key: string): Promise<void> {
+    const elapsed = Date.now() - (this.lastRequestAt.get(key) ?? 0);
+    if (elapsed < provider.minIntervalMs) {
+      await sleep(provider.minIntervalMs - elapsed);
+    }
+    this.lastRequestAt.set(key, Date.now());
+  }
+
+  private async fetchWithRetries(provider: GeocodingProvider, key: string, url: string): Promise<unknown> {
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      await this.waitForSlot(provider, key);
+
+      let retryAfterMs = 0;
+      try {
+        const response = await fetch(url, {
+          headers: { Accept: "application/json" },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (response.ok) return await response.json();
+
+        lastError = new Error(`Geocoding failed with status ${response.status}`);
+        if (!isRetryableStatus(response.status)) break;
+
+        retryAfterMs = (parseInt(response.headers.get("Retry-After") || "0") || 0) * 1000;
+      } catch (error) {
+        // Errores de red o tiempo de espera agotado
+        lastError = error;
+      }
+
+      if (attempt < MAX_RETRIES) {
+        const backoff = Math.max(retryAfterMs, BASE_BACKOFF_MS * 2 ** attempt);
+        console.warn(`⏳ ${provider.name}: reintento ${attempt + 1} en ${backoff} ms`);
+        await sleep(backoff);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+const geocodingQueue = new GeocodingQueue();
+
+/**
+ * Proveedor y servidor configurados en las preferencias
+ */
+export const getGeocodingProvider = (): { provider: GeocodingProvider; baseUrl: string } => {
+  const preferences = getUserPreferences();
+  const provider = geocodingProviders[preferences.geocodingProvider] ?? nominatimProvider;
+  const baseUrl = preferences.geocodingBaseUrl.trim() || provider.defaultBaseUrl;
+
+  return { provider, baseUrl };
+};
+
+export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodingResult | null> => {
+  const { provider, baseUrl } = getGeocodingProvider();
+  const data = await geocodingQueue.enqueue(provider, baseUrl, provider.buildReverseUrl(baseUrl, lat, lng));
+  return provider.parseReverse(data);
+};
+
+export const forwardGeocode = async (
+  query: string,
+  options: GeocodingSearchOptions = {}
+): Promise<GeocodingResult[]> => {
+  const { provider, baseUrl } = getGeocodingProvider();
+  const data = await geocodingQueue.enqueue(provider, baseUrl, provider.buildSearchUrl(baseUrl, query, options));
+  return provider.parseSearch(data);
+};
@@ -0,0 +1,152 @@
+// src/utils/geojson.ts
+import type { CarLocation, StructuredAddress } from "@/types/location";
+import { LocationUtils } from "./locationUtils";
+import { getPhotoFilename, isPhotoId } from "./photoStore";
+import { normalizeReminderOffsets } from "./reminders";
+
+/**
+ * Exportación e importación del historial como GeoJSON FeatureCollection.
+ * La posición va en la geometría y el resto de campos de `CarLocation` como
+ * propiedades. Las fotos solo se referencian por nombre de archivo.
+ */
+
+export interface LocationPropertiesOptions {
+  /** Añade los nombres de archivo de las fotos en `photos` */
+  includePhotoFilenames?: boolean;
+}
+
+interface GeoJsonFeature {
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: Record<string, unknown>;
+}
+
+const NUMBER_FIELDS = ["timestamp", "expiryTime", "cost", "extensionCount", "accuracy"] as const;
+const STRING_FIELDS = ["address", "note", "tariffId"] as const;
+
+/**
+ * Campos de la ubicación como propiedades planas (GeoJSON y ExtendedData de KML)
+ */
+export const locationToProperties = (
+  location: CarLocation,
+  { includePhotoFilenames = false }: LocationPropertiesOptions = {}
+): Record<string, unknown> => {
+  const photoFilenames = includePhotoFilenames ? location.photos?.filter(isPhotoId).map(getPhotoFilename) : undefined;
+  const properties: Record<string, unknown> = {
+    ...location,
+    photos: photoFilenames?.length ? photoFilenames : undefined,
+  };
+
+  // La posición va en la geometría y la papelera no se exporta
+  delete properties.latitude;
+  delete properties.longitude;
+  delete properties.deletedAt;
+
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+};
+
+const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof parsed === "number" && isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Reconstruye una ubicación sin validar a partir de sus propiedades. Acepta
+ * valores como texto, tal y como llegan desde KML. Las fotos quedan como
+ * nombres de archivo pendientes de resolver.
+ */
+export const propertiesToLocation = (
+  properties: Record<string, unknown>,
+  latitude: number | undefined,
+  longitude: number | undefined
+): Partial<CarLocation> => {
+  // Id nuevo para no pisar ubicaciones de este dispositivo
+  const location: Partial<CarLocation> = { id: LocationUtils.generateLocationId(), latitude, longitude };
+
+  NUMBER_FIELDS.forEach((field) => {
+    location[field] = toNumber(properties[field]);
+  });
+
+  STRING_FIELDS.forEach((field) => {
+    const value = properties[field];
+    if (typeof value === "string" && value.trim() !== "") location[field] = value;
+  });
+
+  const details = parseJsonValue(properties.addressDetails);
+  if (details && typeof details === "object" && !Array.isArray(details)) {
+    location.addressDetails = details as StructuredAddress;
+  }
+
+  const status = properties.geocodeStatus;
+  if (status === "pending" || status === "resolved" || status === "failed") {
+    location.geocodeStatus = status;
+  } else {
+    location.geocodeStatus = location.address || location.addressDetails ? "resolved" : "pending";
+  }
+
+  // Los archivos antiguos llevan un solo recordatorio en `reminderMinutes`
+  const reminderOffsets = normalizeReminderOffsets(
+    parseJsonValue(properties.reminderOffsets) ?? [toNumber(properties.reminderMinutes)]
+  );
+  if (reminderOffsets.length > 0) location.reminderOffsets = reminderOffsets;
+
+  const photos = parseJsonValue(properties.photos);
+  if (Array.isArray(photos)) {
+    location.photos = photos.filter((photo): photo is string => typeof photo === "string");
+  }
+
+  location.parkingType = LocationUtils.parseParkingType(properties.parkingType);
+  location.isManualPlacement = properties.isManualPlacement === true || properties.isManualPlacement === "true";
+
+  return location;
+};
+
+/**
+ * Genera una FeatureCollection con las ubicaciones indicadas
+ */
+export const locationsToGeoJson = (locations: CarLocation[], options: LocationPropertiesOptions = {}): string => {
+  const features: GeoJsonFeature[] = locations.map((location) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [location.longitude, location.latitude] },
+    properties: locationToProperties(location, options),
+  }));
+
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+};
+
+/**
+ * Lee los puntos de un GeoJSON como ubicaciones sin validar
+ */
+export const parseGeoJson = (json: string): Partial<CarLocation>[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("El archivo no es un GeoJSON válido");
+  }
+
+  const collection = data as { type?: unknown; features?: unknown };
+  const features = collection?.type === "Feature" ? [collection] : collection?.features;
+  if (!Array.isArray(features)) {
+    throw new Error("El archivo no es un GeoJSON válido");
+  }
+
+  return features
+    .filter(
+      (feature: Partial<GeoJsonFeature>) =>
+        feature?.geometry?.type === "Point" && Array.isArray(feature.geometry.coordinates)
+    )
+    .map((feature: GeoJsonFeature) => {
+      const [longitude, latitude] = feature.geometry.coordinates;
+      return propertiesToLocation(feature.properties ?? {}, toNumber(latitude), toNumber(longitude));
+    });
+};
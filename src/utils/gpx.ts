@@ -0,0 +1,121 @@
+// src/utils/gpx.ts
+import type { CarLocation } from "@/types/location";
+import { AddressUtils } from "./addressUtils";
+import { LocationUtils } from "./locationUtils";
+import { escapeXml } from "./helpers";
+
+/**
+ * Exportación e importación del historial en GPX 1.1, para abrirlo en apps de
+ * senderismo y herramientas GIS. Cada ubicación es un waypoint; los datos
+ * propios de Aparky van en `<extensions>`.
+ */
+
+const GPX_NAMESPACE = "http://www.topografix.com/GPX/1/1";
+const APARKY_NAMESPACE = "https://github.com/Axel-360/Aparky/gpx/1";
+const APARKY_PREFIX = "aparky";
+
+const element = (name: string, value: string | number | undefined): string =>
+  value === undefined || value === "" ? "" : `<${name}>${escapeXml(String(value))}</${name}>`;
+
+const toWaypoint = (location: CarLocation): string => {
+  const address = AddressUtils.getDisplayAddress(location);
+  const name = location.note || address || `Aparcamiento ${new Date(location.timestamp).toLocaleString("es-ES")}`;
+
+  const extensions = [
+    element(`${APARKY_PREFIX}:note`, location.note),
+    element(`${APARKY_PREFIX}:parkingType`, location.parkingType),
+    element(`${APARKY_PREFIX}:cost`, location.cost),
+    element(`${APARKY_PREFIX}:expiryTime`, location.expiryTime ? new Date(location.expiryTime).toISOString() : undefined),
+    element(`${APARKY_PREFIX}:accuracy`, location.accuracy),
+  ].join("");
+
+  return [
+    `  <wpt lat="${location.latitude}" lon="${location.longitude}">`,
+    `    ${element("time", new Date(location.timestamp).toISOString())}`,
+    `    ${element("name", name)}`,
+    address ? `    ${element("desc", address)}` : "",
+    location.parkingType ? `    ${element("type", location.parkingType)}` : "",
+    `    <extensions>${extensions}</extensions>`,
+    "  </wpt>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * Genera un documento GPX 1.1 con las ubicaciones indicadas
+ */
+export const locationsToGpx = (locations: CarLocation[]): string => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Aparky" xmlns="${GPX_NAMESPACE}" xmlns:${APARKY_PREFIX}="${APARKY_NAMESPACE}">`,
+    "  <metadata>",
+    `    ${element("name", "Historial de aparcamientos")}`,
+    `    ${element("time", new Date().toISOString())}`,
+    "  </metadata>",
+    ...locations.map(toWaypoint),
+    "</gpx>",
+  ].join("\n");
+};
+
+const getChildText = (parent: Element, localName: string): string | undefined => {
+  const child = Array.from(parent.children).find((node) => node.localName === localName);
+  const text = child?.textContent?.trim();
+  return text || undefined;
+};
+
+const parseNumber = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : undefined;
+};
+
+const parseTime = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : time;
+};
+
+const toLocation = (waypoint: Element, fallbackTime: number): Partial<CarLocation> => {
+  const extensions = Array.from(waypoint.children).find((node) => node.localName === "extensions");
+  const aparky = (localName: string) =>
+    extensions?.getElementsByTagNameNS(APARKY_NAMESPACE, localName).item(0)?.textContent?.trim();
+
+  const name = getChildText(waypoint, "name");
+  const description = getChildText(waypoint, "desc");
+  const typeText = aparky("parkingType") ?? getChildText(waypoint, "type");
+  const hasAparkyData = !!extensions && extensions.getElementsByTagNameNS(APARKY_NAMESPACE, "*").length > 0;
+
+  return {
+    id: LocationUtils.generateLocationId(),
+    latitude: parseNumber(waypoint.getAttribute("lat")),
+    longitude: parseNumber(waypoint.getAttribute("lon")),
+    timestamp: parseTime(getChildText(waypoint, "time")) ?? fallbackTime,
+    // En archivos de Aparky el nombre puede ser la dirección; la nota va aparte
+    note: hasAparkyData ? aparky("note") || undefined : name,
+    address: description,
+    geocodeStatus: description ? "resolved" : "pending",
+    parkingType: LocationUtils.parseParkingType(typeText),
+    cost: parseNumber(aparky("cost")),
+    expiryTime: parseTime(aparky("expiryTime")),
+    accuracy: parseNumber(aparky("accuracy")),
+    isManualPlacement: true,
+  };
+};
+
+/**
+ * Lee los waypoints de un GPX como ubicaciones sin validar.
+ * Los waypoints sin hora toman la del archivo o, si falta, la actual.
+ */
+export const parseGpx = (xml: string): Partial<CarLocation>[] => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.localName !== "gpx") {
+    throw new Error("El archivo no es un GPX válido");
+  }
+
+  const metadata = Array.from(doc.documentElement.children).find((node) => node.localName === "metadata");
+  const fallbackTime = (metadata && parseTime(getChildText(metadata, "time"))) || Date.now();
+
+  return Array.from(doc.getElementsByTagNameNS("*", "wpt")).map((waypoint) => toLocation(waypoint, fallbackTime));
+};
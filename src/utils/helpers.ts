@@ -18,3 +18,26 @@ export const copyToClipboard = (text: string): Promise<void> => {
   }
   return navigator.clipboard.writeText(text);
 };
+
+/**
+ * Descarga un contenido generado en el navegador como archivo
+ */
+export const downloadFile = (content: BlobPart, filename: string, type: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
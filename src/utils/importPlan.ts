@@ -0,0 +1,204 @@
+// src/utils/importPlan.ts
+import type {
+  CarLocation,
+  ImportConflict,
+  ImportConflictStrategy,
+  LocationImportOptions,
+  LocationImportPreview,
+  LocationImportReport,
+  QuarantinedLocation,
+  UserPreferences,
+} from "@/types/location";
+import { LocationUtils } from "./locationUtils";
+import { getImportSchemaVersion, migrateRecord, migrateRecords } from "./schema";
+
+/**
+ * Asistente de importación: compara el archivo con lo guardado y calcula el
+ * resultado según la estrategia elegida, sin descartar nunca ubicaciones propias.
+ */
+
+/** Margen para considerar parecidas dos ubicaciones cercanas */
+const NEAR_DUPLICATE_WINDOW_MS = 60 * 60 * 1000;
+
+export const IMPORT_STRATEGIES: Record<ImportConflictStrategy, { label: string; description: string }> = {
+  merge: { label: "Combinar", description: "Conserva tus datos y completa los campos vacíos con los del archivo" },
+  replace: { label: "Reemplazar", description: "Usa la versión del archivo" },
+  newest: {
+    label: "Más reciente",
+    description: "Usa la versión editada más tarde entera; la otra solo completa los campos vacíos",
+  },
+};
+
+export interface ParsedImportFile {
+  records: unknown[];
+  preferences: Partial<UserPreferences> | null;
+  preferredLocation: Record<string, unknown> | null;
+  lastKnownLocation: unknown;
+}
+
+/**
+ * Lee un archivo exportado con "Exportar Datos" (o una lista de ubicaciones)
+ * y lo actualiza a la versión actual del esquema
+ */
+export const parseImportFile = (text: string): ParsedImportFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es un JSON válido");
+  }
+
+  const file = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const records = Array.isArray(data) ? data : file.locations;
+  if (!Array.isArray(records)) {
+    throw new Error("Formato de archivo inválido");
+  }
+
+  const preferences =
+    file.preferences && typeof file.preferences === "object"
+      ? migrateRecord<Partial<UserPreferences>>(
+          "preferences",
+          file.preferences,
+          getImportSchemaVersion(data, "preferences")
+        )
+      : null;
+
+  const preferredLocation = file.locationPreferences
+    ? migrateRecord("preferredLocation", file.locationPreferences, getImportSchemaVersion(data, "preferredLocation"))
+    : null;
+
+  const migrated = migrateRecords<Partial<CarLocation>>("locations", records, getImportSchemaVersion(data, "locations"));
+
+  return {
+    // Los ids se fijan aquí para que la vista previa y la importación coincidan
+    records: migrated.map((location) =>
+      location && typeof location === "object" && !location.id
+        ? { ...location, id: `imported-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` }
+        : location
+    ),
+    preferences: preferences && Object.keys(preferences).length > 0 ? preferences : null,
+    preferredLocation,
+    lastKnownLocation: file.lastKnownLocation ?? null,
+  };
+};
+
+const positionKey = (location: CarLocation): string =>
+  `${location.latitude.toFixed(6)}_${location.longitude.toFixed(6)}_${location.timestamp}`;
+
+const getChangedFields = (current: CarLocation, incoming: CarLocation): (keyof CarLocation)[] => {
+  const fields = new Set([...Object.keys(current), ...Object.keys(incoming)] as (keyof CarLocation)[]);
+  return [...fields].filter(
+    (field) => field !== "id" && JSON.stringify(current[field]) !== JSON.stringify(incoming[field])
+  );
+};
+
+/**
+ * Clasifica las ubicaciones del archivo frente a las guardadas
+ */
+export const buildImportPreview = (
+  current: CarLocation[],
+  incoming: CarLocation[],
+  invalid: QuarantinedLocation[] = []
+): LocationImportPreview => {
+  const currentById = new Map(current.map((location) => [location.id, location]));
+  const currentKeys = new Set(current.map(positionKey));
+  const seenIds = new Set<string>();
+
+  const preview: LocationImportPreview = { added: [], identical: [], conflicts: [], nearDuplicates: [], invalid };
+
+  for (const location of incoming) {
+    // Un id repetido dentro del propio archivo solo cuenta una vez
+    if (seenIds.has(location.id)) continue;
+    seenIds.add(location.id);
+
+    const existing = currentById.get(location.id);
+    if (existing) {
+      const fields = getChangedFields(existing, location);
+      if (fields.length === 0) {
+        preview.identical.push(location);
+      } else {
+        preview.conflicts.push({ current: existing, incoming: location, fields });
+      }
+      continue;
+    }
+
+    if (currentKeys.has(positionKey(location))) {
+      preview.identical.push(location);
+      continue;
+    }
+
+    const similar = current.find(
+      (saved) =>
+        Math.abs(saved.timestamp - location.timestamp) <= NEAR_DUPLICATE_WINDOW_MS &&
+        LocationUtils.areLocationsSimilar(saved, location)
+    );
+    if (similar) {
+      preview.nearDuplicates.push({ incoming: location, existing: similar });
+    } else {
+      preview.added.push(location);
+      currentKeys.add(positionKey(location));
+    }
+  }
+
+  return preview;
+};
+
+/**
+ * Combina las dos versiones de una ubicación en conflicto. Las ubicaciones
+ * solo guardan cuándo se editaron por última vez (no cada campo), así que
+ * "newest" elige una versión entera y la otra solo rellena lo que falte.
+ */
+export const resolveImportConflict = (conflict: ImportConflict, strategy: ImportConflictStrategy): CarLocation => {
+  const { current, incoming, fields } = conflict;
+  if (strategy === "replace") return { ...incoming, id: current.id };
+
+  const incomingIsNewer =
+    strategy === "newest" && (incoming.updatedAt ?? incoming.timestamp) > (current.updatedAt ?? current.timestamp);
+  const [preferred, fallback] = incomingIsNewer ? [incoming, current] : [current, incoming];
+
+  const resolved: Record<string, unknown> = { ...current };
+  for (const field of fields) {
+    resolved[field] = preferred[field] !== undefined ? preferred[field] : fallback[field];
+  }
+  return resolved as unknown as CarLocation;
+};
+
+/**
+ * Aplica la vista previa a las ubicaciones actuales. Si se supera el límite,
+ * se descartan las nuevas más antiguas, nunca las que ya estaban guardadas.
+ */
+export const applyImportPreview = (
+  current: CarLocation[],
+  preview: LocationImportPreview,
+  options: LocationImportOptions,
+  maxLocations: number
+): { locations: CarLocation[]; report: LocationImportReport } => {
+  const resolved = new Map<string, CarLocation>();
+  for (const conflict of preview.conflicts) {
+    const strategy = options.overrides?.[conflict.current.id] ?? options.strategy;
+    resolved.set(conflict.current.id, resolveImportConflict(conflict, strategy));
+  }
+
+  const locations = current.map((location) => resolved.get(location.id) ?? location);
+  const updated = preview.conflicts.filter(
+    ({ current: saved }) => getChangedFields(saved, resolved.get(saved.id)!).length > 0
+  ).length;
+
+  const candidates = [
+    ...preview.added,
+    ...(options.includeNearDuplicates ? preview.nearDuplicates.map(({ incoming }) => incoming) : []),
+  ].sort((a, b) => b.timestamp - a.timestamp);
+  const additions = candidates.slice(0, Math.max(0, maxLocations - locations.length));
+
+  return {
+    locations: [...locations, ...additions],
+    report: {
+      added: additions.length,
+      updated,
+      identical: preview.identical.length,
+      nearDuplicatesSkipped: options.includeNearDuplicates ? 0 : preview.nearDuplicates.length,
+      invalid: preview.invalid.length,
+      overLimit: candidates.length - additions.length,
+    },
+  };
+};
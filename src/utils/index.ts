@@ -5,5 +5,6 @@ export * from "./timerManager";
 export * from "./helpers";
 export * from "./locationUtils";
 export * from "./formatters";
+export * from "./schema";
 export { LocationUtils } from "./locationUtils";
 export { Formatters } from "./formatters";
@@ -0,0 +1,121 @@
+// src/utils/kml.ts
+import type { CarLocation } from "@/types/location";
+import { AddressUtils } from "./addressUtils";
+import { escapeXml } from "./helpers";
+import { locationToProperties, propertiesToLocation, type LocationPropertiesOptions } from "./geojson";
+
+/**
+ * Exportación e importación del historial en KML para Google Earth. Las
+ * ubicaciones se agrupan en carpetas por tipo de aparcamiento y cada campo de
+ * `CarLocation` va en `<ExtendedData>`.
+ */
+
+const KML_NAMESPACE = "http://www.opengis.net/kml/2.2";
+
+const FOLDER_NAMES: Record<NonNullable<CarLocation["parkingType"]>, string> = {
+  Calle: "Calle",
+  Garaje: "Garaje",
+  Parking: "Aparcamiento",
+  Otro: "Otro",
+};
+
+const toExtendedData = (properties: Record<string, unknown>): string => {
+  const data = Object.entries(properties).map(([name, value]) => {
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return `        <Data name="${escapeXml(name)}"><value>${escapeXml(text)}</value></Data>`;
+  });
+  return ["      <ExtendedData>", ...data, "      </ExtendedData>"].join("\n");
+};
+
+const toPlacemark = (location: CarLocation, options: LocationPropertiesOptions): string => {
+  const address = AddressUtils.getDisplayAddress(location);
+  const name = location.note || address || `Aparcamiento ${new Date(location.timestamp).toLocaleString("es-ES")}`;
+
+  return [
+    "    <Placemark>",
+    `      <name>${escapeXml(name)}</name>`,
+    address ? `      <description>${escapeXml(address)}</description>` : "",
+    `      <TimeStamp><when>${new Date(location.timestamp).toISOString()}</when></TimeStamp>`,
+    toExtendedData(locationToProperties(location, options)),
+    `      <Point><coordinates>${location.longitude},${location.latitude}</coordinates></Point>`,
+    "    </Placemark>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * Genera un documento KML con una carpeta por tipo de aparcamiento
+ */
+export const locationsToKml = (locations: CarLocation[], options: LocationPropertiesOptions = {}): string => {
+  const folders = (Object.keys(FOLDER_NAMES) as NonNullable<CarLocation["parkingType"]>[])
+    .map((type) => {
+      const placemarks = locations.filter((location) => (location.parkingType || "Calle") === type);
+      if (placemarks.length === 0) return "";
+
+      return [
+        "  <Folder>",
+        `    <name>${FOLDER_NAMES[type]}</name>`,
+        ...placemarks.map((location) => toPlacemark(location, options)),
+        "  </Folder>",
+      ].join("\n");
+    })
+    .filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    "<Document>",
+    "  <name>Historial de aparcamientos</name>",
+    ...folders,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+};
+
+const findChild = (parent: Element, localName: string): Element | undefined =>
+  Array.from(parent.children).find((node) => node.localName === localName);
+
+const findDescendant = (parent: Element, localName: string): Element | undefined =>
+  parent.getElementsByTagNameNS("*", localName).item(0) ?? undefined;
+
+/**
+ * Lee los placemarks con punto de un KML como ubicaciones sin validar
+ */
+export const parseKml = (xml: string): Partial<CarLocation>[] => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.localName !== "kml") {
+    throw new Error("El archivo no es un KML válido");
+  }
+
+  return Array.from(doc.getElementsByTagNameNS("*", "Placemark")).flatMap((placemark) => {
+    const point = findDescendant(placemark, "Point");
+    const coordinates = point && findDescendant(point, "coordinates")?.textContent?.trim();
+    if (!coordinates) return [];
+
+    const [longitude, latitude] = coordinates.split(",").map(Number);
+    const properties: Record<string, unknown> = {};
+
+    Array.from(placemark.getElementsByTagNameNS("*", "Data")).forEach((data) => {
+      const name = data.getAttribute("name");
+      if (name) properties[name] = findDescendant(data, "value")?.textContent ?? "";
+    });
+
+    // KML de otras apps: se usan los campos estándar del placemark
+    if (properties.timestamp === undefined) {
+      const when = findDescendant(placemark, "when")?.textContent?.trim();
+      properties.timestamp = when ? Date.parse(when) : undefined;
+      properties.note = findChild(placemark, "name")?.textContent?.trim();
+      properties.address = findChild(placemark, "description")?.textContent?.trim();
+    }
+
+    // El tipo se deduce de la carpeta si no viene en los datos
+    if (properties.parkingType === undefined && placemark.parentElement?.localName === "Folder") {
+      const folderName = findChild(placemark.parentElement, "name")?.textContent?.trim();
+      properties.parkingType = Object.entries(FOLDER_NAMES).find(([, label]) => label === folderName)?.[0];
+    }
+
+    return [propertiesToLocation(properties, latitude, longitude)];
+  });
+};
@@ -4,6 +4,11 @@ import { toast } from "sonner";
 import { Button, Input } from "@/shared/ui";
 import type { CarLocation } from "@/types/location";
 import { LocationUtils } from "./locationUtils";
+import { AddressUtils } from "./addressUtils";
+import { getCarLocations } from "./storage";
+import { encryptionVault } from "./encryption";
+import type { GeocodingResult } from "./geocoding";
+import { AddressSearch } from "@/shared/components/AddressSearch";
 
 const STORAGE_KEY_LAST_LOCATION = "user-last-known-location";
 const STORAGE_KEY_USER_PREFERENCES_LOCATION = "user-preferred-default-location";
@@ -140,7 +145,7 @@ export class LocationManager {
         timestamp: Date.now(),
         source,
       };
-      localStorage.setItem(STORAGE_KEY_LAST_LOCATION, JSON.stringify(location));
+      encryptionVault.setItem(STORAGE_KEY_LAST_LOCATION, JSON.stringify(location));
     } catch (error) {
       console.error("Error saving last known location:", error);
     }
@@ -151,7 +156,7 @@ export class LocationManager {
    */
   static getLastKnownLocation(): StoredLocation | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_LAST_LOCATION);
+      const stored = encryptionVault.getItem(STORAGE_KEY_LAST_LOCATION);
       if (stored) {
         const parsed = JSON.parse(stored) as StoredLocation;
         // Validar que los datos sean válidos
@@ -197,7 +202,7 @@ export class LocationManager {
         address,
         isDefault,
       };
-      localStorage.setItem(STORAGE_KEY_USER_PREFERENCES_LOCATION, JSON.stringify(preference));
+      encryptionVault.setItem(STORAGE_KEY_USER_PREFERENCES_LOCATION, JSON.stringify(preference));
     } catch (error) {
       console.error("Error saving user preferred location:", error);
     }
@@ -208,7 +213,7 @@ export class LocationManager {
    */
   static getUserPreferredLocation(): UserLocationPreference | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_USER_PREFERENCES_LOCATION);
+      const stored = encryptionVault.getItem(STORAGE_KEY_USER_PREFERENCES_LOCATION);
       if (stored) {
         const parsed = JSON.parse(stored) as UserLocationPreference;
         if (
@@ -233,7 +238,7 @@ export class LocationManager {
    */
   static clearUserPreferredLocation(): void {
     try {
-      localStorage.removeItem(STORAGE_KEY_USER_PREFERENCES_LOCATION);
+      encryptionVault.removeItem(STORAGE_KEY_USER_PREFERENCES_LOCATION);
     } catch (error) {
       console.error("Error clearing user preferred location:", error);
     }
@@ -269,15 +274,18 @@ export class LocationManager {
   /**
    * Obtiene información sobre el origen de la ubicación actual
    */
-  static getLocationSourceInfo(): { hasPreferred: boolean; hasRecent: boolean; hasSaved: boolean } {
+  static getLocationSourceInfo(savedLocationsCount: number = 0): {
+    hasPreferred: boolean;
+    hasRecent: boolean;
+    hasSaved: boolean;
+  } {
     const preferred = this.getUserPreferredLocation();
     const lastKnown = this.getLastKnownLocation();
-    const savedLocations = JSON.parse(localStorage.getItem("car-locations") || "[]");
 
     return {
       hasPreferred: !!(preferred && preferred.isDefault),
       hasRecent: !!(lastKnown && this.isLocationRecent(lastKnown.timestamp)),
-      hasSaved: savedLocations.length > 0,
+      hasSaved: savedLocationsCount > 0,
     };
   }
 }
@@ -290,11 +298,13 @@ export const useSmartLocation = () => {
   } | null>(null);
 
   const [isLoading, setIsLoading] = React.useState(true);
+  const [savedLocationsCount, setSavedLocationsCount] = React.useState(0);
 
   React.useEffect(() => {
     const loadInitialLocation = async () => {
       try {
-        const savedLocations = JSON.parse(localStorage.getItem("car-locations") || "[]");
+        const savedLocations = await getCarLocations();
+        setSavedLocationsCount(savedLocations.length);
         const location = await LocationManager.getBestInitialLocation(savedLocations);
         setInitialLocation(location);
       } catch (error) {
@@ -325,7 +335,7 @@ export const useSmartLocation = () => {
     isLoading,
     updateLastKnownLocation,
     setPreferredLocation,
-    locationSourceInfo: LocationManager.getLocationSourceInfo(),
+    locationSourceInfo: LocationManager.getLocationSourceInfo(savedLocationsCount),
   };
 };
 
@@ -372,8 +382,8 @@ export const LocationPreferenceSettings: React.FC<{
     try {
       // Pequeña pausa para no saturar la API
       await new Promise((resolve) => setTimeout(resolve, 300));
-      const address = await LocationUtils.reverseGeocode(lat, lng);
-      setPendingAddress(address || `${lat.toFixed(4)}, ${lng.toFixed(4)}`);
+      const details = await LocationUtils.reverseGeocode(lat, lng);
+      setPendingAddress(details ? AddressUtils.formatAddress(details) : `${lat.toFixed(4)}, ${lng.toFixed(4)}`);
     } catch (error) {
       console.error("Error obteniendo dirección:", error);
       setPendingAddress(`${lat.toFixed(4)}, ${lng.toFixed(4)}`);
@@ -409,6 +419,15 @@ export const LocationPreferenceSettings: React.FC<{
     );
   };
 
+  const handleAddressSelected = (result: GeocodingResult) => {
+    setPendingLocation([result.latitude, result.longitude]);
+    setPendingAddress(result.address);
+
+    if (!locationName.trim()) {
+      setLocationName(result.address.split(",")[0]);
+    }
+  };
+
   const handleSavePreference = () => {
     if (pendingLocation && locationName.trim()) {
       //  Guardar con la dirección incluida
@@ -519,6 +538,10 @@ export const LocationPreferenceSettings: React.FC<{
               isSettingLocation ? "Obteniendo..." : "Usar actual"
             )
           ),
+          React.createElement(AddressSearch, {
+            onSelect: handleAddressSelected,
+            placeholder: "O busca una dirección...",
+          }),
           pendingLocation &&
             React.createElement(
               "div",
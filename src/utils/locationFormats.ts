@@ -0,0 +1,77 @@
+// src/utils/locationFormats.ts
+import type { CarLocation } from "@/types/location";
+import { locationsToGpx, parseGpx } from "./gpx";
+import { locationsToGeoJson, parseGeoJson, type LocationPropertiesOptions } from "./geojson";
+import { locationsToKml, parseKml } from "./kml";
+import { downloadFile } from "./helpers";
+import { photoStore } from "./photoStore";
+
+/**
+ * Punto común para exportar e importar el historial en formatos geográficos
+ */
+
+export type LocationFileFormat = "gpx" | "geojson" | "kml";
+
+export const LOCATION_FILE_FORMATS: Record<LocationFileFormat, { label: string; extension: string; mimeType: string }> =
+  {
+    gpx: { label: "GPX", extension: "gpx", mimeType: "application/gpx+xml" },
+    geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+    kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  };
+
+export const LOCATION_FILE_ACCEPT = ".gpx,.geojson,.json,.kml";
+
+/**
+ * Descarga las ubicaciones en el formato indicado
+ */
+export const exportLocationsToFile = (
+  locations: CarLocation[],
+  format: LocationFileFormat,
+  options: LocationPropertiesOptions = {}
+): void => {
+  const content =
+    format === "gpx"
+      ? locationsToGpx(locations)
+      : format === "geojson"
+        ? locationsToGeoJson(locations, options)
+        : locationsToKml(locations, options);
+
+  const { extension, mimeType } = LOCATION_FILE_FORMATS[format];
+  downloadFile(content, `aparky-${new Date().toISOString().split("T")[0]}.${extension}`, mimeType);
+};
+
+const detectFormat = (fileName: string, text: string): LocationFileFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "gpx" || extension === "kml") return extension;
+  if (extension === "geojson" || extension === "json") return "geojson";
+
+  const start = text.trimStart().slice(0, 500);
+  if (start.startsWith("{")) return "geojson";
+  if (start.includes("<gpx")) return "gpx";
+  if (start.includes("<kml")) return "kml";
+  return null;
+};
+
+/**
+ * Lee un archivo GPX, GeoJSON o KML. Las fotos referenciadas por nombre de
+ * archivo solo se conservan si ya existen en este dispositivo.
+ */
+export const parseLocationFile = async (
+  fileName: string,
+  text: string
+): Promise<{ format: LocationFileFormat; records: Partial<CarLocation>[] }> => {
+  const format = detectFormat(fileName, text);
+  if (!format) {
+    throw new Error("Formato de archivo no reconocido. Usa GPX, GeoJSON o KML.");
+  }
+
+  const parsed = format === "gpx" ? parseGpx(text) : format === "geojson" ? parseGeoJson(text) : parseKml(text);
+
+  const records = await Promise.all(
+    parsed.map(async (record) =>
+      record.photos ? { ...record, photos: await photoStore.resolveFilenames(record.photos) } : record
+    )
+  );
+
+  return { format, records };
+};
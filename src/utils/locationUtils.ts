@@ -1,5 +1,7 @@
 // src/utils/locationUtils.ts
-import type { CarLocation, LocationWithAccuracy } from "@/types/location";
+import type { CarLocation, LocationWithAccuracy, StructuredAddress } from "@/types/location";
+import { geocodeCache } from "./geocodeCache";
+import { reverseGeocode } from "./geocoding";
 
 export class LocationUtils {
   // Calcular distancia entre dos puntos (fórmula Haversine)
@@ -40,36 +42,17 @@ export class LocationUtils {
       .sort((a, b) => a.distance - b.distance);
   }
 
-  // Obtener dirección desde coordenadas (geocoding inverso)
-  static async reverseGeocode(lat: number, lng: number): Promise<string | null> {
+  // Obtener dirección desde coordenadas (geocoding inverso), usando la caché persistente
+  static async reverseGeocode(lat: number, lng: number): Promise<StructuredAddress | null> {
+    const cached = await geocodeCache.get(lat, lng);
+    if (cached) return cached;
+
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`,
-        {
-          headers: {
-            "User-Agent": "Aparky/1.0.0",
-          },
-        }
-      );
-
-      if (!response.ok) throw new Error("Geocoding failed");
-
-      const data = await response.json();
-
-      if (data && data.display_name) {
-        // Formatear dirección de forma más legible
-        const address = data.address || {};
-        const parts = [
-          address.road,
-          address.house_number,
-          address.suburb || address.neighbourhood,
-          address.city || address.town || address.village,
-        ].filter(Boolean);
-
-        return parts.length > 0 ? parts.join(", ") : data.display_name;
-      }
+      const result = await reverseGeocode(lat, lng);
+      if (!result) return null;
 
-      return null;
+      await geocodeCache.set(lat, lng, result.details);
+      return result.details;
     } catch (error) {
       console.error("Error en geocoding inverso:", error);
       return null;
@@ -90,6 +73,12 @@ export class LocationUtils {
     );
   }
 
+  // Tipo de aparcamiento leído de datos externos (enlaces, archivos importados)
+  static parseParkingType(value: unknown): CarLocation["parkingType"] {
+    const types: NonNullable<CarLocation["parkingType"]>[] = ["Calle", "Garaje", "Parking", "Otro"];
+    return types.find((type) => type === value);
+  }
+
   // Generar ID único para ubicación
   static generateLocationId(): string {
     return `loc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
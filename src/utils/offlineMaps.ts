@@ -270,6 +270,9 @@ export const PREDEFINED_AREAS: Record<string, MapArea[]> = {
   ],
 };
 
+/** Áreas de una copia de seguridad restaurada que faltan por volver a descargar */
+const PENDING_AREAS_KEY = "offline-areas-pending-download";
+
 export class OfflineMapManager {
   private dbName = "aparky-offline-maps";
   private dbVersion = 2;
@@ -510,6 +513,28 @@ export class OfflineMapManager {
     });
   }
 
+  getPendingAreas(): MapArea[] {
+    try {
+      const stored = localStorage.getItem(PENDING_AREAS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Error reading pending areas:", error);
+      return [];
+    }
+  }
+
+  setPendingAreas(areas: MapArea[]): void {
+    if (areas.length === 0) {
+      localStorage.removeItem(PENDING_AREAS_KEY);
+    } else {
+      localStorage.setItem(PENDING_AREAS_KEY, JSON.stringify(areas));
+    }
+  }
+
+  removePendingArea(areaId: string): void {
+    this.setPendingAreas(this.getPendingAreas().filter((area) => area.id !== areaId));
+  }
+
   private async saveArea(area: MapArea): Promise<void> {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(["areas"], "readwrite");
@@ -0,0 +1,406 @@
+// src/utils/photoStore.ts
+import { encryptionVault } from "./encryption";
+
+/**
+ * Almacén de fotos en IndexedDB. Cada foto se guarda una sola vez como Blob,
+ * identificada por el hash de su contenido, junto con una miniatura. Las
+ * ubicaciones solo guardan el id (`photo-<hash>`). Con el cifrado activado,
+ * la foto y la miniatura se guardan cifradas.
+ *
+ * No se llevan contadores de referencias: el repositorio de ubicaciones sabe
+ * qué fotos siguen en uso (también en la papelera y en el historial) y pide
+ * borrar las demás con `deleteUnused`.
+ */
+
+export type PhotoVariant = "full" | "thumbnail";
+
+interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  thumbnail: Blob;
+  type: string;
+  size: number;
+  createdAt: number;
+  /** Última vez que se guardó o reutilizó */
+  usedAt?: number;
+  encrypted?: boolean;
+  thumbnailType?: string;
+}
+
+const PHOTOS_STORE = "photos";
+const PHOTO_ID_PREFIX = "photo-";
+const THUMBNAIL_SIZE = 240;
+const THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Una foto recién guardada aún no la referencia ninguna ubicación: el
+ * guardado que la usa puede estar en curso (o en otra pestaña)
+ */
+const UNUSED_PHOTO_GRACE_MS = 10 * 60 * 1000;
+
+export const isPhotoId = (value: string): boolean => value.startsWith(PHOTO_ID_PREFIX);
+
+/** Nombre de archivo con el que se exporta una foto */
+export const getPhotoFilename = (id: string): string => `${id}.jpg`;
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  if (typeof crypto !== "undefined" && crypto.subtle) {
+    const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  // Sin Web Crypto (contexto no seguro) no se puede deduplicar
+  return `${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+};
+
+const createThumbnail = async (blob: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const thumbnail = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", THUMBNAIL_QUALITY)
+    );
+    return thumbnail ?? blob;
+  } catch (error) {
+    console.warn("Could not create photo thumbnail:", error);
+    return blob;
+  }
+};
+
+class PhotoStore {
+  private dbName = "aparky-photos";
+  private dbVersion = 1;
+  private db: IDBDatabase | null = null;
+  private objectUrls: Map<string, string> = new Map();
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+          db.createObjectStore(PHOTOS_STORE, { keyPath: "id" });
+        }
+      };
+    });
+  }
+
+  private async getRecord(id: string): Promise<StoredPhoto | null> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([PHOTOS_STORE], "readonly").objectStore(PHOTOS_STORE).get(id);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Guarda una foto (data URL o Blob) y devuelve su id. Si ya existe una foto
+   * con el mismo contenido se reutiliza.
+   */
+  async put(photo: string | Blob): Promise<string> {
+    if (typeof photo === "string" && isPhotoId(photo)) return photo;
+
+    if (!this.db) await this.init();
+
+    const blob = typeof photo === "string" ? await dataUrlToBlob(photo) : photo;
+    const id = `${PHOTO_ID_PREFIX}${await hashBlob(blob)}`;
+
+    const existing = await this.getRecord(id);
+    if (existing) {
+      await this.putRecord({ ...existing, usedAt: Date.now() });
+      return id;
+    }
+
+    const record = await this.seal({
+      id,
+      blob,
+      thumbnail: await createThumbnail(blob),
+      type: blob.type,
+      size: blob.size,
+      createdAt: Date.now(),
+      usedAt: Date.now(),
+    });
+
+    await this.putRecord(record);
+    return id;
+  }
+
+  private async putRecord(record: StoredPhoto): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([PHOTOS_STORE], "readwrite").objectStore(PHOTOS_STORE).put(record);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Cifra la foto y la miniatura si el cifrado está activado
+   */
+  private async seal(record: StoredPhoto): Promise<StoredPhoto> {
+    if (!encryptionVault.isEnabled()) return record;
+
+    return {
+      ...record,
+      blob: await encryptionVault.encryptBlob(record.blob),
+      thumbnail: await encryptionVault.encryptBlob(record.thumbnail),
+      thumbnailType: record.thumbnail.type,
+      encrypted: true,
+    };
+  }
+
+  private async open(record: StoredPhoto): Promise<StoredPhoto> {
+    const { encrypted, thumbnailType, ...photo } = record;
+    if (!encrypted) return record;
+
+    return {
+      ...photo,
+      blob: await encryptionVault.decryptBlob(record.blob, record.type),
+      thumbnail: await encryptionVault.decryptBlob(record.thumbnail, thumbnailType || "image/jpeg"),
+    };
+  }
+
+  /**
+   * Vuelve a guardar todas las fotos según el modo de cifrado actual
+   */
+  async reseal(): Promise<number> {
+    if (!this.db) await this.init();
+
+    const records = await new Promise<StoredPhoto[]>((resolve, reject) => {
+      const request = this.db!.transaction([PHOTOS_STORE], "readonly").objectStore(PHOTOS_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    let changed = 0;
+    for (const record of records) {
+      if (!!record.encrypted === encryptionVault.isEnabled()) continue;
+
+      await this.putRecord(await this.seal(await this.open(record)));
+      changed++;
+    }
+
+    console.log(`🔐 ${changed} fotos guardadas de nuevo`);
+    return changed;
+  }
+
+  /**
+   * Sustituye las fotos embebidas (data URL) por ids del almacén
+   */
+  async externalize(photos?: string[]): Promise<string[] | undefined> {
+    if (!photos || photos.length === 0) return photos;
+    if (photos.every(isPhotoId)) return photos;
+
+    const ids: string[] = [];
+    for (const photo of photos) {
+      try {
+        ids.push(await this.put(photo));
+      } catch (error) {
+        console.error("Error storing photo:", error);
+        ids.push(photo);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Convierte ids en data URLs (para exportar fuera del dispositivo)
+   */
+  async inline(photos?: string[]): Promise<string[] | undefined> {
+    if (!photos || photos.length === 0) return photos;
+
+    const inlined: string[] = [];
+    for (const photo of photos) {
+      if (!isPhotoId(photo)) {
+        inlined.push(photo);
+        continue;
+      }
+
+      const blob = await this.getBlob(photo);
+      if (blob) inlined.push(await blobToDataUrl(blob));
+    }
+    return inlined;
+  }
+
+  /**
+   * Convierte nombres de archivo exportados en ids de fotos guardadas en este dispositivo
+   */
+  async resolveFilenames(filenames: string[]): Promise<string[]> {
+    const ids: string[] = [];
+    for (const filename of filenames) {
+      const id = filename.replace(/^.*\//, "").replace(/\.[a-z0-9]+$/i, "");
+      if (!isPhotoId(id)) continue;
+
+      try {
+        if (await this.getRecord(id)) ids.push(id);
+      } catch (error) {
+        console.error("Error resolving photo filename:", error);
+      }
+    }
+    return ids;
+  }
+
+  async getBlob(id: string, variant: PhotoVariant = "full"): Promise<Blob | null> {
+    try {
+      const record = await this.getRecord(id);
+      if (!record) return null;
+
+      const photo = await this.open(record);
+      return variant === "thumbnail" ? photo.thumbnail : photo.blob;
+    } catch (error) {
+      console.error("Error reading photo:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Data URL de una foto, para incrustarla en enlaces compartidos
+   */
+  async getDataUrl(photo: string, variant: PhotoVariant = "full"): Promise<string | null> {
+    if (!isPhotoId(photo)) return photo;
+
+    const blob = await this.getBlob(photo, variant);
+    return blob ? blobToDataUrl(blob) : null;
+  }
+
+  /**
+   * Devuelve una URL mostrable. Las data URL antiguas se devuelven tal cual.
+   */
+  async getObjectUrl(photo: string, variant: PhotoVariant = "full"): Promise<string | null> {
+    if (!isPhotoId(photo)) return photo;
+
+    const cacheKey = `${photo}:${variant}`;
+    const cached = this.objectUrls.get(cacheKey);
+    if (cached) return cached;
+
+    const blob = await this.getBlob(photo, variant);
+    if (!blob) return null;
+
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(cacheKey, url);
+    return url;
+  }
+
+  /**
+   * Borra las fotos que no están en `referenced`. Con `candidates` solo se
+   * miran esas; sin ellas se revisa todo el almacén. Las guardadas hace poco
+   * se respetan aunque nadie las use todavía.
+   */
+  async deleteUnused(referenced: Set<string>, candidates?: string[]): Promise<number> {
+    if (candidates?.length === 0) return 0;
+    if (!this.db) await this.init();
+
+    const limit = Date.now() - UNUSED_PHOTO_GRACE_MS;
+    const freed: string[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction([PHOTOS_STORE], "readwrite");
+      const store = transaction.objectStore(PHOTOS_STORE);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      const release = (record: StoredPhoto | undefined) => {
+        if (!record || referenced.has(record.id) || (record.usedAt ?? record.createdAt) > limit) return;
+
+        store.delete(record.id);
+        freed.push(record.id);
+      };
+
+      if (candidates) {
+        new Set(candidates).forEach((id) => {
+          const request = store.get(id);
+          request.onsuccess = () => release(request.result as StoredPhoto | undefined);
+        });
+      } else {
+        const request = store.getAll();
+        request.onsuccess = () => (request.result as StoredPhoto[]).forEach(release);
+      }
+    });
+
+    freed.forEach((id) => this.revokeObjectUrls(id));
+
+    if (freed.length > 0) {
+      console.log(`🗑️ ${freed.length} fotos sin usar eliminadas`);
+    }
+    return freed.length;
+  }
+
+  /**
+   * Libera las fotos descifradas que se estaban mostrando
+   */
+  clearObjectUrls(): void {
+    this.objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    this.objectUrls.clear();
+  }
+
+  private revokeObjectUrls(id: string): void {
+    (["full", "thumbnail"] as PhotoVariant[]).forEach((variant) => {
+      const url = this.objectUrls.get(`${id}:${variant}`);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.objectUrls.delete(`${id}:${variant}`);
+      }
+    });
+  }
+
+  async getStats(): Promise<{ count: number; totalSize: number }> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([PHOTOS_STORE], "readonly").objectStore(PHOTOS_STORE).getAll();
+
+      request.onsuccess = () => {
+        const photos = request.result as StoredPhoto[];
+        resolve({
+          count: photos.length,
+          totalSize: photos.reduce((total, photo) => total + photo.size + photo.thumbnail.size, 0),
+        });
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const photoStore = new PhotoStore();
+
+encryptionVault.onLockChange((locked) => {
+  if (locked) photoStore.clearObjectUrls();
+});
@@ -11,9 +11,17 @@ export const defaultPreferences: UserPreferences = {
   mapType: "osm",
   autoSave: false,
   notifications: true,
-  defaultReminderMinutes: 15,
+  defaultReminderOffsets: [15],
   maxPhotos: 3,
   photoQuality: "medium",
+  trashRetentionDays: 30,
+  geocodeCachePrecision: 4,
+  geocodeCacheTtlDays: 90,
+  geocodingProvider: "nominatim",
+  geocodingBaseUrl: "",
+  backupFrequency: "weekly",
+  backupKeepCount: 5,
+  tariffProfiles: [],
 };
 
 export const getUserPreferences = (): UserPreferences => {
@@ -0,0 +1,46 @@
+// src/utils/reminders.ts
+
+/**
+ * Recordatorios de un temporizador, en minutos antes de la expiración.
+ */
+
+/** Avisos que se ofrecen para elegir */
+export const REMINDER_OFFSET_OPTIONS = [2, 5, 10, 15, 30, 60];
+
+export const MAX_REMINDER_OFFSETS = 5;
+
+/** El mayor aviso que se puede pedir (un día antes) */
+const MAX_REMINDER_MINUTES = 24 * 60;
+
+/**
+ * Deja los minutos enteros, positivos y sin repetir, de mayor a menor: el
+ * primero es el aviso más lejano a la expiración
+ */
+export const normalizeReminderOffsets = (offsets: unknown): number[] => {
+  if (!Array.isArray(offsets)) return [];
+
+  const minutes = offsets
+    .map((offset) => (typeof offset === "string" ? Number(offset) : offset))
+    .filter((offset): offset is number => typeof offset === "number" && isFinite(offset))
+    .map(Math.round)
+    .filter((offset) => offset > 0 && offset <= MAX_REMINDER_MINUTES);
+
+  return [...new Set(minutes)].sort((a, b) => b - a).slice(0, MAX_REMINDER_OFFSETS);
+};
+
+/**
+ * Minutos del primer aviso, o 0 si no hay ninguno
+ */
+export const getFirstReminderOffset = (offsets?: number[]): number => (offsets?.length ? Math.max(...offsets) : 0);
+
+/**
+ * "30, 10 y 2 min"
+ */
+export const formatReminderOffsets = (offsets?: number[]): string => {
+  const sorted = normalizeReminderOffsets(offsets);
+  if (sorted.length === 0) return "Sin recordatorios";
+
+  const last = sorted[sorted.length - 1];
+  const list = sorted.length > 1 ? `${sorted.slice(0, -1).join(", ")} y ${last}` : String(last);
+  return `${list} min`;
+};
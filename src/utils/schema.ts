@@ -0,0 +1,291 @@
+// src/utils/schema.ts
+import { encryptionVault, isSealedRecord } from "./encryption";
+
+/**
+ * Registro de versiones del esquema de datos persistidos.
+ *
+ * Cada conjunto de datos tiene su propia lista de migraciones numeradas. Una
+ * migración recibe un registro en la versión anterior y lo devuelve en la suya;
+ * nunca debe descartar datos que pueda reparar.
+ */
+
+export type SchemaDataset = "locations" | "preferences" | "timers" | "preferredLocation";
+
+type SchemaRecord = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate: (record: SchemaRecord) => SchemaRecord;
+}
+
+const SCHEMA_VERSIONS_KEY = "data-schema-versions";
+
+/** Versión asumida para datos sin versión (anteriores al registro) */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+/** Claves de localStorage de cada conjunto (las ubicaciones viven en IndexedDB) */
+const STORAGE_KEYS: Record<Exclude<SchemaDataset, "locations">, string> = {
+  preferences: "user-preferences",
+  timers: "active_timers_backup",
+  preferredLocation: "user-preferred-default-location",
+};
+
+const toNumber = (value: unknown): unknown => {
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+const toTimestamp = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    const numeric = toNumber(value);
+    if (typeof numeric === "number") return numeric;
+
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? value : parsed;
+  }
+  return value;
+};
+
+/** Direcciones que en realidad son coordenadas ("⏳ 40.416800, -3.703800") */
+const PENDING_ADDRESS_PATTERN = /^(⏳\s*)?-?\d+\.\d+,?\s*-?\d+\.\d+$/;
+
+const isSchemaRecord = (value: unknown): value is SchemaRecord => {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+};
+
+/** Aplica `migrate` a cada estado de la copia de timers (`[id, estado][]`) */
+const mapTimerStates = (backup: SchemaRecord, migrate: (state: SchemaRecord) => SchemaRecord): SchemaRecord => {
+  if (!Array.isArray(backup.states)) return backup;
+
+  return {
+    ...backup,
+    states: backup.states.map((entry: unknown) => {
+      if (!Array.isArray(entry) || !isSchemaRecord(entry[1])) return entry;
+      return [entry[0], migrate(entry[1])];
+    }),
+  };
+};
+
+const migrations: Record<SchemaDataset, SchemaMigration[]> = {
+  locations: [
+    {
+      version: 2,
+      description: "Normaliza coordenadas, fechas e ids guardados como texto",
+      migrate: (location) => {
+        const { lat, lng, ...rest } = location;
+
+        return {
+          ...rest,
+          id: typeof rest.id === "number" ? String(rest.id) : rest.id,
+          latitude: toNumber(rest.latitude ?? lat),
+          longitude: toNumber(rest.longitude ?? lng),
+          timestamp: toTimestamp(rest.timestamp),
+          photos: Array.isArray(rest.photos) ? rest.photos : typeof rest.photos === "string" ? [rest.photos] : undefined,
+        };
+      },
+    },
+    {
+      version: 3,
+      description: "Sustituye el prefijo ⏳ de las direcciones por un estado de geocoding explícito",
+      migrate: (location) => {
+        if (location.geocodeStatus) return location;
+
+        const address = typeof location.address === "string" ? location.address.trim() : "";
+        if (!address || PENDING_ADDRESS_PATTERN.test(address)) {
+          return { ...location, address: undefined, geocodeStatus: "pending" };
+        }
+
+        // Las direcciones antiguas se conservan como texto, sin campos estructurados
+        return { ...location, address, geocodeStatus: "resolved" };
+      },
+    },
+    {
+      version: 4,
+      description: "Sustituye el recordatorio único por una lista de recordatorios",
+      migrate: ({ reminderMinutes, ...location }) => {
+        if (location.reminderOffsets || typeof reminderMinutes !== "number" || reminderMinutes <= 0) return location;
+        return { ...location, reminderOffsets: [reminderMinutes] };
+      },
+    },
+  ],
+  preferences: [
+    {
+      version: 2,
+      description: "Sustituye el recordatorio por defecto por una lista de recordatorios",
+      migrate: ({ defaultReminderMinutes, ...preferences }) => {
+        if (preferences.defaultReminderOffsets || typeof defaultReminderMinutes !== "number") return preferences;
+        return { ...preferences, defaultReminderOffsets: [defaultReminderMinutes] };
+      },
+    },
+  ],
+  timers: [
+    {
+      version: 2,
+      description: "Marca como avisados los recordatorios anteriores al último guardado",
+      migrate: (backup) => {
+        const savedAt = typeof backup.timestamp === "number" ? backup.timestamp : Date.now();
+        return mapTimerStates(backup, (state) => {
+          const reminderFired = typeof state.reminderTime === "number" && state.reminderTime <= savedAt;
+          return { ...state, reminderFired: state.reminderFired ?? reminderFired };
+        });
+      },
+    },
+    {
+      version: 3,
+      description: "Guarda cada recordatorio por separado",
+      migrate: (backup) =>
+        mapTimerStates(backup, ({ reminderTime, reminderFired, ...state }) => {
+          if (Array.isArray(state.reminders)) return state;
+
+          const reminders =
+            typeof reminderTime === "number" && typeof state.expiryTime === "number"
+              ? [
+                  {
+                    minutesBefore: Math.round((state.expiryTime - reminderTime) / 60000),
+                    time: reminderTime,
+                    fired: reminderFired === true,
+                  },
+                ]
+              : [];
+          return { ...state, reminders };
+        }),
+    },
+  ],
+  preferredLocation: [
+    {
+      version: 2,
+      description: "Normaliza coordenadas guardadas como texto",
+      migrate: (preference) => ({
+        ...preference,
+        latitude: toNumber(preference.latitude),
+        longitude: toNumber(preference.longitude),
+      }),
+    },
+  ],
+};
+
+export const getCurrentSchemaVersion = (dataset: SchemaDataset): number => {
+  const list = migrations[dataset];
+  return list.length > 0 ? list[list.length - 1].version : LEGACY_SCHEMA_VERSION;
+};
+
+export const getCurrentSchemaVersions = (): Record<SchemaDataset, number> => ({
+  locations: getCurrentSchemaVersion("locations"),
+  preferences: getCurrentSchemaVersion("preferences"),
+  timers: getCurrentSchemaVersion("timers"),
+  preferredLocation: getCurrentSchemaVersion("preferredLocation"),
+});
+
+/**
+ * Aplica en orden las migraciones posteriores a `fromVersion`
+ */
+export const migrateRecord = <T = SchemaRecord>(dataset: SchemaDataset, record: unknown, fromVersion: number): T => {
+  if (!isSchemaRecord(record)) return record as T;
+
+  return migrations[dataset]
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => {
+      try {
+        return migration.migrate(current);
+      } catch (error) {
+        console.error(`Error aplicando migración ${dataset} v${migration.version}:`, error);
+        return current;
+      }
+    }, record) as T;
+};
+
+export const migrateRecords = <T = SchemaRecord>(dataset: SchemaDataset, records: unknown[], fromVersion: number): T[] => {
+  return records.map((record) => migrateRecord<T>(dataset, record, fromVersion));
+};
+
+const getStoredSchemaVersions = (): Partial<Record<SchemaDataset, number>> => {
+  try {
+    const stored = localStorage.getItem(SCHEMA_VERSIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error reading schema versions:", error);
+    return {};
+  }
+};
+
+export const getStoredSchemaVersion = (dataset: SchemaDataset): number => {
+  const version = getStoredSchemaVersions()[dataset];
+  return typeof version === "number" ? version : LEGACY_SCHEMA_VERSION;
+};
+
+export const setStoredSchemaVersion = (dataset: SchemaDataset, version: number): void => {
+  try {
+    localStorage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify({ ...getStoredSchemaVersions(), [dataset]: version }));
+  } catch (error) {
+    console.error("Error saving schema version:", error);
+  }
+};
+
+const readJson = (value: string | null): unknown => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Actualiza el dato de localStorage de un conjunto a la versión actual
+ */
+export const migrateStoredItem = (dataset: Exclude<SchemaDataset, "locations">): void => {
+  const fromVersion = getStoredSchemaVersion(dataset);
+  const targetVersion = getCurrentSchemaVersion(dataset);
+  if (fromVersion >= targetVersion) return;
+
+  const key = STORAGE_KEYS[dataset];
+
+  // Los datos cifrados solo se pueden leer una vez desbloqueada la app
+  if (encryptionVault.isLocked() && isSealedRecord(readJson(localStorage.getItem(key)))) return;
+
+  try {
+    const stored = encryptionVault.getItem(key);
+    if (stored) {
+      const migrated = migrateRecord(dataset, JSON.parse(stored), fromVersion);
+      encryptionVault.setItem(key, JSON.stringify(migrated));
+      console.log(`🔄 ${key} migrado de v${fromVersion} a v${targetVersion}`);
+    }
+
+    setStoredSchemaVersion(dataset, targetVersion);
+  } catch (error) {
+    console.error(`❌ Error migrando ${key}:`, error);
+  }
+};
+
+/**
+ * Migraciones de arranque para los datos guardados en localStorage. Las
+ * ubicaciones se migran al abrir su base de datos (ver `locationRepository`).
+ * Con el cifrado activado se repiten al desbloquear.
+ */
+export const runStartupMigrations = (): void => {
+  migrateStoredItem("preferences");
+  migrateStoredItem("timers");
+  migrateStoredItem("preferredLocation");
+};
+
+/**
+ * Determina la versión de esquema de un archivo importado. Los archivos
+ * anteriores al registro solo llevan `version: "1.0"` o `"2.0"` (formato de
+ * exportación, no de esquema) y se tratan como versión 1.
+ */
+export const getImportSchemaVersion = (data: unknown, dataset: SchemaDataset): number => {
+  if (!isSchemaRecord(data)) return LEGACY_SCHEMA_VERSION;
+
+  const versions = data.schemaVersions;
+  if (isSchemaRecord(versions) && typeof versions[dataset] === "number") {
+    return versions[dataset] as number;
+  }
+
+  if (typeof data.schemaVersion === "number") {
+    return data.schemaVersion;
+  }
+
+  return LEGACY_SCHEMA_VERSION;
+};
@@ -0,0 +1,189 @@
+// src/utils/shareLink.ts
+import type { CarLocation, StructuredAddress } from "@/types/location";
+import { getLocationValidationErrors } from "./storage";
+import { LocationUtils } from "./locationUtils";
+import { photoStore } from "./photoStore";
+
+/**
+ * Enlaces para pasar una ubicación aparcada a otro dispositivo. Los datos van
+ * en el fragmento (`/#share=...`), así que nunca llegan al servidor.
+ */
+
+export const SHARE_FORMAT_VERSION = 1;
+
+export const SHARE_FRAGMENT_KEY = "share";
+/** Límite para que el enlace siga funcionando en apps de mensajería */
+const MAX_LINK_LENGTH = 32000;
+
+/**
+ * Formato compacto del enlace. Las claves cortas mantienen la URL pequeña.
+ */
+interface SharePayloadV1 {
+  v: 1;
+  la: number;
+  lo: number;
+  t: number;
+  n?: string;
+  a?: string;
+  ad?: StructuredAddress;
+  p?: CarLocation["parkingType"];
+  e?: number;
+  c?: number;
+  ph?: string;
+}
+
+export interface CreateShareLinkOptions {
+  /** Incluir la miniatura de la primera foto si cabe en el enlace */
+  includePhoto?: boolean;
+  origin?: string;
+}
+
+const encodeBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const decodeBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+const buildLink = (payload: SharePayloadV1, origin: string): string => {
+  const url = new URL("/", origin);
+  url.hash = `${SHARE_FRAGMENT_KEY}=${encodeBase64Url(JSON.stringify(payload))}`;
+  return url.toString();
+};
+
+/**
+ * Genera el enlace de Aparky para compartir una ubicación
+ */
+export const createShareLink = async (
+  location: CarLocation,
+  { includePhoto = true, origin = window.location.origin }: CreateShareLinkOptions = {}
+): Promise<string> => {
+  const payload: SharePayloadV1 = {
+    v: SHARE_FORMAT_VERSION,
+    la: location.latitude,
+    lo: location.longitude,
+    t: location.timestamp,
+    n: location.note || undefined,
+    a: location.address || undefined,
+    ad: location.addressDetails,
+    p: location.parkingType,
+    e: location.expiryTime,
+    c: location.cost,
+  };
+
+  const link = buildLink(payload, origin);
+  const firstPhoto = location.photos?.[0];
+  if (!includePhoto || !firstPhoto) return link;
+
+  try {
+    const thumbnail = await photoStore.getDataUrl(firstPhoto, "thumbnail");
+    if (thumbnail) {
+      const linkWithPhoto = buildLink({ ...payload, ph: thumbnail }, origin);
+      if (linkWithPhoto.length <= MAX_LINK_LENGTH) return linkWithPhoto;
+      console.warn("📎 La miniatura no cabe en el enlace, se comparte sin foto");
+    }
+  } catch (error) {
+    console.error("Error adding photo to share link:", error);
+  }
+
+  return link;
+};
+
+/**
+ * Devuelve el contenido codificado si el fragmento es un enlace compartido
+ */
+export const getSharePayload = (hash: string): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_FRAGMENT_KEY) || null;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && isFinite(value) ? value : undefined;
+
+const parseAddressDetails = (value: unknown): StructuredAddress | undefined => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+
+  const raw = value as Record<string, unknown>;
+  const details: StructuredAddress = {
+    street: optionalString(raw.street),
+    number: optionalString(raw.number),
+    neighbourhood: optionalString(raw.neighbourhood),
+    city: optionalString(raw.city),
+    postcode: optionalString(raw.postcode),
+    country: optionalString(raw.country),
+    provider: optionalString(raw.provider),
+    resolvedAt: optionalNumber(raw.resolvedAt),
+  };
+
+  return Object.values(details).some((field) => field !== undefined) ? details : undefined;
+};
+
+/**
+ * El id sale del propio enlace (hora y coordenadas), así que abrir el mismo
+ * enlace dos veces da la misma ubicación en vez de un duplicado
+ */
+const getSharedLocationId = (payload: Record<string, unknown>): string => {
+  const [timestamp, latitude, longitude] = [payload.t, payload.la, payload.lo].map(Number);
+  return `shared_${timestamp.toString(36)}_${Math.round(latitude * 1e6)}_${Math.round(longitude * 1e6)}`;
+};
+
+/**
+ * Convierte el contenido de un enlace compartido en una ubicación nueva.
+ * Se valida con las mismas reglas que las ubicaciones guardadas.
+ */
+export const decodeShareLink = (encoded: string): CarLocation => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(decodeBase64Url(encoded));
+  } catch {
+    throw new Error("El enlace compartido está dañado");
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("El enlace compartido no contiene una ubicación");
+  }
+
+  const payload = raw as Record<string, unknown>;
+  if (typeof payload.v !== "number" || payload.v > SHARE_FORMAT_VERSION) {
+    throw new Error("El enlace se creó con una versión más reciente de Aparky");
+  }
+
+  const addressDetails = parseAddressDetails(payload.ad);
+  const address = optionalString(payload.a);
+  const photo = optionalString(payload.ph);
+  const parkingType = LocationUtils.parseParkingType(payload.p);
+
+  const location: CarLocation = {
+    id: getSharedLocationId(payload),
+    latitude: payload.la as number,
+    longitude: payload.lo as number,
+    timestamp: payload.t as number,
+    note: optionalString(payload.n),
+    address,
+    addressDetails,
+    geocodeStatus: address || addressDetails ? "resolved" : "pending",
+    parkingType,
+    expiryTime: optionalNumber(payload.e),
+    cost: optionalNumber(payload.c),
+    photos: photo?.startsWith("data:image/") ? [photo] : undefined,
+    isManualPlacement: true,
+  };
+
+  const errors = getLocationValidationErrors(location);
+  if (errors.length > 0) {
+    throw new Error(`El enlace compartido no es válido: ${errors.join(", ")}`);
+  }
+
+  return location;
+};
@@ -1,5 +1,6 @@
 // src/utils/stats.ts
 import type { CarLocation, LocationStats } from "../types/location";
+import { AddressUtils } from "./addressUtils";
 
 export const calculateLocationStats = (locations: CarLocation[]): LocationStats => {
   if (locations.length === 0) {
@@ -32,12 +33,9 @@ export const calculateLocationStats = (locations: CarLocation[]): LocationStats
 
     weeklyCount[dayOfWeek]++;
 
-    if (location.address) {
-      const addressParts = location.address.split(",");
-      if (addressParts.length > 0) {
-        const area = addressParts[0].trim();
-        areaCounts[area] = (areaCounts[area] || 0) + 1;
-      }
+    const area = AddressUtils.getArea(location);
+    if (area) {
+      areaCounts[area] = (areaCounts[area] || 0) + 1;
     }
 
     const parkingType = location.parkingType || "Calle";
@@ -97,3 +95,14 @@ export const filterLocationsByDate = (locations: CarLocation[], filter: string):
       return locations;
   }
 };
+
+/**
+ * Filtra por un rango de fechas libre. Los límites son inclusivos y `to`
+ * cubre el día completo.
+ */
+export const filterLocationsByDateRange = (locations: CarLocation[], from?: Date, to?: Date): CarLocation[] => {
+  const start = from ? new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime() : -Infinity;
+  const end = to ? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getTime() : Infinity;
+
+  return locations.filter((location) => location.timestamp >= start && location.timestamp < end);
+};
@@ -1,287 +1,1236 @@
 // src/utils/storage.ts
-import type { CarLocation } from "../types/location";
-
-const STORAGE_KEY = "car-locations";
-const BACKUP_KEY = "car-locations-backup";
+import type {
+  CarLocation,
+  LocationJournalChange,
+  LocationImportOptions,
+  LocationImportPreview,
+  LocationImportReport,
+  LocationImportResult,
+  LocationJournalEntry,
+  QuarantinedLocation,
+} from "../types/location";
+import {
+  LEGACY_SCHEMA_VERSION,
+  getCurrentSchemaVersion,
+  migrateRecords,
+} from "./schema";
+import { getUserPreferences } from "./preferences";
+import { photoStore } from "./photoStore";
+import { geocodeCache } from "./geocodeCache";
+import { AddressUtils } from "./addressUtils";
+import { applyImportPreview, buildImportPreview, parseImportFile } from "./importPlan";
+import { encryptionVault, openRecord, openRecords, sealRecord } from "./encryption";
+
+const LEGACY_STORAGE_KEY = "car-locations";
+const LEGACY_BACKUP_KEY = "car-locations-backup";
 const MAX_LOCATIONS = 1000;
+const MAX_JOURNAL_ENTRIES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LOCATIONS_STORE = "locations";
+const LEGACY_BACKUP_STORE = "backup";
+const JOURNAL_STORE = "journal";
+const META_STORE = "meta";
+const QUARANTINE_STORE = "quarantine";
+
+const MIGRATION_FLAG = "migratedFromLocalStorage";
+const PHOTOS_MIGRATION_FLAG = "photosExternalized";
+const SCHEMA_VERSION_KEY = "schemaVersion";
+
+/**
+ * Devuelve los motivos por los que un registro no es una ubicación válida
+ */
+export const getLocationValidationErrors = (location: unknown): string[] => {
+  if (!location || typeof location !== "object" || Array.isArray(location)) {
+    return ["El registro no es un objeto"];
+  }
 
-export const saveCarLocation = (location: CarLocation): void => {
-  try {
-    const existingLocations = getCarLocations();
+  const { id, latitude, longitude, timestamp } = location as Record<string, unknown>;
+  const errors: string[] = [];
 
-    createBackup(existingLocations);
+  if (typeof id !== "string" || id.trim() === "") {
+    errors.push("Identificador ausente o inválido");
+  }
 
-    const updatedLocations = [location, ...existingLocations];
+  if (typeof latitude !== "number" || isNaN(latitude)) {
+    errors.push("Latitud ausente o no numérica");
+  } else if (latitude < -90 || latitude > 90) {
+    errors.push("Latitud fuera de rango (-90 a 90)");
+  }
 
-    const limitedLocations = updatedLocations.slice(0, MAX_LOCATIONS);
+  if (typeof longitude !== "number" || isNaN(longitude)) {
+    errors.push("Longitud ausente o no numérica");
+  } else if (longitude < -180 || longitude > 180) {
+    errors.push("Longitud fuera de rango (-180 a 180)");
+  }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(limitedLocations));
+  if (typeof timestamp !== "number" || isNaN(timestamp)) {
+    errors.push("Fecha ausente o inválida");
+  }
 
-    console.log(`Location saved successfully. Total locations: ${limitedLocations.length}`);
-  } catch (error) {
-    console.error("Error saving car location:", error);
+  return errors;
+};
 
-    try {
-      restoreFromBackup();
-      console.log("Restored from backup after save error");
-    } catch (backupError) {
-      console.error("Failed to restore from backup:", backupError);
+export const isValidCarLocation = (location: unknown): location is CarLocation => {
+  return getLocationValidationErrors(location).length === 0;
+};
+
+const generateQuarantineId = (): string => {
+  return `quarantine-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const toQuarantineEntry = (record: unknown, source: QuarantinedLocation["source"]): QuarantinedLocation => ({
+  quarantineId: generateQuarantineId(),
+  record: record && typeof record === "object" ? { ...(record as Record<string, unknown>) } : { value: record },
+  reasons: getLocationValidationErrors(record),
+  source,
+  quarantinedAt: Date.now(),
+});
+
+/**
+ * Separa los registros válidos de los que deben ir a cuarentena
+ */
+const partitionLocations = (
+  records: unknown[],
+  source: QuarantinedLocation["source"]
+): { valid: CarLocation[]; quarantined: QuarantinedLocation[] } => {
+  const valid: CarLocation[] = [];
+  const quarantined: QuarantinedLocation[] = [];
+
+  records.forEach((record) => {
+    if (isValidCarLocation(record)) {
+      valid.push(record);
+    } else {
+      quarantined.push(toQuarantineEntry(record, source));
     }
+  });
 
-    throw new Error("No se pudo guardar la ubicación. Inténtalo de nuevo.");
-  }
+  return { valid, quarantined };
 };
 
-export const getCarLocations = (): CarLocation[] => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+const sortByNewest = (locations: CarLocation[]): CarLocation[] => {
+  return [...locations].sort((a, b) => b.timestamp - a.timestamp);
+};
 
-    if (!stored) {
-      return [];
+export class LocationRepository {
+  private dbName = "aparky-locations";
+  private dbVersion = 3;
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.openDatabase()
+        .then(() => this.migrateSchema())
+        .then(() => this.migrateFromLocalStorage())
+        .then(() => this.migrateEmbeddedPhotos())
+        .then(() => this.purgeExpiredTrash())
+        .then(() => {
+          // Recoge las fotos que dejó un guardado que falló a medias
+          this.serialize(() => this.collectPhotos());
+        })
+        .catch((error) => {
+          this.initPromise = null;
+          throw error;
+        });
     }
 
-    const parsed = JSON.parse(stored);
+    return this.initPromise;
+  }
 
-    if (!Array.isArray(parsed)) {
-      console.warn("Invalid locations data format, resetting to empty array");
-      return [];
-    }
+  private openDatabase(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        // Store para las ubicaciones guardadas
+        if (!db.objectStoreNames.contains(LOCATIONS_STORE)) {
+          const locationsStore = db.createObjectStore(LOCATIONS_STORE, { keyPath: "id" });
+          locationsStore.createIndex("timestamp", "timestamp", { unique: false });
+        }
+
+        // La copia única anterior se sustituye por el historial de cambios
+        if (db.objectStoreNames.contains(LEGACY_BACKUP_STORE)) {
+          db.deleteObjectStore(LEGACY_BACKUP_STORE);
+        }
+
+        // Historial de modificaciones para deshacer/rehacer
+        if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+          db.createObjectStore(JOURNAL_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+
+        // Metadatos (estado de la migración, etc.)
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+
+        // Registros inválidos pendientes de reparar
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: "quarantineId" });
+        }
+      };
+    });
+  }
 
-    const validLocations = parsed.filter((location) => {
-      return (
-        location &&
-        typeof location.id === "string" &&
-        typeof location.latitude === "number" &&
-        typeof location.longitude === "number" &&
-        typeof location.timestamp === "number" &&
-        location.latitude >= -90 &&
-        location.latitude <= 90 &&
-        location.longitude >= -180 &&
-        location.longitude <= 180
-      );
+  /**
+   * Actualiza los registros guardados a la versión actual del esquema
+   */
+  private async migrateSchema(): Promise<void> {
+    const storedVersion = (await this.getMeta<number>(SCHEMA_VERSION_KEY)) ?? LEGACY_SCHEMA_VERSION;
+    const targetVersion = getCurrentSchemaVersion("locations");
+    if (storedVersion >= targetVersion) return;
+
+    const stored = await this.readAllFrom(this.db!);
+
+    const { valid, quarantined } = partitionLocations(
+      migrateRecords<unknown>("locations", stored, storedVersion),
+      "migration"
+    );
+    const [sealedLocations, sealedQuarantine] = await Promise.all([
+      sealLocations(valid),
+      sealQuarantineEntries(quarantined),
+    ]);
+
+    await this.runTransaction([LOCATIONS_STORE, QUARANTINE_STORE, META_STORE], "readwrite", (transaction) => {
+      const store = transaction.objectStore(LOCATIONS_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+      store.clear();
+      sealedLocations.forEach((location) => store.put(location));
+      sealedQuarantine.forEach((entry) => quarantineStore.put(entry));
+      transaction.objectStore(META_STORE).put(targetVersion, SCHEMA_VERSION_KEY);
     });
 
-    if (validLocations.length !== parsed.length) {
-      console.warn(`Filtered ${parsed.length - validLocations.length} invalid locations`);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(validLocations));
+    console.log(`🔄 Ubicaciones migradas de v${storedVersion} a v${targetVersion}`);
+  }
+
+  /**
+   * Copia las ubicaciones guardadas en localStorage por versiones anteriores
+   * de la app. Solo se ejecuta una vez; el dato antiguo se borra al terminar.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    const alreadyMigrated = await this.getMeta<boolean>(MIGRATION_FLAG);
+    if (alreadyMigrated) return;
+
+    let legacyLocations: CarLocation[] = [];
+    let legacyQuarantined: QuarantinedLocation[] = [];
+
+    try {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          const { valid, quarantined } = partitionLocations(
+            migrateRecords<unknown>("locations", parsed, LEGACY_SCHEMA_VERSION),
+            "migration"
+          );
+          legacyLocations = valid;
+          legacyQuarantined = quarantined;
+        }
+      }
+    } catch (error) {
+      console.error("Error reading legacy locations from localStorage:", error);
     }
 
-    return validLocations;
-  } catch (error) {
-    console.error("Error getting car locations:", error);
+    const [sealedLocations, sealedQuarantine] = await Promise.all([
+      sealLocations(legacyLocations),
+      sealQuarantineEntries(legacyQuarantined),
+    ]);
+
+    await this.runTransaction([LOCATIONS_STORE, QUARANTINE_STORE, META_STORE], "readwrite", (transaction) => {
+      const store = transaction.objectStore(LOCATIONS_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+      sealedLocations.forEach((location) => store.put(location));
+      sealedQuarantine.forEach((entry) => quarantineStore.put(entry));
+      transaction.objectStore(META_STORE).put(true, MIGRATION_FLAG);
+    });
 
     try {
-      const backup = restoreFromBackup();
-      console.log("Restored from backup after get error");
-      return backup;
-    } catch (backupError) {
-      console.error("Failed to restore from backup:", backupError);
-      return [];
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_BACKUP_KEY);
+    } catch (error) {
+      console.warn("Could not remove legacy localStorage data:", error);
+    }
+
+    if (legacyLocations.length > 0) {
+      console.log(`Migrated ${legacyLocations.length} locations from localStorage to IndexedDB`);
     }
   }
-};
 
-export const deleteCarLocation = (id: string): void => {
-  try {
-    const locations = getCarLocations();
+  /**
+   * Extrae las fotos embebidas como data URL al almacén de fotos. Solo se
+   * ejecuta una vez.
+   */
+  private async migrateEmbeddedPhotos(): Promise<void> {
+    const alreadyMigrated = await this.getMeta<boolean>(PHOTOS_MIGRATION_FLAG);
+    if (alreadyMigrated) return;
 
-    createBackup(locations);
+    const stored = await this.readAllFrom(this.db!);
+    const changes: LocationJournalChange[] = [];
 
-    const filteredLocations = locations.filter((location) => location.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredLocations));
+    for (const location of stored) {
+      if (!location.photos?.some((photo) => !isPhotoReference(photo))) continue;
 
-    console.log(`Location ${id} deleted successfully`);
-  } catch (error) {
-    console.error("Error deleting car location:", error);
+      const migrated = await this.withStoredPhotos(location);
+      changes.push({ id: location.id, before: location, after: migrated });
+    }
+    const sealedChanges = await sealChanges(changes, "after");
+
+    await this.runTransaction([LOCATIONS_STORE, META_STORE], "readwrite", (transaction) => {
+      applyChanges(transaction.objectStore(LOCATIONS_STORE), sealedChanges);
+      transaction.objectStore(META_STORE).put(true, PHOTOS_MIGRATION_FLAG);
+    });
+
+    if (changes.length > 0) {
+      console.log(`📷 Fotos extraídas de ${changes.length} ubicaciones`);
+    }
+  }
+
+  /**
+   * Guarda en el almacén de fotos las que vengan como data URL
+   */
+  private async withStoredPhotos<T extends Partial<CarLocation>>(location: T): Promise<T> {
+    if (!location.photos || location.photos.every(isPhotoReference)) return location;
+    return { ...location, photos: await photoStore.externalize(location.photos) };
+  }
+
+  /**
+   * Borra del almacén de fotos las que ya no usa ninguna ubicación (tampoco en
+   * la papelera), ninguna entrada del historial ni la cuarentena, para que
+   * deshacer o rehacer nunca deje una foto colgando. Sin `candidates` se
+   * revisa el almacén entero.
+   */
+  private async collectPhotos(candidates?: string[]): Promise<void> {
+    if (candidates?.length === 0 || encryptionVault.isLocked()) return;
 
     try {
-      restoreFromBackup();
-      console.log("Restored from backup after delete error");
-    } catch (backupError) {
-      console.error("Failed to restore from backup:", backupError);
+      const [locations, journal, quarantined] = await Promise.all([
+        this.readAll(),
+        this.readJournal(),
+        this.getQuarantined(),
+      ]);
+
+      const referenced = new Set([
+        ...getPhotoIds(locations),
+        ...getJournalPhotoIds(journal),
+        ...getQuarantinedPhotoIds(quarantined),
+      ]);
+
+      await photoStore.deleteUnused(referenced, candidates);
+    } catch (error) {
+      console.error("Error collecting unused photos:", error);
     }
+  }
 
-    throw new Error("No se pudo eliminar la ubicación. Inténtalo de nuevo.");
+  /**
+   * Las escrituras leen el estado actual y guardan lo que calculan a partir de
+   * él. El cifrado no cabe dentro de una transacción, así que se ejecutan de
+   * una en una para que ninguna trabaje sobre datos que otra ya ha cambiado.
+   */
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
   }
-};
 
-export const getLastCarLocation = (): CarLocation | null => {
-  const locations = getCarLocations();
-  return locations.length > 0 ? locations[0] : null;
-};
+  private async getDb(): Promise<IDBDatabase> {
+    await this.init();
+    return this.db!;
+  }
 
-export const updateCarLocation = (id: string, updates: Partial<CarLocation>): void => {
-  try {
-    const locations = getCarLocations();
+  private async runTransaction(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const db = this.db ?? (await this.getDb());
 
-    createBackup(locations);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
 
-    const updatedLocations = locations.map((location) => (location.id === id ? { ...location, ...updates } : location));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedLocations));
+      work(transaction);
+    });
+  }
 
-    console.log(`Location ${id} updated successfully`);
-  } catch (error) {
-    console.error("Error updating car location:", error);
-    throw new Error("No se pudo actualizar la ubicación. Inténtalo de nuevo.");
+  private async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = this.db!;
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([META_STORE], "readonly").objectStore(META_STORE).get(key);
+
+      request.onsuccess = () => resolve(request.result as T | undefined);
+      request.onerror = () => reject(request.error);
+    });
   }
-};
 
-export const searchLocations = (query: string): CarLocation[] => {
-  const locations = getCarLocations();
+  private async readAll(): Promise<CarLocation[]> {
+    return this.readAllFrom(await this.getDb());
+  }
 
-  if (!query.trim()) {
-    return locations;
+  private async readAllFrom(db: IDBDatabase): Promise<CarLocation[]> {
+    const stored = await new Promise<unknown[]>((resolve, reject) => {
+      const request = db.transaction([LOCATIONS_STORE], "readonly").objectStore(LOCATIONS_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return openRecords<CarLocation>(stored);
   }
 
-  const searchTerm = query.toLowerCase().trim();
+  private async readJournal(): Promise<LocationJournalEntry[]> {
+    const db = await this.getDb();
 
-  return locations.filter((location) => {
-    const note = location.note?.toLowerCase() || "";
-    const address = location.address?.toLowerCase() || "";
-    const coords = `${location.latitude},${location.longitude}`;
-    const date = new Date(location.timestamp).toLocaleDateString().toLowerCase();
+    const stored = await new Promise<unknown[]>((resolve, reject) => {
+      const request = db.transaction([JOURNAL_STORE], "readonly").objectStore(JOURNAL_STORE).getAll();
 
-    return (
-      note.includes(searchTerm) ||
-      address.includes(searchTerm) ||
-      coords.includes(searchTerm) ||
-      date.includes(searchTerm)
-    );
-  });
-};
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
 
-export const exportLocations = (): string => {
-  try {
-    const locations = getCarLocations();
-    const exportData = {
-      version: "1.0",
-      exportDate: new Date().toISOString(),
-      totalLocations: locations.length,
-      locations: locations,
+    return openRecords<LocationJournalEntry>(stored);
+  }
+
+  /**
+   * Calcula el nuevo estado a partir del actual, guarda solo las diferencias y
+   * las anota en el historial en la misma transacción, de modo que un fallo no
+   * deja datos a medias. Un cambio nuevo descarta lo que se pudiera rehacer.
+   */
+  private async mutate(
+    action: LocationJournalEntry["action"],
+    description: string | ((current: CarLocation[]) => string),
+    compute: (current: CarLocation[]) => CarLocation[]
+  ): Promise<LocationJournalEntry | null> {
+    return this.serialize(() => this.applyMutation(action, description, compute));
+  }
+
+  private async applyMutation(
+    action: LocationJournalEntry["action"],
+    description: string | ((current: CarLocation[]) => string),
+    compute: (current: CarLocation[]) => CarLocation[]
+  ): Promise<LocationJournalEntry | null> {
+    const [current, journal] = await Promise.all([this.readAll(), this.readJournal()]);
+    const next = compute(current);
+
+    const changes = diffLocations(current, next);
+    if (changes.length === 0) return null;
+
+    const entry: LocationJournalEntry = {
+      action,
+      description: typeof description === "function" ? description(current) : description,
+      timestamp: Date.now(),
+      changes,
+      undone: false,
     };
 
-    return JSON.stringify(exportData, null, 2);
-  } catch (error) {
-    console.error("Error exporting locations:", error);
-    throw new Error("No se pudieron exportar las ubicaciones.");
+    const redoable = journal.filter((item) => item.undone);
+    const kept = journal.filter((item) => !item.undone);
+    const overflow = kept.slice(0, Math.max(0, kept.length + 1 - MAX_JOURNAL_ENTRIES));
+
+    // El cifrado es asíncrono y no puede ocurrir dentro de la transacción
+    const [sealedChanges, sealedEntry] = await Promise.all([
+      sealChanges(changes, "after"),
+      sealRecord(entry, JOURNAL_KEYS),
+    ]);
+
+    await this.runTransaction([LOCATIONS_STORE, JOURNAL_STORE], "readwrite", (transaction) => {
+      applyChanges(transaction.objectStore(LOCATIONS_STORE), sealedChanges);
+
+      const journalStore = transaction.objectStore(JOURNAL_STORE);
+      [...redoable, ...overflow].forEach((item) => journalStore.delete(item.seq!));
+      const request = journalStore.add(sealedEntry);
+      request.onsuccess = () => {
+        entry.seq = request.result as number;
+      };
+    });
+
+    // Las fotos que quedan fuera del historial pueden haberse quedado sin uso
+    await this.collectPhotos(getJournalPhotoIds([...redoable, ...overflow]));
+
+    return entry;
   }
-};
 
-export const importLocations = (jsonData: string): number => {
-  try {
-    const data = JSON.parse(jsonData);
+  async getAll(): Promise<CarLocation[]> {
+    try {
+      const { valid, quarantined } = partitionLocations(await this.readAll(), "storage");
+      const locations = quarantined.length > 0 ? await this.serialize(() => this.quarantineInvalid()) : valid;
+
+      return sortByNewest(locations.filter((location) => !location.deletedAt));
+    } catch (error) {
+      console.error("Error getting car locations:", error);
+      throw new Error("No se pudieron cargar las ubicaciones guardadas.");
+    }
+  }
+
+  /**
+   * Mueve a cuarentena los registros que no son válidos. Va en la cola de
+   * escrituras y vuelve a leer, para no borrar nada que otra escritura haya
+   * cambiado mientras tanto. Devuelve los registros válidos.
+   */
+  private async quarantineInvalid(): Promise<CarLocation[]> {
+    const { valid, quarantined } = partitionLocations(await this.readAll(), "storage");
+    if (quarantined.length === 0) return valid;
+
+    console.warn(`Moved ${quarantined.length} invalid locations to quarantine`);
+    const sealedQuarantine = await sealQuarantineEntries(quarantined);
+
+    await this.runTransaction([LOCATIONS_STORE, QUARANTINE_STORE], "readwrite", (transaction) => {
+      const store = transaction.objectStore(LOCATIONS_STORE);
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+      sealedQuarantine.forEach((entry) => quarantineStore.put(entry));
+      quarantined.forEach((entry) => {
+        if (typeof entry.record.id === "string") store.delete(entry.record.id);
+      });
+    });
+
+    return valid;
+  }
+
+  async getById(id: string): Promise<CarLocation | null> {
+    const db = await this.getDb();
+
+    const stored = await new Promise<unknown>((resolve, reject) => {
+      const request = db.transaction([LOCATIONS_STORE], "readonly").objectStore(LOCATIONS_STORE).get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const location = await openRecord<unknown>(stored);
+    return isValidCarLocation(location) ? location : null;
+  }
+
+  async getLast(): Promise<CarLocation | null> {
+    const locations = await this.getAll();
+    return locations.length > 0 ? locations[0] : null;
+  }
+
+  async count(): Promise<number> {
+    const locations = await this.getAll();
+    return locations.length;
+  }
+
+  async save(location: CarLocation): Promise<void> {
+    try {
+      location = await this.withStoredPhotos(location);
+
+      // Mantener el límite eliminando las más antiguas. Las de la papelera no
+      // cuentan: se borran solas al caducar y no deben desplazar a las activas.
+      await this.mutate("save", `Guardar ${getLocationLabel(location)}`, (current) => {
+        const others = current.filter((loc) => loc.id !== location.id);
+        const active = sortByNewest(others.filter((loc) => !loc.deletedAt));
+        const trashed = others.filter((loc) => loc.deletedAt);
+
+        return [location, ...active.slice(0, MAX_LOCATIONS - 1), ...trashed];
+      });
+
+      console.log(`Location saved successfully: ${location.id}`);
+    } catch (error) {
+      console.error("Error saving car location:", error);
+      throw new Error("No se pudo guardar la ubicación. Inténtalo de nuevo.");
+    }
+  }
+
+  async update(id: string, updates: Partial<CarLocation>): Promise<void> {
+    try {
+      updates = await this.withStoredPhotos(updates);
+
+      await this.mutate("update", (current) => `Editar ${describeLocation(current, id)}`, (current) =>
+        current.map((location) =>
+          location.id === id ? { ...location, ...updates, id, updatedAt: Date.now() } : location
+        )
+      );
+
+      console.log(`Location ${id} updated successfully`);
+    } catch (error) {
+      console.error("Error updating car location:", error);
+      throw new Error("No se pudo actualizar la ubicación. Inténtalo de nuevo.");
+    }
+  }
+
+  /**
+   * Cambios automáticos que no hace el usuario (la dirección que se resuelve
+   * en segundo plano): no pasan por el historial, así que no aparecen en él
+   * ni se deshacen con "Deshacer".
+   */
+  async updateWithoutHistory(id: string, updates: Partial<CarLocation>): Promise<void> {
+    try {
+      await this.serialize(async () => {
+        const current = await this.readAll();
+        const next = current.map((location) => (location.id === id ? { ...location, ...updates, id } : location));
+
+        const changes = diffLocations(current, next);
+        if (changes.length === 0) return;
+
+        const sealedChanges = await sealChanges(changes, "after");
+        await this.runTransaction([LOCATIONS_STORE], "readwrite", (transaction) => {
+          applyChanges(transaction.objectStore(LOCATIONS_STORE), sealedChanges);
+        });
+      });
+    } catch (error) {
+      console.error("Error updating car location without history:", error);
+      throw new Error("No se pudo actualizar la ubicación. Inténtalo de nuevo.");
+    }
+  }
+
+  /**
+   * Mueve la ubicación a la papelera (borrado lógico). Devuelve la entrada del
+   * historial para poder deshacer justo este borrado.
+   */
+  async delete(id: string): Promise<LocationJournalEntry | null> {
+    try {
+      const deletedAt = Date.now();
+
+      const entry = await this.mutate("delete", (current) => `Eliminar ${describeLocation(current, id)}`, (current) =>
+        current.map((location) => (location.id === id && !location.deletedAt ? { ...location, deletedAt } : location))
+      );
+
+      console.log(`Location ${id} moved to trash`);
+      return entry;
+    } catch (error) {
+      console.error("Error deleting car location:", error);
+      throw new Error("No se pudo eliminar la ubicación. Inténtalo de nuevo.");
+    }
+  }
+
+  /**
+   * Ubicaciones en la papelera, de la eliminada más recientemente a la más antigua
+   */
+  async getTrash(): Promise<CarLocation[]> {
+    try {
+      const stored = await this.readAll();
+      return stored
+        .filter((location) => isValidCarLocation(location) && !!location.deletedAt)
+        .sort((a, b) => b.deletedAt! - a.deletedAt!);
+    } catch (error) {
+      console.error("Error getting trashed locations:", error);
+      return [];
+    }
+  }
+
+  async restoreFromTrash(id: string): Promise<CarLocation | null> {
+    try {
+      let restored: CarLocation | null = null;
+
+      await this.mutate("restore", (current) => `Restaurar ${describeLocation(current, id)}`, (current) =>
+        current.map((location) => {
+          if (location.id !== id || !location.deletedAt) return location;
 
-    if (!data.locations || !Array.isArray(data.locations)) {
-      throw new Error("Formato de archivo inválido");
+          const restoredLocation = { ...location };
+          delete restoredLocation.deletedAt;
+          restored = restoredLocation;
+          return restoredLocation;
+        })
+      );
+
+      return restored;
+    } catch (error) {
+      console.error("Error restoring car location:", error);
+      throw new Error("No se pudo restaurar la ubicación. Inténtalo de nuevo.");
     }
+  }
 
-    const currentLocations = getCarLocations();
-    createBackup(currentLocations);
+  /**
+   * Elimina definitivamente ubicaciones de la papelera. Sin ids, la vacía entera.
+   */
+  async purge(ids?: string[]): Promise<number> {
+    try {
+      const toPurge = await this.serialize(async () => {
+        const trash = await this.getTrash();
+        const purged = ids ? trash.filter((location) => ids.includes(location.id)) : trash;
+
+        await this.runTransaction([LOCATIONS_STORE], "readwrite", (transaction) => {
+          const store = transaction.objectStore(LOCATIONS_STORE);
+          purged.forEach((location) => store.delete(location.id));
+        });
+
+        await this.collectPhotos(getPhotoIds(purged));
+        return purged;
+      });
+
+      console.log(`Purged ${toPurge.length} locations from trash`);
+      return toPurge.length;
+    } catch (error) {
+      console.error("Error purging trashed locations:", error);
+      throw new Error("No se pudo vaciar la papelera.");
+    }
+  }
+
+  /**
+   * Vacía las ubicaciones que llevan en la papelera más días de los configurados
+   */
+  private async purgeExpiredTrash(): Promise<void> {
+    try {
+      const retentionDays = getUserPreferences().trashRetentionDays;
+      const limit = Date.now() - retentionDays * DAY_MS;
+
+      const stored = await this.readAllFrom(this.db!);
+      const expired = stored.filter((location) => location.deletedAt && location.deletedAt < limit);
+      if (expired.length === 0) return;
+
+      await this.runTransaction([LOCATIONS_STORE], "readwrite", (transaction) => {
+        const store = transaction.objectStore(LOCATIONS_STORE);
+        expired.forEach((location) => store.delete(location.id));
+      });
+
+      // Sus fotos se recogen al terminar de arrancar (ver init)
+      console.log(`🗑️ ${expired.length} ubicaciones eliminadas de la papelera tras ${retentionDays} días`);
+    } catch (error) {
+      console.error("Error purging expired trash:", error);
+    }
+  }
+
+  async search(query: string): Promise<CarLocation[]> {
+    const locations = await this.getAll();
+
+    if (!query.trim()) {
+      return locations;
+    }
+
+    const searchTerm = query.toLowerCase().trim();
+
+    return locations.filter((location) => {
+      const note = location.note?.toLowerCase() || "";
+      const address = AddressUtils.getSearchText(location);
+      const coords = `${location.latitude},${location.longitude}`;
+      const date = new Date(location.timestamp).toLocaleDateString().toLowerCase();
 
-    const validImportedLocations = data.locations.filter((location: any) => {
       return (
-        location &&
-        typeof location.latitude === "number" &&
-        typeof location.longitude === "number" &&
-        typeof location.timestamp === "number" &&
-        location.latitude >= -90 &&
-        location.latitude <= 90 &&
-        location.longitude >= -180 &&
-        location.longitude <= 180
+        note.includes(searchTerm) ||
+        address.includes(searchTerm) ||
+        coords.includes(searchTerm) ||
+        date.includes(searchTerm)
       );
     });
+  }
+
+  async export(): Promise<string> {
+    try {
+      const locations = await this.getAllWithInlinePhotos();
+      const exportData = {
+        version: "1.0",
+        schemaVersion: getCurrentSchemaVersion("locations"),
+        exportDate: new Date().toISOString(),
+        totalLocations: locations.length,
+        locations: locations,
+      };
+
+      return JSON.stringify(exportData, null, 2);
+    } catch (error) {
+      console.error("Error exporting locations:", error);
+      throw new Error("No se pudieron exportar las ubicaciones.");
+    }
+  }
 
-    const locationsWithIds = validImportedLocations.map((location: any) => ({
-      ...location,
-      id: location.id || `imported-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    }));
+  /**
+   * Ubicaciones con las fotos como data URL, para exportarlas fuera del dispositivo
+   */
+  async getAllWithInlinePhotos(): Promise<CarLocation[]> {
+    const locations = await this.getAll();
+    return Promise.all(
+      locations.map(async (location) =>
+        location.photos ? { ...location, photos: await photoStore.inline(location.photos) } : location
+      )
+    );
+  }
 
-    const allLocations = [...locationsWithIds, ...currentLocations];
-    const uniqueLocations = removeDuplicateLocations(allLocations);
+  async import(jsonData: string): Promise<number> {
+    try {
+      const { records } = parseImportFile(jsonData);
+      const report = await this.applyImport(records, { strategy: "merge", includeNearDuplicates: false });
+
+      console.log(`Imported ${report.added} locations successfully`);
+      return report.added;
+    } catch (error) {
+      console.error("Error importing locations:", error);
+      throw new Error("No se pudieron importar las ubicaciones. Verifica el formato del archivo.");
+    }
+  }
 
-    const sortedLocations = uniqueLocations.sort((a, b) => b.timestamp - a.timestamp);
+  /**
+   * Compara los registros de un archivo con las ubicaciones guardadas, sin modificar nada
+   */
+  async previewImport(records: unknown[]): Promise<LocationImportPreview> {
+    const { valid, quarantined } = partitionLocations(records, "import");
+    const incoming = await Promise.all(valid.map((location) => this.withStoredPhotos(location)));
+    return buildImportPreview(await this.readAll(), incoming, quarantined);
+  }
 
-    const limitedLocations = sortedLocations.slice(0, MAX_LOCATIONS);
+  /**
+   * Importa los registros según las opciones del asistente. La comparación se
+   * repite dentro de la transacción, por si algo cambió desde la vista previa.
+   */
+  async applyImport(records: unknown[], options: LocationImportOptions): Promise<LocationImportReport> {
+    try {
+      const { valid, quarantined } = partitionLocations(records, "import");
+      const incoming = await Promise.all(valid.map((location) => this.withStoredPhotos(location)));
+      let report: LocationImportReport = {
+        added: 0,
+        updated: 0,
+        identical: 0,
+        nearDuplicatesSkipped: 0,
+        invalid: quarantined.length,
+        overLimit: 0,
+      };
+
+      await this.mutate(
+        "import",
+        () => `Importar ${report.added} ubicaciones nuevas y ${report.updated} actualizadas`,
+        (current) => {
+          const preview = buildImportPreview(current, incoming, quarantined);
+          const result = applyImportPreview(current, preview, options, MAX_LOCATIONS);
+          report = result.report;
+          return sortByNewest(result.locations);
+        }
+      );
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(limitedLocations));
+      if (quarantined.length > 0) {
+        await this.addToQuarantine(quarantined);
+        console.warn(`${quarantined.length} imported locations moved to quarantine`);
+      }
 
-    console.log(`Imported ${validImportedLocations.length} locations successfully`);
-    return validImportedLocations.length;
-  } catch (error) {
-    console.error("Error importing locations:", error);
+      return report;
+    } catch (error) {
+      console.error("Error importing locations:", error);
+      throw new Error("No se pudieron importar las ubicaciones. Verifica el formato del archivo.");
+    }
+  }
 
+  /**
+   * Añade ubicaciones de un archivo externo a las existentes, descartando las
+   * que ya estaban guardadas. Como en el asistente de importación, el límite
+   * solo recorta las nuevas (las más antiguas); nunca se borran las guardadas.
+   */
+  async merge(records: unknown[], source: string): Promise<LocationImportResult> {
     try {
-      restoreFromBackup();
-      console.log("Restored from backup after import error");
-    } catch (backupError) {
-      console.error("Failed to restore from backup:", backupError);
+      const { valid, quarantined } = partitionLocations(records, "import");
+      const incoming = await Promise.all(valid.map((location) => this.withStoredPhotos(location)));
+      let imported = 0;
+      let overLimit = 0;
+
+      await this.mutate(
+        "import",
+        () => `Importar ${imported} ubicaciones (${source})`,
+        (current) => {
+          // Las guardadas van primero para que prevalezcan sobre las del archivo
+          const currentIds = new Set(current.map((location) => location.id));
+          const candidates = sortByNewest(
+            removeDuplicateLocations([...current, ...incoming]).filter((location) => !currentIds.has(location.id))
+          );
+          const additions = candidates.slice(0, Math.max(0, MAX_LOCATIONS - current.length));
+
+          imported = additions.length;
+          overLimit = candidates.length - additions.length;
+          return [...current, ...additions];
+        }
+      );
+
+      if (quarantined.length > 0) {
+        await this.addToQuarantine(quarantined);
+        console.warn(`${quarantined.length} ${source} records moved to quarantine`);
+      }
+
+      console.log(`Merged ${imported} locations from ${source}`);
+      return { imported, duplicates: incoming.length - imported - overLimit, overLimit, invalid: quarantined.length };
+    } catch (error) {
+      console.error(`Error merging ${source} locations:`, error);
+      throw new Error("No se pudieron importar las ubicaciones. Verifica el formato del archivo.");
     }
+  }
+
+  /**
+   * Sustituye todas las ubicaciones por las indicadas (importación completa).
+   */
+  async replaceAll(locations: unknown[]): Promise<number> {
+    try {
+      const { valid, quarantined } = partitionLocations(locations, "import");
+      const validLocations = await Promise.all(
+        sortByNewest(valid)
+          .slice(0, MAX_LOCATIONS)
+          .map((location) => this.withStoredPhotos(location))
+      );
+
+      await this.mutate("import", `Importar ${validLocations.length} ubicaciones (reemplazo)`, () => validLocations);
 
-    throw new Error("No se pudieron importar las ubicaciones. Verifica el formato del archivo.");
+      if (quarantined.length > 0) {
+        await this.addToQuarantine(quarantined);
+      }
+
+      return validLocations.length;
+    } catch (error) {
+      console.error("Error replacing locations:", error);
+      throw new Error("No se pudieron importar las ubicaciones. Verifica el formato del archivo.");
+    }
   }
-};
 
-export const clearAllLocations = (): void => {
-  try {
-    const locations = getCarLocations();
-    createBackup(locations);
+  async clearAll(): Promise<void> {
+    try {
+      const deletedAt = Date.now();
+
+      await this.mutate("clearAll", "Eliminar todas las ubicaciones", (current) =>
+        current.map((location) => (location.deletedAt ? location : { ...location, deletedAt }))
+      );
 
-    localStorage.removeItem(STORAGE_KEY);
+      console.log("All locations moved to trash");
+    } catch (error) {
+      console.error("Error clearing locations:", error);
+      throw new Error("No se pudieron eliminar todas las ubicaciones.");
+    }
+  }
 
-    console.log("All locations cleared successfully");
-  } catch (error) {
-    console.error("Error clearing locations:", error);
-    throw new Error("No se pudieron eliminar todas las ubicaciones.");
+  private async addToQuarantine(entries: QuarantinedLocation[]): Promise<void> {
+    const sealedEntries = await sealQuarantineEntries(entries);
+
+    await this.runTransaction([QUARANTINE_STORE], "readwrite", (transaction) => {
+      const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+      sealedEntries.forEach((entry) => quarantineStore.put(entry));
+    });
   }
-};
 
-export const getStorageUsage = (): { used: number; available: number; percentage: number } => {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY) || "";
-    const used = new Blob([data]).size;
-    const available = 5 * 1024 * 1024;
-    const percentage = Math.round((used / available) * 100);
+  async getQuarantined(): Promise<QuarantinedLocation[]> {
+    const db = await this.getDb();
 
-    return { used, available, percentage };
-  } catch (error) {
-    console.error("Error calculating storage usage:", error);
+    const stored = await new Promise<unknown[]>((resolve, reject) => {
+      const request = db.transaction([QUARANTINE_STORE], "readonly").objectStore(QUARANTINE_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const entries = await openRecords<QuarantinedLocation>(stored);
+    return entries.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+  }
+
+  private async getQuarantineEntry(quarantineId: string): Promise<QuarantinedLocation | undefined> {
+    const db = await this.getDb();
+
+    const stored = await new Promise<unknown>((resolve, reject) => {
+      const request = db.transaction([QUARANTINE_STORE], "readonly").objectStore(QUARANTINE_STORE).get(quarantineId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return stored ? openRecord<QuarantinedLocation>(stored) : undefined;
+  }
+
+  async countQuarantined(): Promise<number> {
+    const db = await this.getDb();
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([QUARANTINE_STORE], "readonly").objectStore(QUARANTINE_STORE).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Valida de nuevo un registro reparado. Si es correcto se devuelve a las
+   * ubicaciones guardadas; si no, se actualizan los motivos de la cuarentena.
+   */
+  async repairQuarantined(
+    quarantineId: string,
+    record: Record<string, unknown>
+  ): Promise<{ repaired: boolean; reasons: string[] }> {
+    const reasons = getLocationValidationErrors(record);
+
+    try {
+      if (reasons.length > 0) {
+        const entry = await this.getQuarantineEntry(quarantineId);
+        if (entry) await this.addToQuarantine([{ ...entry, record, reasons }]);
+
+        return { repaired: false, reasons };
+      }
+
+      const location = await this.withStoredPhotos(record as unknown as CarLocation);
+
+      await this.mutate("repair", `Reparar ${getLocationLabel(location)}`, (current) => {
+        const existing = current.find((loc) => loc.id === location.id);
+        const repaired = existing ? { ...existing, ...location } : location;
+        return [repaired, ...current.filter((loc) => loc.id !== location.id)];
+      });
+
+      await this.discardQuarantined(quarantineId);
+
+      console.log(`Quarantined location ${location.id} repaired`);
+      return { repaired: true, reasons: [] };
+    } catch (error) {
+      console.error("Error repairing quarantined location:", error);
+      throw new Error("No se pudo reparar el registro. Inténtalo de nuevo.");
+    }
+  }
+
+  async discardQuarantined(quarantineId: string): Promise<void> {
+    try {
+      const entry = await this.getQuarantineEntry(quarantineId);
+
+      await this.runTransaction([QUARANTINE_STORE], "readwrite", (transaction) => {
+        transaction.objectStore(QUARANTINE_STORE).delete(quarantineId);
+      });
+
+      if (entry) await this.serialize(() => this.collectPhotos(getQuarantinedPhotoIds([entry])));
+    } catch (error) {
+      console.error("Error discarding quarantined location:", error);
+      throw new Error("No se pudo descartar el registro.");
+    }
+  }
+
+  async getStorageUsage(): Promise<{ used: number; available: number; percentage: number }> {
+    try {
+      if ("storage" in navigator && "estimate" in navigator.storage) {
+        const estimate = await navigator.storage.estimate();
+        const used = estimate.usage || 0;
+        const available = estimate.quota || 0;
+        const percentage = available > 0 ? Math.round((used / available) * 100) : 0;
+
+        return { used, available, percentage };
+      }
+    } catch (error) {
+      console.error("Error calculating storage usage:", error);
+    }
     return { used: 0, available: 0, percentage: 0 };
   }
-};
 
-const createBackup = (locations: CarLocation[]): void => {
-  try {
-    const backup = {
-      timestamp: Date.now(),
-      locations: locations,
+  /**
+   * Historial de modificaciones, de la más reciente a la más antigua
+   */
+  async getHistory(): Promise<LocationJournalEntry[]> {
+    try {
+      const journal = await this.readJournal();
+      return journal.sort((a, b) => b.seq! - a.seq!);
+    } catch (error) {
+      console.error("Error reading location history:", error);
+      return [];
+    }
+  }
+
+  async getHistoryState(): Promise<{ canUndo: boolean; canRedo: boolean }> {
+    const journal = await this.getHistory();
+    return {
+      canUndo: journal.some((entry) => !entry.undone),
+      canRedo: journal.some((entry) => entry.undone),
     };
-    localStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
-  } catch (error) {
-    console.warn("Could not create backup:", error);
   }
-};
 
-const restoreFromBackup = (): CarLocation[] => {
-  try {
-    const backupData = localStorage.getItem(BACKUP_KEY);
+  /**
+   * Deshace la última modificación aplicada o, con `seq`, justo esa. Si una
+   * modificación posterior tocó las mismas ubicaciones no se deshace, para no
+   * pisarla con la foto anterior.
+   */
+  async undo(seq?: number): Promise<LocationJournalEntry | null> {
+    return this.serialize(async () => {
+      const journal = await this.readJournal();
+      const applied = journal.filter((entry) => !entry.undone);
+      const target =
+        seq === undefined ? applied.sort((a, b) => b.seq! - a.seq!)[0] : applied.find((entry) => entry.seq === seq);
+      if (!target) return null;
+
+      const ids = new Set(target.changes.map((change) => change.id));
+      const overlaps = applied.some(
+        (entry) => entry.seq! > target.seq! && entry.changes.some((change) => ids.has(change.id))
+      );
+      if (overlaps) {
+        throw new Error("Esa ubicación ha cambiado después. Deshazlo desde el historial de cambios.");
+      }
 
-    if (!backupData) {
-      throw new Error("No backup available");
-    }
+      await this.applyHistory([target], "before");
+      return target;
+    });
+  }
+
+  /**
+   * Vuelve a aplicar la última modificación deshecha
+   */
+  async redo(): Promise<LocationJournalEntry | null> {
+    return this.serialize(async () => {
+      const journal = await this.readJournal();
+      const target = journal.filter((entry) => entry.undone).sort((a, b) => a.seq! - b.seq!)[0];
+      if (!target) return null;
+
+      await this.applyHistory([target], "after");
+      return target;
+    });
+  }
+
+  /**
+   * Deja los datos como estaban justo después de la modificación `seq`,
+   * deshaciendo o rehaciendo lo necesario. Con `seq = 0` se deshace todo.
+   */
+  async restoreToPoint(seq: number): Promise<number> {
+    try {
+      return await this.serialize(async () => {
+        const journal = await this.readJournal();
 
-    const backup = JSON.parse(backupData);
+        const toUndo = journal.filter((entry) => !entry.undone && entry.seq! > seq).sort((a, b) => b.seq! - a.seq!);
+        const toRedo = journal.filter((entry) => entry.undone && entry.seq! <= seq).sort((a, b) => a.seq! - b.seq!);
 
-    if (!backup.locations || !Array.isArray(backup.locations)) {
-      throw new Error("Invalid backup format");
+        if (toUndo.length > 0) await this.applyHistory(toUndo, "before");
+        if (toRedo.length > 0) await this.applyHistory(toRedo, "after");
+
+        return toUndo.length + toRedo.length;
+      });
+    } catch (error) {
+      console.error("Error restoring location history:", error);
+      throw new Error("No se pudo restaurar el punto seleccionado.");
     }
+  }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(backup.locations));
-    return backup.locations;
-  } catch (error) {
-    console.error("Error restoring from backup:", error);
-    throw error;
+  private async applyHistory(entries: LocationJournalEntry[], side: "before" | "after"): Promise<void> {
+    const sealed = await Promise.all(
+      entries.map(async (entry) => ({
+        changes: await sealChanges(side === "before" ? [...entry.changes].reverse() : entry.changes, side),
+        entry: await sealRecord({ ...entry, undone: side === "before" }, JOURNAL_KEYS),
+      }))
+    );
+
+    await this.runTransaction([LOCATIONS_STORE, JOURNAL_STORE], "readwrite", (transaction) => {
+      const store = transaction.objectStore(LOCATIONS_STORE);
+      const journalStore = transaction.objectStore(JOURNAL_STORE);
+
+      sealed.forEach(({ changes, entry }) => {
+        applyChanges(store, changes);
+        journalStore.put(entry);
+      });
+    });
+
+    console.log(`${side === "before" ? "Undid" : "Redid"} ${entries.length} location changes`);
   }
+
+  /**
+   * Vuelve a guardar ubicaciones, historial y cuarentena según el modo de
+   * cifrado actual (al activarlo o desactivarlo)
+   */
+  async reseal(): Promise<void> {
+    return this.serialize(() => this.resealAll());
+  }
+
+  private async resealAll(): Promise<void> {
+    const [locations, journal, quarantined] = await Promise.all([
+      this.readAll(),
+      this.readJournal(),
+      this.getQuarantined(),
+    ]);
+
+    const [sealedLocations, sealedJournal, sealedQuarantine] = await Promise.all([
+      sealLocations(locations),
+      Promise.all(journal.map((entry) => sealRecord(entry, JOURNAL_KEYS))),
+      sealQuarantineEntries(quarantined),
+    ]);
+
+    await this.runTransaction([LOCATIONS_STORE, JOURNAL_STORE, QUARANTINE_STORE], "readwrite", (transaction) => {
+      const writes: [string, object[]][] = [
+        [LOCATIONS_STORE, sealedLocations],
+        [JOURNAL_STORE, sealedJournal],
+        [QUARANTINE_STORE, sealedQuarantine],
+      ];
+
+      writes.forEach(([storeName, records]) => {
+        const store = transaction.objectStore(storeName);
+        store.clear();
+        records.forEach((record) => store.put(record));
+      });
+    });
+
+    console.log(`🔐 ${locations.length} ubicaciones guardadas de nuevo`);
+  }
+}
+
+const getLocationLabel = (location: CarLocation): string => {
+  return location.note || AddressUtils.getDisplayAddress(location) || `ubicación del ${new Date(location.timestamp).toLocaleDateString()}`;
+};
+
+const describeLocation = (locations: CarLocation[], id: string): string => {
+  const location = locations.find((loc) => loc.id === id);
+  return location ? getLocationLabel(location) : "ubicación";
+};
+
+const diffLocations = (current: CarLocation[], next: CarLocation[]): LocationJournalChange[] => {
+  const currentById = new Map(current.map((location) => [location.id, location]));
+  const nextById = new Map(next.map((location) => [location.id, location]));
+  const changes: LocationJournalChange[] = [];
+
+  currentById.forEach((before, id) => {
+    const after = nextById.get(id) ?? null;
+    if (!after || JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ id, before, after });
+    }
+  });
+
+  nextById.forEach((after, id) => {
+    if (!currentById.has(id)) {
+      changes.push({ id, before: null, after });
+    }
+  });
+
+  return changes;
+};
+
+const isPhotoReference = (photo: string): boolean => !photo.startsWith("data:");
+
+const getPhotoIds = (locations: Array<Pick<CarLocation, "photos"> | null>): string[] =>
+  locations.flatMap((location) => location?.photos?.filter(isPhotoReference) ?? []);
+
+const getQuarantinedPhotoIds = (entries: QuarantinedLocation[]): string[] =>
+  entries.flatMap(({ record }) =>
+    Array.isArray(record.photos)
+      ? record.photos.filter((photo): photo is string => typeof photo === "string" && isPhotoReference(photo))
+      : []
+  );
+
+const getJournalPhotoIds = (entries: LocationJournalEntry[]): string[] =>
+  entries.flatMap((entry) => entry.changes.flatMap((change) => getPhotoIds([change.before, change.after])));
+
+/** Claves de IndexedDB que se mantienen en claro al cifrar cada registro */
+const LOCATION_KEYS = ["id"];
+const JOURNAL_KEYS = ["seq"];
+const QUARANTINE_KEYS = ["quarantineId"];
+
+interface SealedChange {
+  id: string;
+  value: object | null;
+}
+
+const sealLocations = (locations: CarLocation[]) =>
+  Promise.all(locations.map((location) => sealRecord(location, LOCATION_KEYS)));
+
+const sealQuarantineEntries = (entries: QuarantinedLocation[]) =>
+  Promise.all(entries.map((entry) => sealRecord(entry, QUARANTINE_KEYS)));
+
+/**
+ * Prepara (y cifra, si procede) el lado indicado de cada cambio
+ */
+const sealChanges = (changes: LocationJournalChange[], side: "before" | "after"): Promise<SealedChange[]> =>
+  Promise.all(
+    changes.map(async (change) => {
+      const value = change[side];
+      return { id: change.id, value: value ? await sealRecord(value, LOCATION_KEYS) : null };
+    })
+  );
+
+const applyChanges = (store: IDBObjectStore, changes: SealedChange[]) => {
+  changes.forEach((change) => {
+    if (change.value) {
+      store.put(change.value);
+    } else {
+      store.delete(change.id);
+    }
+  });
 };
 
 const removeDuplicateLocations = (locations: CarLocation[]): CarLocation[] => {
@@ -300,10 +1249,42 @@ const removeDuplicateLocations = (locations: CarLocation[]): CarLocation[] => {
   return unique;
 };
 
-export const clearAddressCache = (): void => {
+export const locationRepository = new LocationRepository();
+
+export const saveCarLocation = (location: CarLocation): Promise<void> => locationRepository.save(location);
+
+export const getCarLocations = (): Promise<CarLocation[]> => locationRepository.getAll();
+
+export const deleteCarLocation = (id: string): Promise<LocationJournalEntry | null> => locationRepository.delete(id);
+
+export const getLastCarLocation = (): Promise<CarLocation | null> => locationRepository.getLast();
+
+export const updateCarLocation = (id: string, updates: Partial<CarLocation>): Promise<void> =>
+  locationRepository.update(id, updates);
+
+export const updateCarLocationWithoutHistory = (id: string, updates: Partial<CarLocation>): Promise<void> =>
+  locationRepository.updateWithoutHistory(id, updates);
+
+export const searchLocations = (query: string): Promise<CarLocation[]> => locationRepository.search(query);
+
+export const exportLocations = (): Promise<string> => locationRepository.export();
+
+export const importLocations = (jsonData: string): Promise<number> => locationRepository.import(jsonData);
+
+export const clearAllLocations = (): Promise<void> => locationRepository.clearAll();
+
+export const getStorageUsage = () => locationRepository.getStorageUsage();
+
+export const undoLocationChange = (seq?: number): Promise<LocationJournalEntry | null> =>
+  locationRepository.undo(seq);
+
+export const redoLocationChange = (): Promise<LocationJournalEntry | null> => locationRepository.redo();
+
+export const clearAddressCache = async (): Promise<void> => {
   try {
-    console.log("Address cache cleared");
+    await geocodeCache.clear();
   } catch (error) {
     console.error("Error clearing address cache:", error);
+    throw new Error("No se pudo vaciar la caché de direcciones.");
   }
 };
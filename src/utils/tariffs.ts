@@ -0,0 +1,184 @@
+// src/utils/tariffs.ts
+import type { CarLocation, TariffProfile } from "@/types/location";
+import { getUserPreferences } from "./preferences";
+
+/**
+ * Cálculo del coste de una estancia con las tarifas que define el usuario.
+ * La estancia empieza en `timestamp` (la hora a la que se guardó la ubicación).
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+/** Iniciales de los días en el orden de `Date.getDay()` (0 = domingo) */
+export const WEEKDAY_LABELS = ["D", "L", "M", "X", "J", "V", "S"];
+
+/** Orden en que se muestran los días, empezando por el lunes */
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const createTariffProfile = (): TariffProfile => ({
+  id: `tariff_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+  name: "",
+  pricePerSlice: 0.5,
+  sliceMinutes: 30,
+  minimumCharge: 0,
+  maxStayMinutes: 120,
+  dailyCap: 0,
+  freeWindows: [],
+});
+
+export const getTariffById = (tariffId?: string): TariffProfile | undefined =>
+  tariffId ? getUserPreferences().tariffProfiles.find((tariff) => tariff.id === tariffId) : undefined;
+
+/**
+ * "HH:MM" a minutos desde medianoche
+ */
+const parseClock = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= DAY_MINUTES ? minutes : null;
+};
+
+const startOfDay = (time: number): Date => {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Con el constructor de Date los cambios de hora caen donde toca
+const atMinutes = (day: Date, minutes: number): number =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes).getTime();
+
+/**
+ * Tramos gratuitos que caen dentro de la estancia, ordenados y sin solaparse
+ */
+const getFreeIntervals = (tariff: TariffProfile, start: number, end: number): Array<[number, number]> => {
+  const intervals: Array<[number, number]> = [];
+
+  // Un horario que empezó el día anterior puede cubrir el principio de la estancia
+  const day = startOfDay(start);
+  day.setDate(day.getDate() - 1);
+
+  while (day.getTime() < end) {
+    tariff.freeWindows.forEach((freeWindow) => {
+      const from = parseClock(freeWindow.from);
+      const to = parseClock(freeWindow.to);
+      if (from === null || to === null || !freeWindow.days.includes(day.getDay())) return;
+
+      const windowStart = atMinutes(day, from);
+      const windowEnd = atMinutes(day, to > from ? to : to + DAY_MINUTES);
+      if (windowEnd > start && windowStart < end) {
+        intervals.push([Math.max(windowStart, start), Math.min(windowEnd, end)]);
+      }
+    });
+    day.setDate(day.getDate() + 1);
+  }
+
+  return intervals
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval[0] <= last[1]) {
+        last[1] = Math.max(last[1], interval[1]);
+      } else {
+        merged.push([...interval]);
+      }
+      return merged;
+    }, []);
+};
+
+/**
+ * Coste en euros de aparcar entre `start` y `end`. Los tramos y el tope se
+ * cuentan por día natural; el mínimo se aplica al total si hay algo que pagar.
+ */
+export const calculateParkingCost = (tariff: TariffProfile, start: number, end: number): number => {
+  if (end <= start) return 0;
+
+  const freeIntervals = getFreeIntervals(tariff, start, end);
+  const sliceMinutes = Math.max(1, tariff.sliceMinutes);
+  let total = 0;
+
+  for (let day = startOfDay(start); day.getTime() < end; ) {
+    const nextDay = new Date(day);
+    nextDay.setDate(nextDay.getDate() + 1);
+
+    const from = Math.max(day.getTime(), start);
+    const to = Math.min(nextDay.getTime(), end);
+    const freeMs = freeIntervals.reduce((sum, [a, b]) => sum + Math.max(0, Math.min(b, to) - Math.max(a, from)), 0);
+    const billableMinutes = Math.round((to - from - freeMs) / MINUTE_MS);
+
+    if (billableMinutes > 0) {
+      const dayCost = Math.ceil(billableMinutes / sliceMinutes) * tariff.pricePerSlice;
+      total += tariff.dailyCap > 0 ? Math.min(dayCost, tariff.dailyCap) : dayCost;
+    }
+    day = nextDay;
+  }
+
+  if (total > 0) total = Math.max(total, tariff.minimumCharge);
+  return Math.round(total * 100) / 100;
+};
+
+/**
+ * Hora límite por la estancia máxima, o undefined si la tarifa no tiene
+ */
+export const getTariffMaxExpiry = (tariff: TariffProfile, start: number): number | undefined =>
+  tariff.maxStayMinutes > 0 ? start + tariff.maxStayMinutes * MINUTE_MS : undefined;
+
+/**
+ * "45 min", "2 h", "1 h 30 min"
+ */
+export const formatStayMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+/**
+ * "0.50€ cada 30 min · máx. 2 h · tope 10.00€/día"
+ */
+export const describeTariff = (tariff: TariffProfile): string => {
+  const parts = [`${tariff.pricePerSlice.toFixed(2)}€ cada ${formatStayMinutes(tariff.sliceMinutes)}`];
+  if (tariff.minimumCharge > 0) parts.push(`mín. ${tariff.minimumCharge.toFixed(2)}€`);
+  if (tariff.maxStayMinutes > 0) parts.push(`máx. ${formatStayMinutes(tariff.maxStayMinutes)}`);
+  if (tariff.dailyCap > 0) parts.push(`tope ${tariff.dailyCap.toFixed(2)}€/día`);
+  if (tariff.freeWindows.length > 0) parts.push("con horario gratuito");
+  return parts.join(" · ");
+};
+
+export interface TimerExtension {
+  expiryTime: number;
+  extensionCount: number;
+  cost?: number;
+}
+
+/**
+ * Cambios al prorrogar un temporizador hasta `newExpiryTime`. Con tarifa se
+ * suma al coste lo que cuesta el tiempo añadido; lanza un error si la
+ * prórroga pasa de la estancia máxima de la zona.
+ */
+const getTimerExtension = (location: CarLocation, newExpiryTime: number): TimerExtension => {
+  const updates = { expiryTime: newExpiryTime, extensionCount: (location.extensionCount || 0) + 1 };
+
+  const tariff = getTariffById(location.tariffId);
+  if (!tariff || !location.expiryTime) return updates;
+
+  const maxExpiry = getTariffMaxExpiry(tariff, location.timestamp);
+  if (maxExpiry && newExpiryTime > maxExpiry) {
+    throw new Error(`La tarifa ${tariff.name} permite como máximo ${formatStayMinutes(tariff.maxStayMinutes)}`);
+  }
+
+  const increment =
+    calculateParkingCost(tariff, location.timestamp, newExpiryTime) -
+    calculateParkingCost(tariff, location.timestamp, location.expiryTime);
+  return { ...updates, cost: Math.round(((location.cost ?? 0) + increment) * 100) / 100 };
+};
+
+/**
+ * Prórroga de `minutes` minutos para cualquier `extendTimer` (lista, panel de
+ * temporizadores o notificación). Si ya ha expirado, se cuenta desde ahora.
+ */
+export const extendLocationTimer = (location: CarLocation, minutes: number): TimerExtension =>
+  getTimerExtension(location, Math.max(location.expiryTime ?? 0, Date.now()) + minutes * MINUTE_MS);
@@ -0,0 +1,202 @@
+// src/utils/timerDelivery.ts
+import { getUserPreferences } from "./preferences";
+import { buildTimerNotification, type TimerNotification, type TimerNotificationKind } from "./timerNotifications";
+
+/**
+ * Copia de los avisos pendientes en IndexedDB para que el service worker
+ * (`public/timer-notifications-sw.js`) los entregue con la app cerrada: los
+ * setTimeout de `timerManager` solo funcionan con la página abierta.
+ */
+
+/**
+ * triggers: el sistema muestra cada aviso a su hora (Notification Triggers)
+ * periodic-sync: el worker revisa los avisos con la sincronización periódica
+ * catch-up: los avisos vencidos se entregan la próxima vez que arranque el worker
+ * page: solo con la app abierta (sin service worker o sin permiso)
+ */
+export type TimerDeliveryMode = "triggers" | "periodic-sync" | "catch-up" | "page";
+
+export interface TimerDeliveryEvent {
+  locationId: string;
+  kind: TimerNotificationKind;
+  fireAt: number;
+  /** Solo en los recordatorios */
+  minutesBefore?: number;
+  locationNote: string;
+}
+
+interface TimerScheduleEntry {
+  id: string;
+  locationId: string;
+  fireAt: number;
+  notification: TimerNotification;
+}
+
+interface PeriodicSyncManager {
+  register: (tag: string, options?: { minInterval: number }) => Promise<void>;
+}
+
+// Nombre del almacén, mensaje y etiqueta compartidos con el service worker
+const SCHEDULES_STORE = "schedules";
+const SYNC_MESSAGE = "SYNC_TIMER_SCHEDULES";
+const PERIODIC_SYNC_TAG = "aparky-timers";
+
+/** El navegador decide el intervalo real; suele ser bastante mayor */
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+const getEntryId = (event: TimerDeliveryEvent): string =>
+  event.kind === "expiry" ? `${event.locationId}:expiry` : `${event.locationId}:reminder-${event.minutesBefore}`;
+
+const toScheduleEntry = (event: TimerDeliveryEvent): TimerScheduleEntry => {
+  const id = getEntryId(event);
+  const notification =
+    event.kind === "expiry"
+      ? buildTimerNotification("expiry", event.locationId, "🚨 Parking expirado", event.locationNote)
+      : buildTimerNotification(
+          "reminder",
+          event.locationId,
+          "⏰ Recordatorio",
+          `${event.locationNote} expira en ${event.minutesBefore} minutos`,
+          event.minutesBefore
+        );
+
+  return { id, locationId: event.locationId, fireAt: event.fireAt, notification };
+};
+
+class TimerDelivery {
+  private dbName = "aparky-timer-schedules";
+  private dbVersion = 1;
+  private db: IDBDatabase | null = null;
+  private mode: TimerDeliveryMode = "page";
+  private events: TimerDeliveryEvent[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private watchingPermission = false;
+  private waitingForWorker = false;
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(SCHEDULES_STORE)) {
+          db.createObjectStore(SCHEDULES_STORE, { keyPath: "id" });
+        }
+      };
+    });
+  }
+
+  getMode(): TimerDeliveryMode {
+    return this.mode;
+  }
+
+  /**
+   * Comprueba qué mecanismo hay disponible y vuelve a copiar los avisos. Se
+   * repite sola cuando cambia el permiso de notificaciones y cuando termina de
+   * registrarse el service worker.
+   */
+  async detectMode(): Promise<TimerDeliveryMode> {
+    this.mode = await this.resolveMode();
+    console.log(`📬 Entrega de avisos con la app cerrada: ${this.mode}`);
+
+    this.watchPermission();
+    this.waitForWorker();
+    this.mirror(this.events);
+    return this.mode;
+  }
+
+  private async resolveMode(): Promise<TimerDeliveryMode> {
+    if (typeof window === "undefined" || !("serviceWorker" in navigator) || !("Notification" in window)) {
+      return "page";
+    }
+    if (typeof indexedDB === "undefined" || Notification.permission !== "granted") return "page";
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) return "page";
+
+      if ("showTrigger" in Notification.prototype && "TimestampTrigger" in window) return "triggers";
+
+      const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager })
+        .periodicSync;
+      if (periodicSync) {
+        // Solo se concede con la app instalada
+        const status = await navigator.permissions.query({ name: "periodic-background-sync" as PermissionName });
+        if (status.state === "granted") {
+          await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+          return "periodic-sync";
+        }
+      }
+    } catch (error) {
+      console.warn("⚠️ No se pudo comprobar la entrega en segundo plano:", error);
+    }
+
+    return "catch-up";
+  }
+
+  private watchPermission(): void {
+    if (this.watchingPermission || typeof navigator === "undefined" || !navigator.permissions) return;
+    this.watchingPermission = true;
+
+    navigator.permissions
+      .query({ name: "notifications" })
+      .then((status) => {
+        status.onchange = () => this.detectMode();
+      })
+      .catch((error) => console.warn("⚠️ No se puede vigilar el permiso de notificaciones:", error));
+  }
+
+  // Al arrancar, el service worker suele registrarse después de la primera comprobación
+  private waitForWorker(): void {
+    if (this.waitingForWorker || typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+    this.waitingForWorker = true;
+
+    navigator.serviceWorker.ready
+      .then(() => {
+        if (this.mode === "page") this.detectMode();
+      })
+      .catch((error) => console.warn("⚠️ No se pudo esperar al service worker:", error));
+  }
+
+  /**
+   * Sustituye los avisos guardados por los pendientes y se lo indica al
+   * service worker. Sin entrega en segundo plano se deja vacío.
+   */
+  mirror(events: TimerDeliveryEvent[]): void {
+    this.events = events;
+    if (typeof indexedDB === "undefined") return;
+
+    const active = this.mode !== "page" && getUserPreferences().notifications;
+    const entries = active ? events.map(toScheduleEntry) : [];
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.writeEntries(entries))
+      .catch((error) => console.error("Error mirroring timer schedules:", error));
+  }
+
+  private async writeEntries(entries: TimerScheduleEntry[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction([SCHEDULES_STORE], "readwrite");
+      const store = transaction.objectStore(SCHEDULES_STORE);
+
+      store.clear();
+      entries.forEach((entry) => store.put(entry));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const registration = await navigator.serviceWorker?.getRegistration();
+    registration?.active?.postMessage({ type: SYNC_MESSAGE });
+  }
+}
+
+export const timerDelivery = new TimerDelivery();
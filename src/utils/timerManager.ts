@@ -1,30 +1,77 @@
 // src/utils/timerManager.ts
 import type { CarLocation } from "@/types/location";
+import { migrateStoredItem } from "./schema";
+import { encryptionVault } from "./encryption";
+import { normalizeReminderOffsets } from "./reminders";
+import { timerDelivery, type TimerDeliveryEvent, type TimerDeliveryMode } from "./timerDelivery";
+
+/** Texto que se muestra en lugar de la nota mientras los datos están bloqueados */
+const LOCKED_LOCATION_LABEL = "Tu aparcamiento";
+
+/** Desfase entre el reloj del sistema y el monotónico que se toma como cambio de hora */
+const CLOCK_JUMP_TOLERANCE_MS = 60 * 1000;
+
+/** Tiempo en segundo plano a partir del cual se vuelven a crear los setTimeout */
+const LONG_SLEEP_MS = 5 * 60 * 1000;
+
+interface TimerReminder {
+  minutesBefore: number;
+  time: number;
+  /** Ya se ha avisado (se guarda para no repetirlo al recargar) */
+  fired: boolean;
+}
+
+interface TimerState {
+  locationId: string;
+  reminders: TimerReminder[];
+  expiryTime: number;
+  reminderScheduled: boolean;
+  expiryScheduled: boolean;
+  createdAt: number;
+}
+
+export interface TimerEventDetails {
+  /** El aviso se perdió con la app cerrada y se entrega al volver a abrirla */
+  whileClosed: boolean;
+  /** Solo en los recordatorios: cuántos minutos antes estaba configurado */
+  minutesBefore?: number;
+}
+
+type ExpirationCallback = (locationId: string, locationNote: string, details: TimerEventDetails) => void;
+type ReminderCallback = (
+  locationId: string,
+  locationNote: string,
+  minutesLeft: number,
+  details: TimerEventDetails
+) => void;
 
 class TimerManager {
   private static instance: TimerManager;
   private activeTimers: Map<string, number[]> = new Map();
+  private timerStates: Map<string, TimerState> = new Map();
 
-  private timerStates: Map<
-    string,
-    {
-      locationId: string;
-      reminderTime?: number;
-      expiryTime: number;
-      reminderScheduled: boolean;
-      expiryScheduled: boolean;
-      createdAt: number;
-    }
-  > = new Map();
+  /** Notas de las ubicaciones programadas; las restauradas no la tienen hasta sincronizar */
+  private locationNotes: Map<string, string> = new Map();
+
+  private onTimerExpirationCallbacks: ExpirationCallback[] = [];
+  private onTimerReminderCallbacks: ReminderCallback[] = [];
+  private onVisibilityChangeCallbacks: Array<(hidden: boolean, hiddenForMs: number) => void> = [];
+  private hiddenAt: number | null = null;
+  private lastClockCheck = { wall: Date.now(), monotonic: performance.now() };
 
-  private onTimerExpirationCallbacks: Array<(locationId: string, locationNote: string) => void> = [];
-  private onTimerReminderCallbacks: Array<(locationId: string, locationNote: string, minutesLeft: number) => void> = [];
+  /** Avisos de la restauración que llegan antes de que la UI registre sus callbacks */
+  private pendingExpirations: Array<Parameters<ExpirationCallback>> = [];
+  private pendingReminders: Array<Parameters<ReminderCallback>> = [];
 
+  /** Solo ids y horas: se guarda en claro aunque los datos estén cifrados */
   private readonly STORAGE_KEY = "active_timers_backup";
+  /** Mientras otro proceso escribe `STORAGE_KEY` (restaurar una copia) */
+  private persistenceSuspended = false;
 
   private constructor() {
     this.setupAppLifecycleHandlers();
     this.restoreTimersFromStorage();
+    timerDelivery.detectMode();
   }
 
   public static getInstance(): TimerManager {
@@ -34,28 +81,74 @@ class TimerManager {
     return TimerManager.instance;
   }
 
-  public onTimerExpiration(callback: (locationId: string, locationNote: string) => void): void {
+  public onTimerExpiration(callback: ExpirationCallback): void {
     this.onTimerExpirationCallbacks.push(callback);
+    this.pendingExpirations.splice(0).forEach((args) => this.executeExpirationCallbacks(...args));
   }
 
-  public onTimerReminder(callback: (locationId: string, locationNote: string, minutesLeft: number) => void): void {
+  public onTimerReminder(callback: ReminderCallback): void {
     this.onTimerReminderCallbacks.push(callback);
+    this.pendingReminders.splice(0).forEach((args) => this.executeReminderCallbacks(...args));
   }
 
-  private executeExpirationCallbacks(locationId: string, locationNote: string): void {
+  /**
+   * Con los datos bloqueados no se muestra la nota de la ubicación
+   */
+  private getVisibleNote(locationNote: string): string {
+    return encryptionVault.isLocked() ? LOCKED_LOCATION_LABEL : locationNote;
+  }
+
+  /**
+   * Avisa cuando la app pasa a segundo plano y cuando vuelve, con el tiempo
+   * que ha estado oculta
+   */
+  public onVisibilityChange(callback: (hidden: boolean, hiddenForMs: number) => void): void {
+    this.onVisibilityChangeCallbacks.push(callback);
+  }
+
+  private executeVisibilityCallbacks(hidden: boolean, hiddenForMs: number): void {
+    this.onVisibilityChangeCallbacks.forEach((callback) => {
+      try {
+        callback(hidden, hiddenForMs);
+      } catch (error) {
+        console.error("Error en callback de visibilidad:", error);
+      }
+    });
+  }
+
+  private getLocationNote(locationId: string): string {
+    return this.locationNotes.get(locationId) ?? LOCKED_LOCATION_LABEL;
+  }
+
+  private executeExpirationCallbacks(locationId: string, locationNote: string, details: TimerEventDetails): void {
+    if (this.onTimerExpirationCallbacks.length === 0) {
+      this.pendingExpirations.push([locationId, locationNote, details]);
+      return;
+    }
+
     this.onTimerExpirationCallbacks.forEach((callback) => {
       try {
-        callback(locationId, locationNote);
+        callback(locationId, this.getVisibleNote(locationNote), details);
       } catch (error) {
         console.error("Error en callback de expiración:", error);
       }
     });
   }
 
-  private executeReminderCallbacks(locationId: string, locationNote: string, minutesLeft: number): void {
+  private executeReminderCallbacks(
+    locationId: string,
+    locationNote: string,
+    minutesLeft: number,
+    details: TimerEventDetails
+  ): void {
+    if (this.onTimerReminderCallbacks.length === 0) {
+      this.pendingReminders.push([locationId, locationNote, minutesLeft, details]);
+      return;
+    }
+
     this.onTimerReminderCallbacks.forEach((callback) => {
       try {
-        callback(locationId, locationNote, minutesLeft);
+        callback(locationId, this.getVisibleNote(locationNote), minutesLeft, details);
       } catch (error) {
         console.error("Error en callback de recordatorio:", error);
       }
@@ -67,10 +160,15 @@ class TimerManager {
     document.addEventListener("visibilitychange", () => {
       if (document.hidden) {
         console.log("📱 Timer: App a background - guardando estado");
+        this.hiddenAt = Date.now();
         this.saveTimersToStorage();
+        this.executeVisibilityCallbacks(true, 0);
       } else {
         console.log("📱 Timer: App restaurada - verificando timers");
-        this.verifyTimerStates();
+        const hiddenForMs = this.hiddenAt ? Date.now() - this.hiddenAt : 0;
+        this.hiddenAt = null;
+        this.handleResume(hiddenForMs);
+        this.executeVisibilityCallbacks(false, hiddenForMs);
       }
     });
 
@@ -81,11 +179,48 @@ class TimerManager {
 
     window.addEventListener("focus", () => {
       console.log("👁️ Timer: App enfocada - sincronizando");
-      this.verifyTimerStates();
+      this.handleResume(0);
     });
   }
 
+  /**
+   * Al volver a primer plano. Los setTimeout cuentan tiempo monotónico: tras
+   * un cambio de hora o una suspensión larga quedan desfasados respecto a las
+   * horas guardadas y se vuelven a crear.
+   */
+  private handleResume(hiddenForMs: number): void {
+    const drift = this.detectClockJump();
+
+    if (drift !== 0) {
+      this.rescheduleAll(`cambio de hora de ${Math.round(drift / 1000 / 60)} minutos`);
+    } else if (hiddenForMs >= LONG_SLEEP_MS) {
+      this.rescheduleAll(`${Math.round(hiddenForMs / 1000 / 60)} minutos en segundo plano`);
+    } else {
+      this.verifyTimerStates();
+    }
+  }
+
+  /**
+   * Devuelve cuánto ha cambiado el reloj del sistema respecto al monotónico
+   * desde la última comprobación (0 si no hay un salto apreciable)
+   */
+  private detectClockJump(): number {
+    const wall = Date.now();
+    const monotonic = performance.now();
+    const drift = wall - this.lastClockCheck.wall - (monotonic - this.lastClockCheck.monotonic);
+
+    this.lastClockCheck = { wall, monotonic };
+    return Math.abs(drift) > CLOCK_JUMP_TOLERANCE_MS ? drift : 0;
+  }
+
+  private rescheduleAll(reason: string): void {
+    console.log(`🔁 Reprogramando ${this.timerStates.size} timers (${reason})`);
+    Array.from(this.timerStates.values()).forEach((state) => this.armTimer(state, false));
+  }
+
   private saveTimersToStorage(): void {
+    if (this.persistenceSuspended) return;
+
     try {
       const data = {
         states: Array.from(this.timerStates.entries()),
@@ -97,10 +232,49 @@ class TimerManager {
     } catch (error) {
       console.error("❌ Error guardando estado de timers:", error);
     }
+
+    timerDelivery.mirror(this.getDeliveryEvents());
+  }
+
+  /**
+   * Avisos pendientes para el service worker. Con cifrado la copia no lleva
+   * la nota, igual que el backup de `STORAGE_KEY`.
+   */
+  private getDeliveryEvents(): TimerDeliveryEvent[] {
+    const hideNotes = encryptionVault.isEnabled();
+
+    return Array.from(this.timerStates.values()).flatMap((state) => {
+      const locationNote = hideNotes ? LOCKED_LOCATION_LABEL : this.getLocationNote(state.locationId);
+      const reminders: TimerDeliveryEvent[] = state.reminders
+        .filter((reminder) => !reminder.fired)
+        .map((reminder) => ({
+          locationId: state.locationId,
+          kind: "reminder",
+          fireAt: reminder.time,
+          minutesBefore: reminder.minutesBefore,
+          locationNote,
+        }));
+
+      return [...reminders, { locationId: state.locationId, kind: "expiry", fireAt: state.expiryTime, locationNote }];
+    });
+  }
+
+  /**
+   * Cómo llegan los avisos con la app cerrada (ver `TimerDeliveryMode`)
+   */
+  public getDeliveryMode(): TimerDeliveryMode {
+    return timerDelivery.getMode();
+  }
+
+  public refreshDeliveryMode(): Promise<TimerDeliveryMode> {
+    return timerDelivery.detectMode();
   }
 
   private restoreTimersFromStorage(): void {
     try {
+      // Se ejecuta al cargar el módulo, antes que las migraciones de arranque
+      migrateStoredItem("timers");
+
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (!stored) return;
 
@@ -109,7 +283,6 @@ class TimerManager {
 
       console.log(`🔄 Restaurando ${restoredStates.size} timers desde storage`);
 
-      const now = Date.now();
       for (const [locationId, state] of restoredStates) {
         if (
           state &&
@@ -118,50 +291,135 @@ class TimerManager {
           "expiryTime" in state &&
           typeof state.expiryTime === "number"
         ) {
-          const timerState = state as {
-            locationId: string;
-            reminderTime?: number;
-            expiryTime: number;
-            reminderScheduled: boolean;
-            expiryScheduled: boolean;
-            createdAt: number;
-          };
-
-          if (timerState.expiryTime > now) {
-            this.timerStates.set(locationId, timerState);
-            console.log(`🔄 Timer restaurado: ${locationId}`);
-          } else {
-            console.log(`🗑️ Timer expirado eliminado del storage: ${locationId}`);
-          }
+          const timerState = state as TimerState;
+          this.timerStates.set(locationId, {
+            ...timerState,
+            locationId,
+            reminders: Array.isArray(timerState.reminders) ? timerState.reminders : [],
+            reminderScheduled: false,
+            expiryScheduled: false,
+          });
         }
       }
 
+      // Lo que venció con la app cerrada se avisa ahora, una sola vez
+      Array.from(this.timerStates.values()).forEach((state) => {
+        this.armTimer(state, true);
+        if (this.timerStates.has(state.locationId)) {
+          console.log(`🔄 Timer restaurado: ${state.locationId}`);
+        }
+      });
+
+      this.saveTimersToStorage();
       console.log(`✅ Restauración completada: ${this.timerStates.size} timers activos`);
     } catch (error) {
       console.error("❌ Error restaurando timers:", error);
     }
   }
 
+  /**
+   * Avisa de lo que ya ha vencido sin esperar a que salte su setTimeout, que
+   * en segundo plano puede retrasarse
+   */
   private verifyTimerStates(): void {
     const now = Date.now();
-    const expiredTimers: string[] = [];
+    const dueTimers = Array.from(this.timerStates.values()).filter(
+      (state) =>
+        state.expiryTime <= now || state.reminders.some((reminder) => !reminder.fired && reminder.time <= now)
+    );
+
+    if (dueTimers.length > 0) {
+      console.log(`⏰ Avisando ${dueTimers.length} timers vencidos`);
+      dueTimers.forEach((state) => this.armTimer(state, false));
+    }
+  }
 
-    for (const [locationId, state] of this.timerStates) {
-      if (state.expiryTime <= now) {
-        expiredTimers.push(locationId);
-      }
+  /**
+   * Crea los setTimeout de un estado a partir de sus horas. Lo que ya debería
+   * haber saltado se avisa en el momento.
+   */
+  private armTimer(state: TimerState, whileClosed: boolean): void {
+    const { locationId } = state;
+    const now = Date.now();
+
+    this.clearExistingTimers(locationId);
+
+    if (state.expiryTime <= now) {
+      this.fireExpiry(locationId, whileClosed);
+      return;
     }
 
-    if (expiredTimers.length > 0) {
-      console.log(`🧹 Limpiando ${expiredTimers.length} timers expirados`);
-      expiredTimers.forEach((id) => this.cleanupExpiredTimer(id));
-      this.saveTimersToStorage();
+    const locationTimers: number[] = [];
+
+    const pendingReminders = state.reminders.filter((reminder) => !reminder.fired);
+    const dueReminders = pendingReminders.filter((reminder) => reminder.time <= now);
+    if (dueReminders.length > 0) {
+      this.fireReminders(locationId, dueReminders, whileClosed);
     }
+
+    const upcomingReminders = pendingReminders.filter((reminder) => reminder.time > now);
+    upcomingReminders.forEach((reminder) => {
+      const timeUntilReminder = reminder.time - now;
+      console.log(`⏰ Programando recordatorio en ${Math.round(timeUntilReminder / 1000 / 60)} minutos`);
+
+      locationTimers.push(
+        window.setTimeout(() => this.fireReminders(locationId, [reminder], false), timeUntilReminder)
+      );
+    });
+    state.reminderScheduled = upcomingReminders.length > 0;
+
+    const timeUntilExpiry = state.expiryTime - now;
+    console.log(`🚨 Programando expiración en ${Math.round(timeUntilExpiry / 1000 / 60)} minutos`);
+
+    locationTimers.push(window.setTimeout(() => this.fireExpiry(locationId, false), timeUntilExpiry));
+    state.expiryScheduled = true;
+
+    this.activeTimers.set(locationId, locationTimers);
+  }
+
+  /**
+   * Marca los recordatorios como avisados. Si han vencido varios a la vez
+   * (p. ej. con la app cerrada) se muestra un solo aviso.
+   */
+  private fireReminders(locationId: string, reminders: TimerReminder[], whileClosed: boolean): void {
+    const state = this.timerStates.get(locationId);
+    if (!state) return;
+
+    const pending = reminders.filter((reminder) => state.reminders.includes(reminder) && !reminder.fired);
+    if (pending.length === 0) return;
+
+    pending.forEach((reminder) => {
+      reminder.fired = true;
+    });
+    this.saveTimersToStorage();
+
+    const locationNote = this.getLocationNote(locationId);
+    const minutesLeft = Math.max(0, Math.round((state.expiryTime - Date.now()) / 1000 / 60));
+    console.log(`⏰ Recordatorio activado para: ${locationNote}${whileClosed ? " (app cerrada)" : ""}`);
+
+    // Si se juntan varios, el aviso corresponde al más cercano a la expiración
+    const minutesBefore = Math.min(...pending.map((reminder) => reminder.minutesBefore));
+    this.executeReminderCallbacks(locationId, locationNote, minutesLeft, { whileClosed, minutesBefore });
+  }
+
+  private fireExpiry(locationId: string, whileClosed: boolean): void {
+    if (!this.timerStates.has(locationId)) return;
+
+    const locationNote = this.getLocationNote(locationId);
+    console.log(`🚨 Timer expirado para: ${locationNote}${whileClosed ? " (app cerrada)" : ""}`);
+
+    this.clearExistingTimers(locationId);
+    this.timerStates.delete(locationId);
+    this.locationNotes.delete(locationId);
+    this.saveTimersToStorage();
+
+    this.executeExpirationCallbacks(locationId, locationNote, { whileClosed });
   }
 
   private cleanupExpiredTimer(locationId: string): void {
     this.clearExistingTimers(locationId);
     this.timerStates.delete(locationId);
+    this.locationNotes.delete(locationId);
     console.log(`🗑️ Timer expirado limpiado: ${locationId}`);
   }
 
@@ -169,6 +427,7 @@ class TimerManager {
     console.log(`🗑️ Cancelando timer para: ${locationId}`);
     this.clearExistingTimers(locationId);
     this.timerStates.delete(locationId);
+    this.locationNotes.delete(locationId);
     this.saveTimersToStorage();
   }
 
@@ -190,63 +449,34 @@ class TimerManager {
     }
 
     const now = Date.now();
-    const { id, note: locationNote = "Ubicación sin nombre", expiryTime, reminderMinutes } = location;
+    const { id, note: locationNote = "Ubicación sin nombre", expiryTime, reminderOffsets } = location;
 
     if (expiryTime <= now) {
       console.warn(`⚠️ No se puede programar timer para el pasado: ${locationNote}`);
       return;
     }
 
-    this.clearExistingTimers(id);
-
     console.log(`⏱️ Programando timer para: ${locationNote}`);
     console.log(`⏱️ Expira en: ${Math.round((expiryTime - now) / 1000 / 60)} minutos`);
 
-    const locationTimers: number[] = [];
-    const reminderTime = reminderMinutes ? expiryTime - reminderMinutes * 60000 : undefined;
+    // Los recordatorios que ya han pasado al programar no se avisan
+    const reminders = normalizeReminderOffsets(reminderOffsets).map((minutesBefore) => {
+      const time = expiryTime - minutesBefore * 60000;
+      return { minutesBefore, time, fired: time <= now };
+    });
 
-    const timerState = {
+    const timerState: TimerState = {
       locationId: id,
-      reminderTime,
+      reminders,
       expiryTime,
       reminderScheduled: false,
       expiryScheduled: false,
       createdAt: now,
     };
 
+    this.locationNotes.set(id, locationNote);
     this.timerStates.set(id, timerState);
-
-    if (reminderTime && reminderTime > now) {
-      const timeUntilReminder = reminderTime - now;
-      console.log(`⏰ Programando recordatorio en ${Math.round(timeUntilReminder / 1000 / 60)} minutos`);
-
-      const reminderTimeout = window.setTimeout(() => {
-        console.log(`⏰ Recordatorio activado para: ${locationNote}`);
-        const minutesLeft = Math.round((expiryTime - Date.now()) / 1000 / 60);
-
-        this.executeReminderCallbacks(id, locationNote, minutesLeft);
-      }, timeUntilReminder);
-
-      locationTimers.push(reminderTimeout);
-      timerState.reminderScheduled = true;
-    }
-
-    const timeUntilExpiry = expiryTime - now;
-    console.log(`🚨 Programando expiración en ${Math.round(timeUntilExpiry / 1000 / 60)} minutos`);
-
-    const expiryTimeout = window.setTimeout(() => {
-      console.log(`🚨 Timer expirado para: ${locationNote}`);
-
-      this.executeExpirationCallbacks(id, locationNote);
-
-      this.timerStates.delete(id);
-      this.saveTimersToStorage();
-    }, timeUntilExpiry);
-
-    locationTimers.push(expiryTimeout);
-    timerState.expiryScheduled = true;
-
-    this.activeTimers.set(id, locationTimers);
+    this.armTimer(timerState, false);
     this.saveTimersToStorage();
 
     console.log(`✅ Timer programado exitosamente para: ${locationNote}`);
@@ -273,6 +503,7 @@ class TimerManager {
       state: {
         reminderScheduled: state.reminderScheduled,
         expiryScheduled: state.expiryScheduled,
+        reminders: state.reminders,
       },
       expiresAt: new Date(state.expiryTime).toLocaleString(),
       remainingMinutes: Math.round((state.expiryTime - Date.now()) / 1000 / 60),
@@ -288,8 +519,10 @@ class TimerManager {
 
     this.activeTimers.clear();
     this.timerStates.clear();
+    this.locationNotes.clear();
 
     localStorage.removeItem(this.STORAGE_KEY);
+    timerDelivery.mirror([]);
 
     console.log("✅ Todos los timers cancelados");
   }
@@ -325,6 +558,7 @@ class TimerManager {
       expiration: this.onTimerExpirationCallbacks.length,
       reminder: this.onTimerReminderCallbacks.length,
     });
+    console.log("- Entrega con la app cerrada:", timerDelivery.getMode());
 
     const saved = localStorage.getItem(this.STORAGE_KEY);
     console.log("💾 Storage backup:", saved ? JSON.parse(saved) : "Vacío");
@@ -335,6 +569,7 @@ class TimerManager {
     totalStates: number;
     nextExpiration: string | null;
     systemHealth: "good" | "warning" | "error";
+    deliveryMode: TimerDeliveryMode;
   } {
     const activeCount = this.getActiveTimers().length;
     const stateCount = this.timerStates.size;
@@ -361,6 +596,7 @@ class TimerManager {
       totalStates: stateCount,
       nextExpiration: nextExpiration ? new Date(nextExpiration).toLocaleString() : null,
       systemHealth,
+      deliveryMode: timerDelivery.getMode(),
     };
   }
 
@@ -374,7 +610,7 @@ class TimerManager {
       timestamp: Date.now(),
       note: "Test Timer Sistema",
       expiryTime: Date.now() + 90 * 1000,
-      reminderMinutes: 1,
+      reminderOffsets: [1],
     };
 
     try {
@@ -425,6 +661,20 @@ class TimerManager {
     return cleanedCount;
   }
 
+  /**
+   * Deja de guardar el estado en memoria mientras se escriben otros timers en
+   * `STORAGE_KEY` y hasta recargar la página: si no, al ocultar o cerrar la
+   * app se guardarían los anteriores encima.
+   */
+  public suspendPersistence(): void {
+    this.persistenceSuspended = true;
+  }
+
+  public resumePersistence(): void {
+    this.persistenceSuspended = false;
+    this.saveTimersToStorage();
+  }
+
   public cleanup(): void {
     console.log("🧹 Limpiando sistema completo de timers");
 
@@ -433,6 +683,7 @@ class TimerManager {
     }
 
     localStorage.removeItem(this.STORAGE_KEY);
+    timerDelivery.mirror([]);
 
     console.log("✅ Sistema de timers limpiado completamente");
   }
@@ -0,0 +1,150 @@
+// src/utils/timerNotifications.ts
+import { buildActionUrl, type UrlAction } from "./urlActions";
+import { getUserPreferences } from "./preferences";
+
+/**
+ * Notificaciones del sistema para los recordatorios y la expiración de los
+ * temporizadores. Se muestran desde el service worker para poder llevar
+ * botones; cada botón es una acción de URL (ver `urlActions.ts`) que el
+ * service worker (`public/timer-notifications-sw.js`) devuelve a la app o
+ * abre en una ventana nueva.
+ */
+
+export type TimerNotificationKind = "reminder" | "expiry";
+
+/** Mensaje que envía el service worker a la app al pulsar una notificación */
+export const NOTIFICATION_ACTION_MESSAGE = "NOTIFICATION_ACTION";
+
+/** Marca las notificaciones propias para que el service worker ignore el resto */
+const NOTIFICATION_SOURCE = "aparky-timer";
+
+interface TimerNotificationAction {
+  action: string;
+  title: string;
+}
+
+// `actions` no está en los tipos de TypeScript aunque Chrome y Edge la admiten
+export interface TimerNotificationOptions extends NotificationOptions {
+  actions?: TimerNotificationAction[];
+  renotify?: boolean;
+}
+
+/** Notificación lista para `showNotification`; también se guarda para el service worker */
+export interface TimerNotification {
+  title: string;
+  options: TimerNotificationOptions;
+}
+
+interface TimerActionOption extends TimerNotificationAction {
+  urlAction: UrlAction;
+}
+
+const getTimerActions = (kind: TimerNotificationKind, locationId: string): TimerActionOption[] => {
+  const extend = (minutes: number): TimerActionOption => ({
+    action: `extend-${minutes}`,
+    title: `+${minutes} min`,
+    urlAction: { type: "extend", id: locationId, minutes },
+  });
+  const show: TimerActionOption = {
+    action: "show",
+    title: "Ver en el mapa",
+    urlAction: { type: "show", id: locationId },
+  };
+  const navigate: TimerActionOption = {
+    action: "navigate",
+    title: "Cómo llegar",
+    urlAction: { type: "navigate", id: locationId },
+  };
+
+  // Muchos navegadores solo muestran los dos primeros botones
+  return kind === "reminder" ? [extend(15), extend(30), show, navigate] : [navigate, extend(15), extend(30), show];
+};
+
+const getMaxActions = (): number => (Notification as unknown as { maxActions?: number }).maxActions ?? 2;
+
+export const isTimerNotificationSupported = (): boolean =>
+  typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+
+/**
+ * Pide permiso si las notificaciones están activadas en las preferencias y
+ * aún no se ha preguntado. Tiene que llamarse desde un gesto del usuario.
+ */
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (!isTimerNotificationSupported() || !getUserPreferences().notifications) return false;
+  if (Notification.permission !== "default") return Notification.permission === "granted";
+
+  try {
+    return (await Notification.requestPermission()) === "granted";
+  } catch (error) {
+    console.error("Error requesting notification permission:", error);
+    return false;
+  }
+};
+
+/**
+ * Etiqueta de cada aviso. La usan tanto la app como los avisos que entrega el
+ * service worker, así que si llegan los dos el segundo sustituye al primero.
+ */
+export const getTimerNotificationTag = (
+  kind: TimerNotificationKind,
+  locationId: string,
+  minutesBefore?: number
+): string => (kind === "expiry" ? `timer-${locationId}:expiry` : `timer-${locationId}:reminder-${minutesBefore}`);
+
+export const buildTimerNotification = (
+  kind: TimerNotificationKind,
+  locationId: string,
+  title: string,
+  body: string,
+  minutesBefore?: number
+): TimerNotification => {
+  const actions = getTimerActions(kind, locationId).slice(0, getMaxActions());
+
+  return {
+    title,
+    options: {
+      body,
+      icon: "/icons/pwa-192x192.png",
+      badge: "/icons/pwa-64x64.png",
+      tag: getTimerNotificationTag(kind, locationId, minutesBefore),
+      renotify: true,
+      requireInteraction: kind === "expiry",
+      actions: actions.map(({ action, title: actionTitle }) => ({ action, title: actionTitle })),
+      data: {
+        source: NOTIFICATION_SOURCE,
+        // Al pulsar la notificación (sin botón) se abre la ubicación en el mapa
+        urls: {
+          default: buildActionUrl({ type: "show", id: locationId }),
+          ...Object.fromEntries(actions.map(({ action, urlAction }) => [action, buildActionUrl(urlAction)])),
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Muestra la notificación del sistema. Con la app en primer plano basta con
+ * el toast, así que solo se muestra cuando está oculta.
+ */
+export const showTimerNotification = async (
+  kind: TimerNotificationKind,
+  locationId: string,
+  title: string,
+  body: string,
+  /** Solo en los recordatorios */
+  minutesBefore?: number
+): Promise<boolean> => {
+  if (!isTimerNotificationSupported() || Notification.permission !== "granted") return false;
+  if (!getUserPreferences().notifications || !document.hidden) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const notification = buildTimerNotification(kind, locationId, title, body, minutesBefore);
+
+    await registration.showNotification(notification.title, notification.options);
+    return true;
+  } catch (error) {
+    console.error("Error showing timer notification:", error);
+    return false;
+  }
+};
@@ -0,0 +1,97 @@
+// src/utils/urlActions.ts
+import { getSharePayload, SHARE_FRAGMENT_KEY } from "./shareLink";
+
+/**
+ * Acciones que la app acepta por URL (`/?action=save`, `/?action=show&id=...`).
+ * Las usan los accesos directos del manifest, las notificaciones y los
+ * enlaces compartidos (`/#share=...`, ver `shareLink.ts`). Los botones de las
+ * notificaciones del temporizador usan `/?action=extend&id=...&minutes=15`.
+ */
+
+export type UrlAction =
+  | { type: "save" }
+  | { type: "search" }
+  | { type: "navigate"; id: string }
+  | { type: "show"; id: string }
+  | { type: "extend"; id: string; minutes: number }
+  | { type: "shared"; payload: string };
+
+/**
+ * De dónde llega la acción: `app` si la lanza la propia app (sus avisos o el
+ * service worker al pulsar una notificación), `url` si viene en la dirección
+ * con la que se abrió la página, que puede ser un enlace de cualquiera.
+ */
+export type UrlActionSource = "app" | "url";
+
+const ACTION_PARAM = "action";
+const ID_PARAM = "id";
+const MINUTES_PARAM = "minutes";
+
+/** Evento que se emite al navegar a una acción desde dentro de la app */
+export const URL_ACTION_EVENT = "aparky:url-action";
+
+export const parseUrlAction = (search: string, hash: string = ""): UrlAction | null => {
+  const sharePayload = getSharePayload(hash);
+  if (sharePayload) {
+    return { type: "shared", payload: sharePayload };
+  }
+
+  const params = new URLSearchParams(search);
+  const action = params.get(ACTION_PARAM);
+  const id = params.get(ID_PARAM)?.trim();
+
+  switch (action) {
+    case "save":
+    case "search":
+      return { type: action };
+    case "navigate":
+    case "show":
+      return id ? { type: action, id } : null;
+    case "extend": {
+      const minutes = Number(params.get(MINUTES_PARAM));
+      return id && Number.isInteger(minutes) && minutes > 0 ? { type: action, id, minutes } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const buildActionUrl = (action: UrlAction, origin: string = window.location.origin): string => {
+  const url = new URL("/", origin);
+  if (action.type === "shared") {
+    url.hash = `${SHARE_FRAGMENT_KEY}=${action.payload}`;
+    return url.toString();
+  }
+
+  url.searchParams.set(ACTION_PARAM, action.type);
+  if ("id" in action) {
+    url.searchParams.set(ID_PARAM, action.id);
+  }
+  if (action.type === "extend") {
+    url.searchParams.set(MINUTES_PARAM, String(action.minutes));
+  }
+  return url.toString();
+};
+
+/**
+ * Quita la acción de la URL para que no se repita al recargar
+ */
+export const clearUrlAction = (): void => {
+  const url = new URL(window.location.href);
+  const hasShare = getSharePayload(url.hash) !== null;
+  if (!url.searchParams.has(ACTION_PARAM) && !hasShare) return;
+
+  url.searchParams.delete(ACTION_PARAM);
+  url.searchParams.delete(ID_PARAM);
+  url.searchParams.delete(MINUTES_PARAM);
+  if (hasShare) url.hash = "";
+  window.history.replaceState(window.history.state, "", `${url.pathname}${url.search}${url.hash}`);
+};
+
+/**
+ * Navega a una acción sin recargar la página
+ */
+export const dispatchUrlAction = (action: UrlAction): void => {
+  window.history.pushState(window.history.state, "", buildActionUrl(action));
+  window.dispatchEvent(new Event(URL_ACTION_EVENT));
+};
@@ -21,6 +21,8 @@ export default defineConfig({
         globPatterns: ["**/*.{js,css,html,ico,png,svg,webp,woff,woff2}"],
         // 🔥 CORREGIDO: Usar globIgnores en lugar de exclude
         globIgnores: ["**/sw.js", "**/workbox-*.js"],
+        // Botones de las notificaciones del temporizador
+        importScripts: ["/timer-notifications-sw.js"],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/nominatim\.openstreetmap\.org\/.*/i,